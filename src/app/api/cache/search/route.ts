@@ -0,0 +1,48 @@
+/**
+ * Search Result Cache Admin API
+ * GET /api/cache/search?limit=50 - Current expert dataset generation and cached searches
+ * DELETE /api/cache/search - Purge everything, ?stale=true for older generations only,
+ *                            or ?queryHash=... for one entry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { inspectSearchCache, purgeSearchCache } from '@/lib/search-cache';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(500, Math.max(1, parseInt(searchParams.get('limit') || '') || 50));
+
+        const cache = await inspectSearchCache(limit);
+
+        return NextResponse.json({ success: true, ...cache });
+    } catch (error) {
+        console.error('Search cache inspect error:', error);
+        return NextResponse.json(
+            { error: 'Failed to inspect search cache', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const queryHash = searchParams.get('queryHash') || undefined;
+        const staleOnly = searchParams.get('stale') === 'true';
+
+        const purged = await purgeSearchCache({ queryHash, staleOnly });
+
+        if (queryHash && purged === 0) {
+            return NextResponse.json({ error: 'Cache entry not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, purged });
+    } catch (error) {
+        console.error('Search cache purge error:', error);
+        return NextResponse.json(
+            { error: 'Failed to purge search cache', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb, COLLECTIONS } from '@/lib/mongodb';
+import { bumpDatasetGeneration } from '@/lib/search-cache';
 
 // Known company/organization names and patterns
 const COMPANY_PATTERNS = [
@@ -71,6 +72,7 @@ export async function POST(request: NextRequest) {
                 name: { $in: toRemove }
             });
             removed = result.deletedCount;
+            if (removed > 0) await bumpDatasetGeneration(`removed ${removed} company accounts`);
             console.log(`Deleted ${removed} company accounts`);
         }
 
@@ -0,0 +1,106 @@
+/**
+ * Re-embedding Job API
+ * POST /api/embeddings/reembed - Start a job for the active embedding model ({ batchSize }) or resume one ({ jobId })
+ * GET /api/embeddings/reembed?jobId=... - Check job progress (omit jobId to list recent jobs)
+ * DELETE /api/embeddings/reembed?jobId=... - Cancel a running job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    startReembedJob,
+    resumeReembedJob,
+    cancelReembedJob,
+    getReembedJob,
+    listReembedJobs,
+    InvalidReembedJobError,
+} from '@/lib/reembed';
+import { getEmbeddingMetadata } from '@/lib/voyage';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { jobId, batchSize } = body;
+
+        const job = jobId
+            ? await resumeReembedJob(jobId)
+            : await startReembedJob({ batchSize });
+
+        return NextResponse.json({
+            success: true,
+            message: jobId ? `Resumed re-embedding job ${job.jobId}` : `Started re-embedding job ${job.jobId}`,
+            job,
+        }, { status: 202 });
+    } catch (error) {
+        if (error instanceof InvalidReembedJobError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.reason === 'not_found' ? 404 : 409 }
+            );
+        }
+        console.error('Re-embed start error:', error);
+        return NextResponse.json(
+            { error: 'Failed to start re-embedding job', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const jobId = searchParams.get('jobId');
+
+        if (jobId) {
+            const job = await getReembedJob(jobId);
+            if (!job) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+            }
+            return NextResponse.json({ success: true, job });
+        }
+
+        const { provider, model, dimensions, version } = getEmbeddingMetadata();
+
+        return NextResponse.json({
+            message: 'Re-embedding Job API',
+            activeEmbedding: { provider, model, dimensions, version },
+            jobs: await listReembedJobs(),
+            usage: 'POST {} to start, POST { jobId } to resume, GET ?jobId= for progress, DELETE ?jobId= to cancel',
+        });
+    } catch (error) {
+        console.error('Re-embed status error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch re-embedding jobs', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const jobId = searchParams.get('jobId');
+
+        if (!jobId) {
+            return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+        }
+
+        const job = await cancelReembedJob(jobId);
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: job.status === 'cancelled'
+                ? `Cancellation requested for ${jobId}; the current batch will finish first`
+                : `Job ${jobId} is ${job.status}`,
+            job,
+        });
+    } catch (error) {
+        console.error('Re-embed cancel error:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel re-embedding job', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Expert Change History API
+ * GET /api/experts/history?expertId=...&limit=50
+ *     - When each linked GitHub / Stack Overflow profile was last synced,
+ *       and what every re-sync changed (newest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpertHistory } from '@/lib/profile-sync';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const expertId = searchParams.get('expertId');
+
+        if (!expertId) {
+            return NextResponse.json({ error: 'expertId is required' }, { status: 400 });
+        }
+
+        const history = await getExpertHistory(expertId, parseInt(searchParams.get('limit') || '') || 50);
+        if (!history) {
+            return NextResponse.json({ error: 'Expert not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, ...history });
+    } catch (error) {
+        console.error('Expert history error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch expert history', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
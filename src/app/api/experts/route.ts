@@ -1,12 +1,15 @@
 /**
  * Experts API Endpoint
- * GET /api/experts - List all experts
+ * GET /api/experts - List all experts (with their latest unexpired verification)
  * POST /api/experts - Add a new expert
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb, COLLECTIONS, Expert } from '@/lib/mongodb';
-import { generateExpertEmbedding } from '@/lib/voyage';
+import { generateExpertEmbedding, getEmbeddingMetadata } from '@/lib/voyage';
+import { normalizeSkills } from '@/lib/taxonomy';
+import { getStoredVerifications } from '@/lib/verification';
+import { bumpDatasetGeneration } from '@/lib/search-cache';
 
 export async function GET(request: NextRequest) {
     try {
@@ -30,13 +33,18 @@ export async function GET(request: NextRequest) {
 
         const experts = await db.collection(COLLECTIONS.EXPERTS)
             .find(query)
-            .project({ skillVector: 0 })
+            .project<Expert>({ skillVector: 0 })
             .toArray();
 
+        const verifications = await getStoredVerifications(experts);
+
         return NextResponse.json({
             success: true,
             count: experts.length,
-            experts,
+            experts: experts.map(expert => ({
+                ...expert,
+                verification: verifications.get(String(expert._id)) || null,
+            })),
         });
     } catch (error) {
         console.error('Experts API error:', error);
@@ -60,13 +68,14 @@ export async function POST(request: NextRequest) {
         }
 
         const db = await getDb();
+        const canonicalSkills = await normalizeSkills(skills || []);
 
         // Generate embedding for the expert
         const skillVector = await generateExpertEmbedding({
             name,
             title,
             bio: bio || '',
-            skills: skills || [],
+            skills: canonicalSkills,
         });
 
         const expert: Expert = {
@@ -75,8 +84,9 @@ export async function POST(request: NextRequest) {
             title,
             department: department || 'General',
             bio: bio || '',
-            skills: skills || [],
+            skills: canonicalSkills,
             skillVector,
+            embedding: getEmbeddingMetadata(),
             linkedIn,
             github,
             availability: availability || {
@@ -91,6 +101,7 @@ export async function POST(request: NextRequest) {
 
         const { _id, ...expertData } = expert;
         const result = await db.collection(COLLECTIONS.EXPERTS).insertOne(expertData as any);
+        await bumpDatasetGeneration(`added expert ${name}`);
 
         return NextResponse.json({
             success: true,
@@ -0,0 +1,64 @@
+/**
+ * Similar Experts API ("more like this")
+ * GET /api/experts/similar?expertId=...&limit=5&skillWeight=0.3
+ *
+ * Ranks peers by $vectorSearch on the expert's skillVector (excluding the
+ * expert), blended with skill-set overlap. skillWeight=0 ranks by vector
+ * similarity alone. Optional excludeSynthetic=true / availableOnly=true filters;
+ * explain=false skips LLM explanations.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findSimilarExperts, ExpertNotEmbeddedError } from '@/lib/similar';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const expertId = searchParams.get('expertId');
+
+        if (!expertId) {
+            return NextResponse.json({ error: 'expertId is required' }, { status: 400 });
+        }
+
+        const limit = Math.min(20, Math.max(1, parseInt(searchParams.get('limit') || '') || 5));
+        const skillWeightParam = parseFloat(searchParams.get('skillWeight') || '');
+        const skillWeight = Number.isFinite(skillWeightParam) ? Math.min(1, Math.max(0, skillWeightParam)) : undefined;
+
+        const result = await runWithLLMContext({ route: '/api/experts/similar', budget: budgetFromRequest(request) }, () =>
+            findSimilarExperts(expertId, {
+                limit,
+                skillWeight,
+                explain: searchParams.get('explain') !== 'false',
+                filters: {
+                    ...(searchParams.get('excludeSynthetic') === 'true' ? { excludeSynthetic: true } : {}),
+                    ...(searchParams.get('availableOnly') === 'true' ? { availabilityStatus: ['available'] } : {}),
+                },
+            })
+        );
+
+        if (!result) {
+            return NextResponse.json({ error: 'Expert not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            source: result.source,
+            count: result.matches.length,
+            matches: result.matches,
+        });
+    } catch (error) {
+        if (error instanceof ExpertNotEmbeddedError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error('Similar experts error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
+        return NextResponse.json(
+            { error: 'Failed to find similar experts', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
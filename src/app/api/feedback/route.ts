@@ -0,0 +1,61 @@
+/**
+ * Relevance Feedback API
+ * POST /api/feedback - Mark a returned expert as relevant or not ({ queryId, expertId, relevant })
+ * GET /api/feedback?queryId=... - List feedback (omit queryId for the most recent)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, COLLECTIONS, Feedback } from '@/lib/mongodb';
+import { recordFeedback, InvalidFeedbackError } from '@/lib/ranker';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { queryId, expertId, relevant } = body;
+
+        if (!queryId || !expertId || typeof relevant !== 'boolean') {
+            return NextResponse.json(
+                { error: 'queryId, expertId and relevant (boolean) are required' },
+                { status: 400 }
+            );
+        }
+
+        const feedback = await recordFeedback({ queryId, expertId, relevant });
+
+        return NextResponse.json({ success: true, feedback });
+    } catch (error) {
+        if (error instanceof InvalidFeedbackError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.reason === 'unknown_query' ? 404 : 400 }
+            );
+        }
+        console.error('Feedback error:', error);
+        return NextResponse.json(
+            { error: 'Failed to record feedback', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const queryId = searchParams.get('queryId');
+
+        const db = await getDb();
+        const feedback = await db.collection<Feedback>(COLLECTIONS.FEEDBACK)
+            .find(queryId ? { queryId } : {}, { projection: { _id: 0 } })
+            .sort({ createdAt: -1 })
+            .limit(100)
+            .toArray();
+
+        return NextResponse.json({ success: true, count: feedback.length, feedback });
+    } catch (error) {
+        console.error('Feedback fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch feedback', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb, COLLECTIONS } from '@/lib/mongodb';
-import { chat } from '@/lib/fireworks';
-import { generateExpertEmbedding } from '@/lib/voyage';
+import { completeJSON, LLMValidationError } from '@/lib/llm-json';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
+import { extractedExpertsSchema, ExtractedExpert } from '@/lib/schemas';
+import { normalizeExpertSkills } from '@/lib/taxonomy';
+import { generateExpertEmbedding, getEmbeddingMetadata } from '@/lib/voyage';
+import { bumpDatasetGeneration } from '@/lib/search-cache';
 
 // Lazy load pdf-parse inside handler
 
@@ -37,8 +42,8 @@ export async function POST(request: NextRequest) {
         const systemPrompt = `You are a document analyzer. Extract expert profiles from the provided text.
 An expert is a person mentioned in the text with their skills, title, and bio.
 
-Respond ONLY with a JSON array of experts in this format:
-[
+Respond ONLY with a JSON object in this format:
+{ "experts": [
   {
     "name": "Full Name",
     "title": "Professional Title",
@@ -53,29 +58,24 @@ Respond ONLY with a JSON array of experts in this format:
       "status": "available"
     }
   }
-]
-If no clear experts are found, return an empty array [].
+] }
+If no clear experts are found, return { "experts": [] }.
 Match as much detail as possible from the text.`;
 
-        const response = await chat([
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: `Analyze this document and extract experts:\n\n${textToAnalyze}` }
-        ], { jsonMode: true });
-
-        let syntheticExperts = [];
+        let syntheticExperts: ExtractedExpert[];
         try {
-            syntheticExperts = JSON.parse(response);
-            if (!Array.isArray(syntheticExperts)) {
-                // Handle case where LLM might return an object with an 'experts' key
-                if (syntheticExperts.experts && Array.isArray(syntheticExperts.experts)) {
-                    syntheticExperts = syntheticExperts.experts;
-                } else {
-                    syntheticExperts = [];
-                }
-            }
-        } catch (e) {
-            console.error('Failed to parse AI response:', response);
-            return NextResponse.json({ error: 'AI failed to generate valid JSON' }, { status: 500 });
+            ({ experts: syntheticExperts } = await runWithLLMContext({ route: '/api/ingest/document', budget: budgetFromRequest(request) }, () => completeJSON([
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: `Analyze this document and extract experts:\n\n${textToAnalyze}` }
+            ], extractedExpertsSchema, { schema: 'extracted_experts', caller: 'documentIngest' })));
+        } catch (error) {
+            if (!(error instanceof LLMValidationError)) throw error;
+            console.error('AI response failed validation:', error.toJSON());
+            return NextResponse.json({
+                error: 'AI failed to generate valid expert profiles',
+                details: error.message,
+                validation: error.toJSON(),
+            }, { status: 500 });
         }
 
         if (syntheticExperts.length === 0) {
@@ -89,7 +89,7 @@ Match as much detail as possible from the text.`;
         const db = await getDb();
         const processedExperts = [];
 
-        for (const expertData of syntheticExperts) {
+        for (const expertData of await normalizeExpertSkills(syntheticExperts)) {
             // Generate embedding for searchability
             const skillVector = await generateExpertEmbedding(expertData);
 
@@ -97,6 +97,7 @@ Match as much detail as possible from the text.`;
                 ...expertData,
                 email: expertData.email || `${expertData.name.toLowerCase().replace(/\s+/g, '.')}@example.com`,
                 skillVector,
+                embedding: getEmbeddingMetadata(),
                 isSynthetic: true,
                 matchCount: 0,
                 createdAt: new Date(),
@@ -115,6 +116,10 @@ Match as much detail as possible from the text.`;
             });
         }
 
+        if (processedExperts.length > 0) {
+            await bumpDatasetGeneration(`extracted ${processedExperts.length} experts from a document`);
+        }
+
         return NextResponse.json({
             success: true,
             matches: processedExperts,
@@ -130,6 +135,9 @@ Match as much detail as possible from the text.`;
 
     } catch (error) {
         console.error('Document ingestion error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
         return NextResponse.json({
             error: 'Failed to process document',
             details: String(error)
@@ -0,0 +1,121 @@
+/**
+ * Ingestion Job API
+ * POST /api/ingest/jobs - Queue an import ({ kind: 'github' | 'stackoverflow' | 'bulk' | 'generate', ...options }),
+ *     a profile re-sync ({ kind: 'resync', maxAgeDays, limit } or { kind: 'resync', expertIds }) or retry a job ({ jobId })
+ * GET /api/ingest/jobs?jobId=... - Check job progress (omit jobId to list recent jobs, filtered by ?kind=&status=&limit=)
+ * DELETE /api/ingest/jobs?jobId=... - Cancel a queued or running job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    enqueueIngestJob,
+    retryIngestJob,
+    cancelIngestJob,
+    getIngestJob,
+    listIngestJobs,
+    ensureIngestWorker,
+    InvalidIngestJobError,
+} from '@/lib/ingest-jobs';
+import { INGEST_SOURCES, IngestKind } from '@/lib/ingest-sources';
+import { IngestJob } from '@/lib/mongodb';
+
+const KINDS = Object.keys(INGEST_SOURCES) as IngestKind[];
+const STATUSES: IngestJob['status'][] = ['queued', 'running', 'completed', 'cancelled', 'failed'];
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { jobId, kind, ...options } = body;
+
+        if (!jobId && !KINDS.includes(kind)) {
+            return NextResponse.json({ error: `kind must be one of ${KINDS.join(', ')}` }, { status: 400 });
+        }
+
+        const job = jobId
+            ? await retryIngestJob(jobId)
+            : await enqueueIngestJob(kind, options);
+
+        return NextResponse.json({
+            success: true,
+            message: jobId ? `Retrying ingestion job ${job.jobId}` : `Queued ${kind} ingestion job ${job.jobId}`,
+            job,
+        }, { status: 202 });
+    } catch (error) {
+        if (error instanceof InvalidIngestJobError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('Ingestion job start error:', error);
+        return NextResponse.json(
+            { error: 'Failed to queue ingestion job', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const jobId = searchParams.get('jobId');
+
+        // Polling restarts the worker if a restart left jobs behind
+        ensureIngestWorker();
+
+        if (jobId) {
+            const job = await getIngestJob(jobId);
+            if (!job) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+            }
+            return NextResponse.json({ success: true, job });
+        }
+
+        const kind = searchParams.get('kind') as IngestKind | null;
+        const status = searchParams.get('status') as IngestJob['status'] | null;
+
+        return NextResponse.json({
+            message: 'Ingestion Job API',
+            kinds: KINDS,
+            jobs: await listIngestJobs({
+                kind: kind && KINDS.includes(kind) ? kind : undefined,
+                status: status && STATUSES.includes(status) ? status : undefined,
+                limit: parseInt(searchParams.get('limit') || '20'),
+            }),
+            usage: 'POST { kind, ...options } to queue, POST { jobId } to retry, GET ?jobId= for progress, DELETE ?jobId= to cancel',
+        });
+    } catch (error) {
+        console.error('Ingestion job status error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch ingestion jobs', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const jobId = searchParams.get('jobId');
+
+        if (!jobId) {
+            return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+        }
+
+        const job = await cancelIngestJob(jobId);
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: job.status === 'cancelled'
+                ? `Cancelled ${jobId}; a running job stops after its current item`
+                : `Job ${jobId} is ${job.status}`,
+            job,
+        });
+    } catch (error) {
+        console.error('Ingestion job cancel error:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel ingestion job', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { chat } from '@/lib/fireworks';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
 
 /**
  * MeshBoard Assistant API
@@ -27,15 +29,16 @@ ${projects.map((p: any) => `- ${p.name}: ${p.description}`).join('\n')}
 
 Please provide a strategic recommendation on where to place the experts. Highlight why they fit the specific projects.`;
 
-        const advice = await chat(
+        const advice = await runWithLLMContext({ route: '/api/meshboard/assistant', budget: budgetFromRequest(request) }, () => chat(
             [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
             ],
             {
                 maxTokens: 500,
+                caller: 'meshboardAssistant',
             }
-        );
+        ));
 
         return NextResponse.json({
             success: true,
@@ -43,6 +46,9 @@ Please provide a strategic recommendation on where to place the experts. Highlig
         });
     } catch (error) {
         console.error('MeshBoard Assistant error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
         return NextResponse.json(
             { error: 'Failed to generate advice', details: String(error) },
             { status: 500 }
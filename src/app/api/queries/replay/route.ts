@@ -0,0 +1,40 @@
+/**
+ * Query Replay API
+ * POST /api/queries/replay { queryId } - Re-run a past query against the
+ *     current expert pool and diff the results (added, removed, moved)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { replayQuery } from '@/lib/history';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { queryId } = await request.json();
+
+        if (!queryId || typeof queryId !== 'string') {
+            return NextResponse.json({ error: 'queryId is required' }, { status: 400 });
+        }
+
+        console.log('\n🔁 Replaying query:', queryId);
+
+        const replay = await runWithLLMContext({ route: '/api/queries/replay', budget: budgetFromRequest(request) }, () =>
+            replayQuery(queryId)
+        );
+        if (!replay) {
+            return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, ...replay });
+    } catch (error) {
+        console.error('Query replay error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
+        return NextResponse.json(
+            { error: 'Failed to replay query', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
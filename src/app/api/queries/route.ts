@@ -0,0 +1,56 @@
+/**
+ * Query History API
+ * GET /api/queries?status=completed&from=2025-01-01&to=2025-02-01&q=rust&limit=20&skip=0
+ *     - Past queries, newest first
+ * GET /api/queries?queryId=... - One query's agent conversation, parsed
+ *     requirements, task record and returned experts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listQueries, getQueryDetail } from '@/lib/history';
+import { Query } from '@/lib/mongodb';
+
+const STATUSES: Query['status'][] = ['processing', 'completed', 'failed'];
+
+function parseDate(value: string | null): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const queryId = searchParams.get('queryId');
+
+        if (queryId) {
+            const detail = await getQueryDetail(queryId);
+            if (!detail) {
+                return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+            }
+            return NextResponse.json({ success: true, ...detail });
+        }
+
+        const status = searchParams.get('status');
+        if (status && !STATUSES.includes(status as Query['status'])) {
+            return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+        }
+
+        const { total, queries } = await listQueries({
+            status: (status as Query['status']) || undefined,
+            from: parseDate(searchParams.get('from')),
+            to: parseDate(searchParams.get('to')),
+            text: searchParams.get('q') || undefined,
+            limit: parseInt(searchParams.get('limit') || '') || undefined,
+            skip: parseInt(searchParams.get('skip') || '') || undefined,
+        });
+
+        return NextResponse.json({ success: true, total, count: queries.length, queries });
+    } catch (error) {
+        console.error('Query history error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch query history', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -4,9 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getDb, COLLECTIONS, Expert } from '@/lib/mongodb';
-import { generateQueryEmbedding } from '@/lib/voyage';
+import { hybridSearch, RetrievalSignals } from '@/lib/retrieval';
 import { chat } from '@/lib/fireworks';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
 
 interface RAGRequest {
     query: string;
@@ -24,8 +25,9 @@ interface RAGResponse {
         matchScore: number;
         bio: string;
         github?: string;
+        retrieval?: RetrievalSignals;
     }[];
-    retrievalMethod: 'vector' | 'text';
+    retrievalMethod: 'hybrid' | 'vector' | 'text';
     context?: string;
 }
 
@@ -45,88 +47,14 @@ export async function POST(request: NextRequest) {
 
         console.log(`\n🔍 RAG Query: "${query}"`);
 
-        const db = await getDb();
-        let experts: Expert[] = [];
-        let retrievalMethod: 'vector' | 'text' = 'text';
+        // Steps 1-3: Hybrid retrieval (vector + keyword, fused with RRF)
+        console.log('🔎 Performing hybrid search...');
+        const { experts, vectorCount, keywordCount, keywordMethod } = await hybridSearch(query, { limit: topK });
 
-        // Step 1: Generate query embedding
-        console.log('📊 Generating query embedding...');
-        let queryEmbedding: number[];
-        try {
-            queryEmbedding = await generateQueryEmbedding(query);
-        } catch (embeddingError) {
-            console.log('⚠️ Embedding failed, falling back to text search');
-            queryEmbedding = [];
-        }
-
-        // Step 2: Vector Search (if embedding available)
-        if (queryEmbedding.length > 0) {
-            try {
-                console.log('🔎 Performing vector search...');
-                const pipeline = [
-                    {
-                        $vectorSearch: {
-                            index: 'Nested',
-                            path: 'skillVector',
-                            queryVector: queryEmbedding,
-                            numCandidates: 100,
-                            limit: topK,
-                        },
-                    },
-                    {
-                        $addFields: {
-                            vectorScore: { $meta: 'vectorSearchScore' },
-                        },
-                    },
-                    {
-                        $project: {
-                            skillVector: 0, // Don't return embeddings
-                        },
-                    },
-                ];
-
-                const vectorResults = await db.collection(COLLECTIONS.EXPERTS)
-                    .aggregate(pipeline)
-                    .toArray();
-
-                if (vectorResults.length > 0) {
-                    experts = vectorResults as Expert[];
-                    retrievalMethod = 'vector';
-                    console.log(`   Found ${experts.length} via vector search`);
-                }
-            } catch (vectorError) {
-                console.log('   Vector search failed, using text fallback');
-            }
-        }
-
-        // Step 3: Fallback to text search
-        if (experts.length === 0) {
-            console.log('🔎 Performing text search...');
-
-            // Extract keywords from query
-            const keywords = query.toLowerCase()
-                .split(/\s+/)
-                .filter(w => w.length > 2)
-                .filter(w => !['find', 'get', 'the', 'and', 'for', 'with', 'who', 'can', 'expert', 'developer', 'engineer'].includes(w));
-
-            const searchQuery = keywords.length > 0
-                ? {
-                    $or: [
-                        { 'skills.name': { $regex: keywords.join('|'), $options: 'i' } },
-                        { title: { $regex: keywords.join('|'), $options: 'i' } },
-                        { bio: { $regex: keywords.join('|'), $options: 'i' } },
-                    ]
-                }
-                : {};
-
-            experts = await db.collection(COLLECTIONS.EXPERTS)
-                .find(searchQuery)
-                .project({ skillVector: 0 })
-                .limit(topK)
-                .toArray() as Expert[];
-
-            console.log(`   Found ${experts.length} via text search`);
-        }
+        const retrievalMethod: RAGResponse['retrievalMethod'] = vectorCount > 0
+            ? (keywordCount > 0 ? 'hybrid' : 'vector')
+            : 'text';
+        console.log(`   Found ${experts.length} (vector: ${vectorCount}, keyword: ${keywordCount} via ${keywordMethod})`);
 
         // Step 4: Build context for RAG
         const context = experts.map((e, i) => {
@@ -159,11 +87,12 @@ Keep your response concise (2-3 paragraphs max).`;
 
         let answer: string;
         try {
-            answer = await chat([
+            answer = await runWithLLMContext({ route: '/api/rag', budget: budgetFromRequest(request) }, () => chat([
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt },
-            ], { temperature: 0.7, maxTokens: 500 });
+            ], { temperature: 0.7, maxTokens: 500, caller: 'rag' }));
         } catch (llmError) {
+            if (llmError instanceof LLMBudgetExceededError) throw llmError;
             console.log('⚠️ LLM generation failed, using basic response');
             answer = `Found ${experts.length} matching experts for "${query}". Top match: ${experts[0]?.name || 'No matches found'}.`;
         }
@@ -178,9 +107,10 @@ Keep your response concise (2-3 paragraphs max).`;
                 name: e.name,
                 title: e.title,
                 skills: e.skills?.map(s => s.name) || [],
-                matchScore: (e as unknown as { vectorScore?: number }).vectorScore || 0.5,
+                matchScore: e.retrieval?.vectorScore || 0.5,
                 bio: e.bio || '',
                 github: e.github,
+                retrieval: e.retrieval,
             })),
             retrievalMethod,
             ...(includeContext && { context }),
@@ -194,6 +124,9 @@ Keep your response concise (2-3 paragraphs max).`;
 
     } catch (error) {
         console.error('RAG error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
         return NextResponse.json(
             { error: 'RAG search failed', details: String(error) },
             { status: 500 }
@@ -207,10 +140,10 @@ export async function GET() {
         description: 'Retrieval Augmented Generation for expert matching',
         usage: 'POST with { query: "your search query", topK: 5, includeContext: false }',
         features: [
-            'Vector Search with Voyage AI embeddings',
-            'MongoDB Atlas Vector Search index',
+            'Hybrid retrieval: Atlas Vector Search + Atlas Search fused with reciprocal rank fusion',
+            'Per-expert retrieval signals (vector/keyword ranks and scores)',
             'Fireworks LLM for response generation',
-            'Fallback to text search if vector unavailable',
+            'Regex keyword fallback if Atlas Search index unavailable',
         ],
     });
 }
@@ -0,0 +1,73 @@
+/**
+ * Ranker Model API
+ * GET /api/ranker - Active model weights and feedback counts
+ * POST /api/ranker - Fit new weights from recorded feedback ({ minExamples, epochs, learningRate, l2 })
+ * DELETE /api/ranker - Revert to the default weights
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, COLLECTIONS } from '@/lib/mongodb';
+import { fitRankerModel, getActiveRankerModel, resetRankerModel, RANKING_FEATURES, InsufficientFeedbackError } from '@/lib/ranker';
+
+export async function GET() {
+    try {
+        const db = await getDb();
+        const feedback = db.collection(COLLECTIONS.FEEDBACK);
+
+        const [model, examples, positives] = await Promise.all([
+            getActiveRankerModel(),
+            feedback.countDocuments(),
+            feedback.countDocuments({ relevant: true }),
+        ]);
+
+        return NextResponse.json({
+            message: 'Ranker Model API',
+            features: RANKING_FEATURES,
+            model,
+            feedback: { examples, positives },
+            usage: 'POST to fit weights from feedback, DELETE to revert to defaults',
+        });
+    } catch (error) {
+        console.error('Ranker status error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch ranker model', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { minExamples, epochs, learningRate, l2 } = body;
+        const model = await fitRankerModel({ minExamples, epochs, learningRate, l2 });
+
+        return NextResponse.json({
+            success: true,
+            message: `Fitted ${model.modelId} on ${model.training?.examples} examples`,
+            model,
+        });
+    } catch (error) {
+        if (error instanceof InsufficientFeedbackError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error('Ranker fit error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fit ranker model', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE() {
+    try {
+        await resetRankerModel();
+        return NextResponse.json({ success: true, message: 'Reverted to default ranker weights' });
+    } catch (error) {
+        console.error('Ranker reset error:', error);
+        return NextResponse.json(
+            { error: 'Failed to reset ranker model', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
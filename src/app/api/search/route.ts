@@ -1,15 +1,18 @@
 /**
  * Search API Endpoint
  * POST /api/search - Submit a query to the multi-agent system
+ *                    (pass the returned sessionId to refine the previous results)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { OrchestratorAgent } from '@/lib/agents';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { query } = body;
+        const { query, sessionId } = body;
 
         if (!query || typeof query !== 'string') {
             return NextResponse.json(
@@ -22,7 +25,11 @@ export async function POST(request: NextRequest) {
 
         // Create orchestrator and process the query
         const orchestrator = new OrchestratorAgent();
-        const result = await orchestrator.processQuery(query);
+        const result = await runWithLLMContext({ route: '/api/search', budget: budgetFromRequest(request) }, () =>
+            orchestrator.processQuery(query, {
+                sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+            })
+        );
 
         return NextResponse.json({
             success: true,
@@ -31,6 +38,9 @@ export async function POST(request: NextRequest) {
 
     } catch (error) {
         console.error('Search API error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
         return NextResponse.json(
             { error: 'Search failed', details: String(error) },
             { status: 500 }
@@ -41,6 +51,6 @@ export async function POST(request: NextRequest) {
 export async function GET() {
     return NextResponse.json({
         message: 'ExpertMesh Search API',
-        usage: 'POST with { query: "your search query" }',
+        usage: 'POST with { query: "your search query" }, then { query: "only ones available now", sessionId } to refine',
     });
 }
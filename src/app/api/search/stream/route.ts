@@ -0,0 +1,55 @@
+/**
+ * Streaming Search API Endpoint
+ * POST /api/search/stream - Run the multi-agent pipeline and stream progress as Server-Sent Events
+ *
+ * Events: start, log, requirements, candidates, match, complete, error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OrchestratorAgent } from '@/lib/agents';
+import { createEventStream } from '@/lib/sse';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody } from '@/lib/llm-usage';
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => ({}));
+    const { query, sessionId } = body;
+
+    if (!query || typeof query !== 'string') {
+        return NextResponse.json(
+            { error: 'Query is required' },
+            { status: 400 }
+        );
+    }
+
+    console.log('\n📡 New streaming search request:', query);
+    const budget = budgetFromRequest(request);
+
+    return createEventStream(async (send) => {
+        const orchestrator = new OrchestratorAgent(event => {
+            const { type, ...payload } = event;
+            send(type, payload);
+        });
+
+        try {
+            await runWithLLMContext({ route: '/api/search/stream', budget }, () =>
+                orchestrator.processQuery(query, {
+                    sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+                })
+            );
+        } catch (error) {
+            console.error('Streaming search error:', error);
+            send('error', error instanceof LLMBudgetExceededError
+                ? budgetExceededBody(error)
+                : { error: 'Search failed', details: String(error) });
+        }
+    });
+}
+
+export async function GET() {
+    return NextResponse.json({
+        message: 'ExpertMesh Streaming Search API',
+        usage: 'POST with { query: "your search query", sessionId?: "..." } and read the text/event-stream response',
+        events: ['start', 'log', 'requirements', 'candidates', 'match', 'complete', 'error'],
+    });
+}
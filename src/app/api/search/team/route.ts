@@ -0,0 +1,51 @@
+/**
+ * Team Search API Endpoint
+ * POST /api/search/team - Assemble a complementary team for a request such as
+ *                         "backend + ML + security for a HIPAA project"
+ *
+ * Returns the role plan, one expert per staffed role, and explicit coverage
+ * gaps. minOverlapHours overrides TEAM_MIN_OVERLAP_HOURS for this request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OrchestratorAgent } from '@/lib/agents';
+import { runWithLLMContext, LLMBudgetExceededError } from '@/lib/llm';
+import { budgetFromRequest, budgetExceededBody, BUDGET_EXCEEDED_STATUS } from '@/lib/llm-usage';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { query, minOverlapHours } = body;
+
+        if (!query || typeof query !== 'string') {
+            return NextResponse.json(
+                { error: 'Query is required' },
+                { status: 400 }
+            );
+        }
+
+        console.log('\n👥 New team request:', query);
+
+        const orchestrator = new OrchestratorAgent();
+        const result = await runWithLLMContext({ route: '/api/search/team', budget: budgetFromRequest(request) }, () =>
+            orchestrator.processTeamQuery(query, {
+                minOverlapHours: typeof minOverlapHours === 'number' && minOverlapHours >= 0 ? minOverlapHours : undefined,
+            })
+        );
+
+        return NextResponse.json({
+            success: true,
+            ...result,
+        });
+
+    } catch (error) {
+        console.error('Team search API error:', error);
+        if (error instanceof LLMBudgetExceededError) {
+            return NextResponse.json(budgetExceededBody(error), { status: BUDGET_EXCEEDED_STATUS });
+        }
+        return NextResponse.json(
+            { error: 'Team search failed', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
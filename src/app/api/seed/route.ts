@@ -5,7 +5,9 @@
 
 import { NextResponse } from 'next/server';
 import { getDb, COLLECTIONS, Expert } from '@/lib/mongodb';
-import { generateExpertEmbedding } from '@/lib/voyage';
+import { generateExpertEmbeddings, getEmbeddingMetadata } from '@/lib/voyage';
+import { normalizeExpertSkills } from '@/lib/taxonomy';
+import { bumpDatasetGeneration } from '@/lib/search-cache';
 
 const SAMPLE_EXPERTS: Omit<Expert, '_id' | 'skillVector' | 'matchCount' | 'createdAt' | 'updatedAt'>[] = [
     {
@@ -155,33 +157,27 @@ export async function POST() {
     try {
         const db = await getDb();
 
-        // Clear existing data
-        await db.collection(COLLECTIONS.EXPERTS).deleteMany({});
-        console.log('🗑️ Cleared existing experts');
-
-        // Insert sample experts with embeddings
-        const expertsWithEmbeddings: any[] = [];
+        // Insert sample experts with canonical skills and embeddings (one batched embedding pass)
+        const experts = await normalizeExpertSkills(SAMPLE_EXPERTS);
+        console.log(`📝 Generating embeddings for ${experts.length} experts...`);
+        const skillVectors = await generateExpertEmbeddings(experts);
+        const embedding = getEmbeddingMetadata();
 
-        for (const expert of SAMPLE_EXPERTS) {
-            console.log(`📝 Generating embedding for ${expert.name}...`);
+        const expertsWithEmbeddings = experts.map((expert, i) => ({
+            ...expert,
+            skillVector: skillVectors[i],
+            embedding,
+            matchCount: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }));
 
-            const skillVector = await generateExpertEmbedding({
-                name: expert.name,
-                title: expert.title,
-                bio: expert.bio,
-                skills: expert.skills,
-            });
-
-            expertsWithEmbeddings.push({
-                ...expert,
-                skillVector,
-                matchCount: 0,
-                createdAt: new Date(),
-                updatedAt: new Date(),
-            });
-        }
+        // Clear existing data (only once embeddings succeeded)
+        await db.collection(COLLECTIONS.EXPERTS).deleteMany({});
+        console.log('🗑️ Cleared existing experts');
 
         await db.collection(COLLECTIONS.EXPERTS).insertMany(expertsWithEmbeddings);
+        await bumpDatasetGeneration('seeded sample experts');
         console.log(`✅ Inserted ${expertsWithEmbeddings.length} experts`);
 
         return NextResponse.json({
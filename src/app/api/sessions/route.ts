@@ -0,0 +1,31 @@
+/**
+ * Search Sessions API
+ * GET /api/sessions?sessionId=... - Turns of a conversational search session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/sessions';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const sessionId = searchParams.get('sessionId');
+
+        if (!sessionId) {
+            return NextResponse.json({ error: 'sessionId is required' }, { status: 400 });
+        }
+
+        const session = await getSession(sessionId);
+        if (!session) {
+            return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, session });
+    } catch (error) {
+        console.error('Session fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch session', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
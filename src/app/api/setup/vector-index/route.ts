@@ -5,6 +5,8 @@
 
 import { NextResponse } from 'next/server';
 import { getDb, COLLECTIONS } from '@/lib/mongodb';
+import { getEmbeddingProvider } from '@/lib/embeddings';
+import { TEXT_INDEX, VECTOR_FILTER_FIELDS } from '@/lib/retrieval';
 
 export async function POST() {
     try {
@@ -32,11 +34,29 @@ export async function POST() {
             skillVector: { $exists: true, $type: 'array' }
         });
 
+        // Break down stored vectors by the provider/model that produced them
+        const provider = getEmbeddingProvider();
+        const vectorsByModel = await db.collection(COLLECTIONS.EXPERTS).aggregate([
+            { $match: { skillVector: { $exists: true, $type: 'array' } } },
+            {
+                $group: {
+                    _id: { provider: '$embedding.provider', model: '$embedding.model', dimensions: '$embedding.dimensions' },
+                    count: { $sum: 1 },
+                },
+            },
+        ]).toArray();
+
         return NextResponse.json({
             success: true,
             message: 'Collection ready for vector search',
             documentCount: count,
             documentsWithVectors: withVectors,
+            activeEmbedding: {
+                provider: provider.name,
+                model: provider.model,
+                dimensions: provider.dimensions,
+            },
+            vectorsByModel: vectorsByModel.map(v => ({ ...v._id, count: v.count })),
             instructions: {
                 step1: 'Go to MongoDB Atlas: https://cloud.mongodb.com/',
                 step2: 'Navigate to: Database > Atlas Search > Create Index',
@@ -45,14 +65,36 @@ export async function POST() {
                     name: 'expert_vector_index',
                     type: 'vectorSearch',
                     definition: {
-                        fields: [{
-                            type: 'vector',
-                            path: 'skillVector',
-                            numDimensions: 1024,
-                            similarity: 'cosine'
-                        }]
+                        fields: [
+                            {
+                                type: 'vector',
+                                path: 'skillVector',
+                                numDimensions: provider.dimensions,
+                                similarity: 'cosine'
+                            },
+                            // Lets $vectorSearch apply the active model and search constraints before ranking
+                            ...VECTOR_FILTER_FIELDS.map(path => ({ type: 'filter', path })),
+                        ]
                     }
-                }
+                },
+                // Full-text index for the keyword half of hybrid retrieval
+                searchIndexDefinition: {
+                    name: TEXT_INDEX,
+                    type: 'search',
+                    definition: {
+                        mappings: {
+                            dynamic: false,
+                            fields: {
+                                title: { type: 'string' },
+                                bio: { type: 'string' },
+                                skills: {
+                                    type: 'document',
+                                    fields: { name: { type: 'string' } },
+                                },
+                            },
+                        },
+                    },
+                },
             }
         });
 
@@ -0,0 +1,60 @@
+/**
+ * Agent Task Waterfall API
+ * GET /api/tasks?taskId=... or ?queryId=... - Steps of a task on a timeline:
+ *     offset, duration, input size, output summary, token usage and errors,
+ *     plus per-agent totals. Add format=text for a plain-text waterfall.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaskWaterfall, TaskWaterfall } from '@/lib/tasks';
+
+const BAR_WIDTH = 40;
+
+function renderWaterfall(waterfall: TaskWaterfall): string {
+    const total = Math.max(1, waterfall.durationMs);
+    const label = (step: TaskWaterfall['steps'][number]) => `${step.agent}:${step.action}`;
+    const width = Math.max(...waterfall.steps.map(s => label(s).length), 10);
+
+    const lines = waterfall.steps.map(step => {
+        const start = Math.floor((step.offsetMs / total) * BAR_WIDTH);
+        const length = Math.max(1, Math.round((step.durationMs / total) * BAR_WIDTH));
+        const bar = ' '.repeat(start) + (step.status === 'failed' ? 'x' : '█').repeat(length);
+        return `${label(step).padEnd(width)} |${bar.padEnd(BAR_WIDTH)}| ${step.durationMs}ms ${step.usage.totalTokens} tok  ${step.summary}`;
+    });
+
+    return [
+        `${waterfall.taskId} (${waterfall.queryId}) ${waterfall.status} in ${waterfall.durationMs}ms, ${waterfall.usage.totalTokens} tokens over ${waterfall.usage.calls} LLM calls`,
+        ...lines,
+    ].join('\n');
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const taskId = searchParams.get('taskId') || undefined;
+        const queryId = searchParams.get('queryId') || undefined;
+
+        if (!taskId && !queryId) {
+            return NextResponse.json({ error: 'taskId or queryId is required' }, { status: 400 });
+        }
+
+        const waterfall = await getTaskWaterfall({ taskId, queryId });
+        if (!waterfall) {
+            return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+        }
+
+        if (searchParams.get('format') === 'text') {
+            return new NextResponse(renderWaterfall(waterfall), {
+                headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+            });
+        }
+
+        return NextResponse.json({ success: true, ...waterfall });
+    } catch (error) {
+        console.error('Task waterfall error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch task', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Skill Taxonomy API
+ * GET /api/taxonomy - List entries (?q= matches names and aliases, ?category= filters)
+ * POST /api/taxonomy - Create or update an entry ({ canonical, aliases, parents, category })
+ *                      or re-canonicalize stored experts ({ action: "apply" })
+ * DELETE /api/taxonomy?canonical=... - Remove an entry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    loadTaxonomy,
+    upsertTaxonomyEntry,
+    deleteTaxonomyEntry,
+    applyTaxonomyToExperts,
+    getSkillAncestors,
+    skillKey,
+    InvalidTaxonomyEntryError,
+} from '@/lib/taxonomy';
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const q = searchParams.get('q');
+        const category = searchParams.get('category');
+
+        const { entries } = await loadTaxonomy();
+        const filtered = entries.filter(entry =>
+            (!category || entry.category.toLowerCase() === category.toLowerCase()) &&
+            (!q || [entry.canonical, ...entry.aliases].some(name => skillKey(name).includes(skillKey(q))))
+        );
+
+        const withAncestors = await Promise.all(filtered.map(async entry => ({
+            ...entry,
+            ancestors: await getSkillAncestors(entry.canonical),
+        })));
+
+        return NextResponse.json({
+            success: true,
+            count: withAncestors.length,
+            categories: [...new Set(entries.map(e => e.category))].sort(),
+            entries: withAncestors.sort((a, b) => a.canonical.localeCompare(b.canonical)),
+        });
+    } catch (error) {
+        console.error('Taxonomy fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch skill taxonomy', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { action, canonical, aliases, parents, category } = body;
+
+        if (action === 'apply') {
+            const result = await applyTaxonomyToExperts();
+            return NextResponse.json({
+                success: true,
+                message: `Re-canonicalized skills on ${result.updated} of ${result.scanned} experts`
+                    + (result.pendingReembed > 0 ? `; ${result.pendingReembed} left for the re-embedding job` : ''),
+                ...result,
+            });
+        }
+
+        if (!canonical || typeof canonical !== 'string') {
+            return NextResponse.json({ error: 'canonical is required' }, { status: 400 });
+        }
+
+        const entry = await upsertTaxonomyEntry({ canonical, aliases, parents, category });
+
+        return NextResponse.json({
+            success: true,
+            message: `Saved ${entry.canonical}. POST { action: "apply" } to update existing experts.`,
+            entry,
+        });
+    } catch (error) {
+        if (error instanceof InvalidTaxonomyEntryError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.reason === 'conflict' ? 409 : 400 }
+            );
+        }
+        console.error('Taxonomy update error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update skill taxonomy', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const canonical = searchParams.get('canonical');
+
+        if (!canonical) {
+            return NextResponse.json({ error: 'canonical is required' }, { status: 400 });
+        }
+
+        const deleted = await deleteTaxonomyEntry(canonical);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, message: `Deleted ${canonical}` });
+    } catch (error) {
+        console.error('Taxonomy delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete taxonomy entry', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
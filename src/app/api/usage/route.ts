@@ -0,0 +1,44 @@
+/**
+ * LLM Usage API
+ * GET /api/usage?groupBy=day&from=2025-01-01&to=2025-02-01&route=/api/rag&model=...
+ *     - Calls, tokens, cost and latency of recorded LLM calls, grouped by
+ *       day (default), route, model or caller
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMUsageReport, UsageGroupBy } from '@/lib/llm-usage';
+
+const GROUPINGS: UsageGroupBy[] = ['day', 'route', 'model', 'caller'];
+
+function parseDate(value: string | null): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const groupBy = searchParams.get('groupBy') || 'day';
+
+        if (!GROUPINGS.includes(groupBy as UsageGroupBy)) {
+            return NextResponse.json({ error: `groupBy must be one of ${GROUPINGS.join(', ')}` }, { status: 400 });
+        }
+
+        const report = await getLLMUsageReport({
+            groupBy: groupBy as UsageGroupBy,
+            from: parseDate(searchParams.get('from')),
+            to: parseDate(searchParams.get('to')),
+            route: searchParams.get('route') || undefined,
+            model: searchParams.get('model') || undefined,
+        });
+
+        return NextResponse.json({ success: true, ...report });
+    } catch (error) {
+        console.error('LLM usage report error:', error);
+        return NextResponse.json(
+            { error: 'Failed to build usage report', details: String(error) },
+            { status: 500 }
+        );
+    }
+}
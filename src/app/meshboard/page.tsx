@@ -42,6 +42,8 @@ export default function MeshBoard() {
     const [aiInsight, setAiInsight] = useState('');
     const [loadingInsight, setLoadingInsight] = useState(false);
     const [zoomScale, setZoomScale] = useState(1);
+    const [similar, setSimilar] = useState<{ source: Expert; experts: Expert[] } | null>(null);
+    const [loadingSimilarId, setLoadingSimilarId] = useState<string | null>(null);
 
     const [loading, setLoading] = useState(true);
     const [assistantOpen, setAssistantOpen] = useState(false);
@@ -100,6 +102,32 @@ export default function MeshBoard() {
         }
     }, [placedExperts, projects, isClient]);
 
+    const handleFindSimilar = async (expert: Expert) => {
+        setLoadingSimilarId(expert._id);
+        try {
+            const response = await fetch(`/api/experts/similar?expertId=${encodeURIComponent(expert._id)}&explain=false`);
+            const data = await response.json();
+            if (data.success) {
+                setSimilar({ source: expert, experts: data.matches.map((m: { expert: Expert }) => m.expert) });
+            } else {
+                setAssistantMsg(`I couldn't find experts similar to ${expert.name}: ${data.error}`);
+                setAssistantOpen(true);
+            }
+        } catch (error) {
+            console.error('Failed to find similar experts:', error);
+        } finally {
+            setLoadingSimilarId(null);
+        }
+    };
+
+    const handleAddToPool = (expert: Expert) => {
+        if (experts.some(e => e._id === expert._id)) return;
+        setExperts(prev => [...prev, expert]);
+
+        const savedIds: string[] = JSON.parse(localStorage.getItem('selectedExperts') || '[]');
+        localStorage.setItem('selectedExperts', JSON.stringify([...savedIds, expert._id]));
+    };
+
     const handleDragEnd = (event: any, info: any, expert: Expert) => {
         const canvasRect = canvasRef.current?.getBoundingClientRect();
         if (!canvasRect) return;
@@ -301,6 +329,14 @@ export default function MeshBoard() {
                                             </span>
                                         ))}
                                     </div>
+                                    <button
+                                        onPointerDown={(e) => e.stopPropagation()}
+                                        onClick={() => handleFindSimilar(expert)}
+                                        disabled={loadingSimilarId === expert._id}
+                                        className="mt-3 text-[10px] font-bold text-green-600 hover:text-green-700 disabled:opacity-50"
+                                    >
+                                        {loadingSimilarId === expert._id ? 'Searching...' : 'Find similar'}
+                                    </button>
                                     {/* Drag Handle Overlay */}
                                     <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                         <svg className="w-4 h-4 text-gray-300" fill="currentColor" viewBox="0 0 24 24">
@@ -312,6 +348,37 @@ export default function MeshBoard() {
                                 </motion.div>
                             ))}
                         </AnimatePresence>
+                        {similar && (
+                            <div className="rounded-2xl border-2 border-dashed border-green-200 p-4 bg-green-50/40">
+                                <div className="flex items-center justify-between mb-3">
+                                    <h4 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Similar to {similar.source.name}</h4>
+                                    <button onClick={() => setSimilar(null)} className="text-gray-400 hover:text-gray-600 text-xs">✕</button>
+                                </div>
+                                {similar.experts.length === 0 && (
+                                    <p className="text-[10px] text-gray-400">No similar experts found.</p>
+                                )}
+                                <div className="space-y-2">
+                                    {similar.experts.map((expert) => {
+                                        const inPool = experts.some(e => e._id === expert._id);
+                                        return (
+                                            <div key={expert._id} className="flex items-center justify-between gap-2 bg-white rounded-xl p-2 border border-gray-100">
+                                                <div className="min-w-0">
+                                                    <p className="font-bold text-xs text-gray-900 truncate">{expert.name}</p>
+                                                    <p className="text-[10px] text-green-600 truncate">{expert.title}</p>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleAddToPool(expert)}
+                                                    disabled={inPool}
+                                                    className="shrink-0 px-2 py-1 text-[10px] font-bold rounded-lg bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-200 disabled:text-gray-500"
+                                                >
+                                                    {inPool ? 'In pool' : '+ Add'}
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
                         {unplacedExperts.length === 0 && experts.length > 0 && (
                             <div className="text-center py-20 px-8">
                                 <div className="text-4xl mb-4 opacity-20">✅</div>
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRouter } from 'next/navigation';
+import { readEventStream } from '@/lib/sse';
 
 interface Expert {
   _id: string;
@@ -26,6 +27,17 @@ interface ExpertMatch {
   matchScore: number;
   reasoning: string[];
   matchedBy: string;
+  scoreBreakdown?: {
+    modelId: string;
+    features: Record<string, number>;
+    contributions: Record<string, number>;
+  };
+  verification?: {
+    status: 'verified' | 'partial' | 'unverified' | 'synthetic';
+    confidence: number;
+    discrepancies: string[];
+    checkedAt: string;
+  };
 }
 
 interface AgentMessage {
@@ -36,10 +48,58 @@ interface AgentMessage {
 
 interface SearchResult {
   queryId: string;
+  sessionId?: string;
   matches: ExpertMatch[];
   conversation: AgentMessage[];
 }
 
+// Team summary from /api/search/team
+interface TeamSummary {
+  roles: string[];
+  coverage: number;
+  timezoneOverlapHours: number | null;
+  totalHoursPerWeek: number;
+  redundantSkills: string[];
+  gaps: { role: string; skill?: string; severity: 'unfilled' | 'missing' | 'partial'; reason: string }[];
+}
+
+// Team-mode response from /api/search/team (and team replays)
+interface TeamResponse {
+  queryId: string;
+  plan: { roles: { title: string }[] };
+  team: Omit<TeamSummary, 'roles'> & { members: { role: string; expert: Expert; score: number; reasoning: string[] }[] };
+  conversation: AgentMessage[];
+}
+
+// Past query from /api/queries
+interface QuerySummary {
+  queryId: string;
+  rawQuery: string;
+  status: 'processing' | 'completed' | 'failed';
+  mode?: 'team';
+  resultCount: number;
+  createdAt: string;
+}
+
+// What changed when a past query was re-run
+interface ReplayDiff {
+  rawQuery: string;
+  added: { expertId: string; name?: string; rank?: number }[];
+  removed: { expertId: string; name?: string; previousRank?: number; inPool: boolean }[];
+  moved: { expertId: string; name?: string; rank?: number; previousRank?: number }[];
+}
+
+// Payload of an event from /api/search/stream
+interface SearchStreamPayload {
+  queryId?: string;
+  sessionId?: string;
+  message?: AgentMessage;
+  match?: ExpertMatch;
+  result?: SearchResult;
+  error?: string;
+  details?: string;
+}
+
 const ExecutionPipeline = ({ loading, conversation, mode }: { loading: boolean; conversation: AgentMessage[]; mode: 'search' | 'document' }) => {
   const searchSteps = [
     { name: 'Fireworks AI', icon: '🎆', label: 'Intent Analysis', active: true },
@@ -65,6 +125,7 @@ const ExecutionPipeline = ({ loading, conversation, mode }: { loading: boolean;
     scout: '🔎',
     verifier: '✅',
     recommender: '⭐',
+    team_builder: '👥',
   };
 
   return (
@@ -198,6 +259,20 @@ export default function Home() {
   const [importing, setImporting] = useState(false);
   const [importStatus, setImportStatus] = useState<string | null>(null);
   const [selectedExperts, setSelectedExperts] = useState<string[]>([]);
+  const [feedback, setFeedback] = useState<Record<string, boolean>>({});
+  // Conversational refinement: follow-ups reuse the session of the last search
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [thread, setThread] = useState<string[]>([]);
+  const [refineQuery, setRefineQuery] = useState('');
+  // Team mode: assemble one expert per role instead of ranking individuals
+  const [teamMode, setTeamMode] = useState(false);
+  const [team, setTeam] = useState<TeamSummary | null>(null);
+  // Query history panel
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<QuerySummary[]>([]);
+  const [historyStatus, setHistoryStatus] = useState('');
+  const [historyText, setHistoryText] = useState('');
+  const [replayDiff, setReplayDiff] = useState<ReplayDiff | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [ingesting, setIngesting] = useState(false);
   const router = useRouter();
@@ -227,31 +302,79 @@ export default function Home() {
     );
   };
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) return;
+  const sendFeedback = async (expertId: string, relevant: boolean) => {
+    if (!result?.queryId || !expertId) return;
+    setFeedback(prev => ({ ...prev, [expertId]: relevant }));
+    try {
+      await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ queryId: result.queryId, expertId, relevant }),
+      });
+    } catch (error) {
+      console.error('Failed to record feedback:', error);
+    }
+  };
+
+  const runSearch = async (query: string, refine: boolean) => {
+    if (!query.trim()) return;
 
     setLoading(true);
     setResult(null);
     setLiveConversation([]);
+    setFeedback({});
+    setThread(prev => (refine ? [...prev, query] : [query]));
+    setTeam(null);
+    setReplayDiff(null);
+    if (!refine) setSessionId(null);
 
     try {
-      console.log('🚀 Initiating search for:', searchQuery);
-      const response = await fetch('/api/search', {
+      console.log(refine ? '🔁 Refining search with:' : '🚀 Initiating search for:', query);
+      const response = await fetch('/api/search/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: searchQuery }),
+        body: JSON.stringify({ query, ...(refine && sessionId ? { sessionId } : {}) }),
       });
 
-      const data = await response.json();
-      console.log('📦 Search result data:', data);
-
-      if (data.success) {
-        setResult(data);
-        setLiveConversation(data.conversation || []);
-      } else {
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
         console.error('❌ Search failed:', data.error);
         alert(`Search failed: ${data.error || 'Unknown error'}`);
+        return;
       }
+
+      // Render agent steps and matches as the pipeline produces them
+      await readEventStream(response.body, ({ event, data }) => {
+        const payload = data as SearchStreamPayload;
+        const { message, match, result: finalResult } = payload;
+
+        switch (event) {
+          case 'start':
+            setResult({ queryId: payload.queryId || '', sessionId: payload.sessionId, matches: [], conversation: [] });
+            if (payload.sessionId) setSessionId(payload.sessionId);
+            break;
+          case 'log':
+            if (!message) break;
+            setLiveConversation(prev => [...prev, message]);
+            setResult(prev => prev && { ...prev, conversation: [...prev.conversation, message] });
+            break;
+          case 'match':
+            if (!match) break;
+            // Explanation batches can finish out of order; keep the list ranked
+            setResult(prev => prev && { ...prev, matches: [...prev.matches, match].sort((a, b) => b.matchScore - a.matchScore) });
+            break;
+          case 'complete':
+            if (!finalResult) break;
+            console.log('📦 Search result data:', finalResult);
+            setResult(finalResult);
+            setLiveConversation(finalResult.conversation || []);
+            break;
+          case 'error':
+            console.error('❌ Search failed:', payload.details || payload.error);
+            alert(`Search failed: ${payload.error || 'Unknown error'}`);
+            break;
+        }
+      });
     } catch (error) {
       console.error('🔥 Search runtime error:', error);
       alert('Search failed. Please check your connection to MongoDB.');
@@ -260,6 +383,194 @@ export default function Home() {
     }
   };
 
+  const showTeam = (data: TeamResponse) => {
+    setTeam({
+      roles: data.plan.roles.map(r => r.title),
+      coverage: data.team.coverage,
+      timezoneOverlapHours: data.team.timezoneOverlapHours,
+      totalHoursPerWeek: data.team.totalHoursPerWeek,
+      redundantSkills: data.team.redundantSkills,
+      gaps: data.team.gaps,
+    });
+    setResult({
+      queryId: data.queryId,
+      matches: data.team.members.map(m => ({
+        expert: m.expert,
+        matchScore: m.score,
+        reasoning: [`👥 ${m.role}`, ...m.reasoning],
+        matchedBy: 'team_builder',
+      })),
+      conversation: data.conversation,
+    });
+  };
+
+  const runTeamSearch = async (query: string) => {
+    if (!query.trim()) return;
+
+    setLoading(true);
+    setResult(null);
+    setTeam(null);
+    setReplayDiff(null);
+    setLiveConversation([]);
+    setFeedback({});
+    setSessionId(null);
+    setThread([query]);
+
+    try {
+      const response = await fetch('/api/search/team', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        alert(`Team search failed: ${data.error || 'Unknown error'}`);
+        return;
+      }
+
+      showTeam(data);
+    } catch (error) {
+      console.error('Team search error:', error);
+      alert('Team search failed. Please check your connection to MongoDB.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadHistory = async () => {
+    const params = new URLSearchParams({ limit: '20' });
+    if (historyStatus) params.set('status', historyStatus);
+    if (historyText.trim()) params.set('q', historyText.trim());
+
+    try {
+      const response = await fetch(`/api/queries?${params}`);
+      const data = await response.json();
+      if (data.success) setHistory(data.queries);
+    } catch (error) {
+      console.error('Failed to load query history:', error);
+    }
+  };
+
+  const toggleHistory = () => {
+    if (!historyOpen) loadHistory();
+    setHistoryOpen(!historyOpen);
+  };
+
+  // Show a past run as it was returned (experts deleted since are skipped)
+  const viewQuery = async (queryId: string) => {
+    try {
+      const response = await fetch(`/api/queries?queryId=${encodeURIComponent(queryId)}`);
+      const data = await response.json();
+      if (!data.success) {
+        alert(`Could not load query: ${data.error || 'Unknown error'}`);
+        return;
+      }
+
+      const ranAt = new Date(data.query.createdAt).toLocaleString();
+      setTeam(null);
+      setReplayDiff(null);
+      setSessionId(null);
+      setFeedback({});
+      setThread([data.query.rawQuery]);
+      setResult({
+        queryId: data.query.queryId,
+        matches: (data.results as { rank: number; matchScore?: number; expert: Expert | null }[])
+          .filter(r => r.expert)
+          .map(r => ({
+            expert: r.expert as Expert,
+            matchScore: r.matchScore ?? 0,
+            reasoning: [`🕘 Ranked #${r.rank} on ${ranAt}`],
+            matchedBy: 'history',
+          })),
+        conversation: data.query.agentConversation || [],
+      });
+    } catch (error) {
+      console.error('Failed to load query:', error);
+    }
+  };
+
+  // Re-run a past query against the current pool and show what changed
+  const rerunQuery = async (past: QuerySummary) => {
+    setLoading(true);
+    setResult(null);
+    setTeam(null);
+    setReplayDiff(null);
+    setLiveConversation([]);
+    setFeedback({});
+    setSessionId(null);
+    setThread([past.rawQuery]);
+
+    try {
+      const response = await fetch('/api/queries/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ queryId: past.queryId }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        alert(`Re-run failed: ${data.error || 'Unknown error'}`);
+        return;
+      }
+
+      if (data.replay.team) {
+        showTeam(data.replay);
+      } else {
+        setResult(data.replay);
+        setSessionId(data.replay.sessionId || null);
+      }
+      setReplayDiff({ rawQuery: past.rawQuery, ...data.diff });
+      loadHistory();
+    } catch (error) {
+      console.error('Re-run error:', error);
+      alert('Re-run failed. Please check your connection to MongoDB.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = () => (teamMode ? runTeamSearch(searchQuery) : runSearch(searchQuery, false));
+
+  // "More like this": peers of a result by profile vector and skill overlap
+  const handleFindSimilar = async (expert: Expert) => {
+    if (!expert._id) return;
+
+    setLoading(true);
+    setResult(null);
+    setFeedback({});
+    setSessionId(null);
+    setTeam(null);
+    setReplayDiff(null);
+    setThread([`More like ${expert.name}`]);
+
+    try {
+      const response = await fetch(`/api/experts/similar?expertId=${encodeURIComponent(expert._id)}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        alert(`Find similar failed: ${data.error || 'Unknown error'}`);
+        return;
+      }
+
+      const message: AgentMessage = {
+        agent: 'scout',
+        message: `Found ${data.count} experts similar to ${expert.name}`,
+        timestamp: new Date().toISOString(),
+      };
+      setResult({ queryId: '', matches: data.matches, conversation: [message] });
+      setLiveConversation([message]);
+    } catch (error) {
+      console.error('Find similar error:', error);
+      alert('Find similar failed. Please check your connection to MongoDB.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefine = () => {
+    const query = refineQuery;
+    setRefineQuery('');
+    runSearch(query, true);
+  };
+
   const handleSeed = async () => {
     setSeeding(true);
     try {
@@ -332,10 +643,29 @@ export default function Home() {
       });
 
       const data = await response.json();
-      if (data.success) {
-        setImportStatus(`✓ Imported ${data.imported} developers from GitHub`);
-      } else {
+      if (!data.success) {
         setImportStatus(`Error: ${data.error}`);
+        return;
+      }
+
+      // The import runs as a background job; poll it until it finishes
+      let job = data.job;
+      while (job.status === 'queued' || job.status === 'running') {
+        const { processedItems, items, imported } = job.progress;
+        setImportStatus(job.status === 'queued' && processedItems > 0
+          ? `Paused (${job.lastError || 'rate limited'}); ${imported} imported so far...`
+          : `Importing developers from GitHub (${processedItems}/${items} languages, ${imported} imported)...`);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const poll = await fetch(`/api/ingest/jobs?jobId=${job.jobId}`).then(res => res.json());
+        if (!poll.success) throw new Error(poll.error);
+        job = poll.job;
+      }
+
+      if (job.status === 'completed') {
+        setImportStatus(`✓ Imported ${job.progress.imported} developers from GitHub` +
+          (job.progress.failed > 0 ? ` (${job.progress.failed} failed)` : ''));
+      } else {
+        setImportStatus(`Import ${job.status}${job.lastError ? `: ${job.lastError}` : ''}`);
       }
     } catch (error) {
       console.error('Import error:', error);
@@ -351,6 +681,7 @@ export default function Home() {
     scout: 'text-green-400',
     verifier: 'text-yellow-400',
     recommender: 'text-pink-400',
+    team_builder: 'text-orange-400',
   };
 
   const agentIcons: Record<string, string> = {
@@ -361,6 +692,13 @@ export default function Home() {
     recommender: '⭐',
   };
 
+  const verificationBadges: Record<string, { label: string; className: string }> = {
+    verified: { label: '✓ Verified', className: 'bg-green-500/20 text-green-400' },
+    partial: { label: '◐ Partially verified', className: 'bg-yellow-500/20 text-yellow-400' },
+    unverified: { label: '? Unverified', className: 'bg-gray-600/30 text-gray-400' },
+    synthetic: { label: '⚙ Synthetic', className: 'bg-purple-500/20 text-purple-300' },
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
       {/* Header */}
@@ -378,6 +716,15 @@ export default function Home() {
 
           <div className="flex items-center gap-4">
             <span className="text-sm text-gray-400">MongoDB + Voyage AI + Fireworks AI</span>
+            <button
+              onClick={toggleHistory}
+              className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${historyOpen
+                ? 'bg-gray-700 text-white'
+                : 'text-gray-400 hover:text-white'
+                }`}
+            >
+              🕘 History
+            </button>
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -449,9 +796,21 @@ export default function Home() {
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                    placeholder="e.g., Lead React developer with healthcare security experience"
+                    placeholder={teamMode
+                      ? 'e.g., Backend + ML + security for a HIPAA project'
+                      : 'e.g., Lead React developer with healthcare security experience'}
                     className="flex-1 px-6 py-4 bg-transparent text-white placeholder-gray-500 focus:outline-none"
                   />
+                  <button
+                    onClick={() => setTeamMode(!teamMode)}
+                    className={`px-4 rounded-xl text-sm font-bold transition-colors ${teamMode
+                      ? 'bg-orange-500/20 text-orange-300 border border-orange-500/40'
+                      : 'text-gray-400 hover:text-white'
+                      }`}
+                    title="Assemble a complementary team instead of individual matches"
+                  >
+                    👥 Team
+                  </button>
                   <button
                     onClick={handleSearch}
                     disabled={loading || !searchQuery.trim()}
@@ -462,7 +821,7 @@ export default function Home() {
                         <span className="animate-spin text-lg">⚙️</span>
                       </span>
                     ) : (
-                      'Search experts'
+                      teamMode ? 'Build team' : 'Search experts'
                     )}
                   </button>
                 </div>
@@ -533,6 +892,79 @@ export default function Home() {
           )}
         </div>
 
+        {/* Query History */}
+        {historyOpen && (
+          <div className="max-w-4xl mx-auto mb-12 bg-gray-800/50 rounded-2xl border border-gray-700 p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-white mr-auto">🕘 Query History</h3>
+              <input
+                type="text"
+                value={historyText}
+                onChange={(e) => setHistoryText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && loadHistory()}
+                placeholder="Filter by text"
+                className="px-3 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50"
+              />
+              <select
+                value={historyStatus}
+                onChange={(e) => setHistoryStatus(e.target.value)}
+                className="px-3 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-sm text-gray-300 focus:outline-none"
+              >
+                <option value="">All statuses</option>
+                <option value="completed">Completed</option>
+                <option value="failed">Failed</option>
+                <option value="processing">Processing</option>
+              </select>
+              <button
+                onClick={loadHistory}
+                className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium text-white transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {history.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-6">No past queries match.</p>
+              )}
+              {history.map((past) => (
+                <div key={past.queryId} className="flex items-center gap-3 bg-gray-900/50 rounded-lg px-4 py-3">
+                  <div className="min-w-0 mr-auto">
+                    <p className="text-sm text-white truncate">
+                      {past.mode === 'team' && <span className="mr-1">👥</span>}
+                      {past.rawQuery}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(past.createdAt).toLocaleString()} · {past.resultCount} results · {past.queryId}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${past.status === 'completed'
+                    ? 'bg-green-500/20 text-green-400'
+                    : past.status === 'failed'
+                      ? 'bg-red-500/20 text-red-400'
+                      : 'bg-yellow-500/20 text-yellow-400'
+                    }`}>
+                    {past.status}
+                  </span>
+                  <button
+                    onClick={() => viewQuery(past.queryId)}
+                    className="text-blue-400 text-sm hover:underline"
+                  >
+                    View
+                  </button>
+                  <button
+                    onClick={() => rerunQuery(past)}
+                    disabled={loading}
+                    className="text-purple-400 text-sm hover:underline disabled:opacity-50"
+                  >
+                    Re-run
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Live Pipeline Animation */}
         <AnimatePresence mode="wait">
           {(loading || ingesting) && (
@@ -597,11 +1029,64 @@ export default function Home() {
               <div className="lg:col-span-2">
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="text-lg font-semibold text-white">
-                    Top Matches ({result.matches.length})
+                    {team ? `Team (${result.matches.length}/${team.roles.length} roles)` : `Top Matches (${result.matches.length})`}
                   </h3>
                   <span className="text-sm text-gray-400">Query ID: {result.queryId}</span>
                 </div>
 
+                {/* Re-run Diff */}
+                {replayDiff && (
+                  <div className="mb-6 bg-gray-800/50 rounded-2xl border border-purple-500/30 p-5 text-sm">
+                    <p className="text-gray-400 mb-2">
+                      Re-run of <span className="text-white">&ldquo;{replayDiff.rawQuery}&rdquo;</span> against the current pool
+                    </p>
+                    {replayDiff.added.length + replayDiff.removed.length + replayDiff.moved.length === 0 ? (
+                      <p className="text-gray-300">No changes: same experts in the same order.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {replayDiff.added.map(e => (
+                          <p key={`added-${e.expertId}`} className="text-green-400">+ {e.name || e.expertId} (new at #{e.rank})</p>
+                        ))}
+                        {replayDiff.removed.map(e => (
+                          <p key={`removed-${e.expertId}`} className="text-red-400">
+                            − {e.name || e.expertId} (was #{e.previousRank}{e.inPool ? '' : ', no longer in the pool'})
+                          </p>
+                        ))}
+                        {replayDiff.moved.map(e => (
+                          <p key={`moved-${e.expertId}`} className="text-yellow-400">
+                            ↕ {e.name || e.expertId} (#{e.previousRank} → #{e.rank})
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Team Coverage */}
+                {team && (
+                  <div className="mb-6 bg-gray-800/50 rounded-2xl border border-orange-500/30 p-5">
+                    <div className="flex flex-wrap gap-6 text-sm mb-3">
+                      <span className="text-gray-400">Coverage <span className="text-white font-bold">{(team.coverage * 100).toFixed(0)}%</span></span>
+                      <span className="text-gray-400">Shared hours <span className="text-white font-bold">{team.timezoneOverlapHours ?? '?'}h/day</span></span>
+                      <span className="text-gray-400">Capacity <span className="text-white font-bold">{team.totalHoursPerWeek}h/week</span></span>
+                    </div>
+                    {team.redundantSkills.length > 0 && (
+                      <p className="text-xs text-gray-400 mb-2">Overlap: {team.redundantSkills.join(', ')}</p>
+                    )}
+                    {team.gaps.length > 0 ? (
+                      <div className="space-y-1">
+                        {team.gaps.map((gap, i) => (
+                          <p key={i} className={`text-sm ${gap.severity === 'partial' ? 'text-yellow-400' : 'text-red-400'}`}>
+                            ⚠️ {gap.role}{gap.skill ? ` · ${gap.skill}` : ''}: {gap.reason}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-green-400">✅ Every requested skill is covered</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-4">
                   {result.matches.map((match, i) => (
                     <motion.div
@@ -613,11 +1098,32 @@ export default function Home() {
                     >
                       <div className="flex items-start justify-between mb-4">
                         <div>
-                          <h4 className="text-xl font-semibold text-white">{match.expert.name}</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="text-xl font-semibold text-white">{match.expert.name}</h4>
+                            {match.verification && (
+                              <span
+                                className={`px-2 py-0.5 rounded-full text-xs ${verificationBadges[match.verification.status]?.className}`}
+                                title={[
+                                  `Confidence ${(match.verification.confidence * 100).toFixed(0)}%`,
+                                  `Checked ${new Date(match.verification.checkedAt).toLocaleDateString()}`,
+                                  ...match.verification.discrepancies,
+                                ].join('\n')}
+                              >
+                                {verificationBadges[match.verification.status]?.label}
+                              </span>
+                            )}
+                          </div>
                           <p className="text-blue-400">{match.expert.title}</p>
                           <p className="text-gray-400 text-sm">{match.expert.department}</p>
                         </div>
-                        <div className="text-right">
+                        <div
+                          className="text-right"
+                          title={match.scoreBreakdown
+                            ? Object.entries(match.scoreBreakdown.features)
+                              .map(([feature, value]) => `${feature}: ${(value * 100).toFixed(0)}%`)
+                              .join('\n')
+                            : undefined}
+                        >
                           <div className="text-2xl font-bold text-green-400">
                             {(match.matchScore * 100).toFixed(0)}%
                           </div>
@@ -671,6 +1177,28 @@ export default function Home() {
                             GitHub
                           </a>
                         )}
+                        <button
+                          onClick={() => handleFindSimilar(match.expert)}
+                          className="text-purple-400 text-sm hover:underline"
+                        >
+                          Find similar
+                        </button>
+                        {/* Relevance feedback for the ranker */}
+                        <div className="flex items-center gap-1 mr-12 ml-auto">
+                          {[true, false].map(relevant => (
+                            <button
+                              key={String(relevant)}
+                              onClick={() => sendFeedback(match.expert._id, relevant)}
+                              className={`px-2 py-1 rounded-lg text-sm transition-colors ${feedback[match.expert._id] === relevant
+                                ? 'bg-blue-500/30 text-white'
+                                : 'text-gray-500 hover:text-white hover:bg-gray-700/50'
+                                }`}
+                              title={relevant ? 'Good match' : 'Not relevant'}
+                            >
+                              {relevant ? '👍' : '👎'}
+                            </button>
+                          ))}
+                        </div>
                       </div>
 
                       {/* Droplet Selection Button */}
@@ -707,6 +1235,37 @@ export default function Home() {
                     </motion.div>
                   ))}
                 </div>
+
+                {/* Refine Thread */}
+                {!loading && sessionId && (
+                  <div className="mt-6 bg-gray-800/50 rounded-2xl border border-gray-700 p-4">
+                    <div className="space-y-1 mb-3">
+                      {thread.map((turn, i) => (
+                        <p key={i} className={`text-sm ${i === thread.length - 1 ? 'text-white' : 'text-gray-500'}`}>
+                          <span className="text-gray-500 mr-2">{i === 0 ? '🔍' : '↳'}</span>
+                          {turn}
+                        </p>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={refineQuery}
+                        onChange={(e) => setRefineQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && refineQuery.trim() && handleRefine()}
+                        placeholder='Refine, e.g. "only ones available now" or "more like the second one"'
+                        className="flex-1 px-4 py-2 bg-gray-900/50 border border-gray-700 rounded-xl text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50"
+                      />
+                      <button
+                        onClick={handleRefine}
+                        disabled={!refineQuery.trim()}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm font-medium text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Refine
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -4,13 +4,24 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
-import { getDb, COLLECTIONS, Query, AgentTask, Expert } from './mongodb';
-import { parseQuery, generateExplanation } from './fireworks';
-import { generateQueryEmbedding } from './voyage';
+import { getDb, COLLECTIONS, Query, AgentTask, Expert, ExpertVerification } from './mongodb';
+import { parseQuery, refineRequirements, generateExplanations, fallbackRequirements, fallbackRefinement, canonicalizeRequirements, decomposeTeam, fallbackTeamPlan, canonicalizeTeamPlan } from './fireworks';
+import { LLMValidationError } from './llm-json';
+import { LLMBudgetExceededError } from './llm';
+import { hybridSearch, RetrievedExpert, RetrievalSignals } from './retrieval';
+import { constraintsToFilters, describeConstraint, scoreConstraints } from './constraints';
+import { extractFeatures, scoreFeatures, getActiveRankerModel, ScoreBreakdown } from './ranker';
+import { expandSkillAliases } from './taxonomy';
+import { buildSkillGraph, SkillGraph, FULL_MATCH_SCORE } from './skill-graph';
+import { verifyExpert } from './verification';
+import { createSessionId, getSession, appendSessionTurn, resolveResultReference, SessionTurn } from './sessions';
+import { assembleTeam, TeamAssembly } from './team';
+import type { TeamPlan } from './schemas';
+import { getDatasetGeneration, lookupCachedSearch, storeCachedSearch } from './search-cache';
+import { runAgentStep, finishTask } from './tasks';
 
 // Agent Types
-export type AgentType = 'orchestrator' | 'analyst' | 'scout' | 'verifier' | 'recommender';
+export type AgentType = 'orchestrator' | 'analyst' | 'scout' | 'verifier' | 'recommender' | 'team_builder';
 
 // Agent Message for collaboration
 export interface AgentMessage {
@@ -25,7 +36,122 @@ export interface ExpertMatch {
     expert: Expert;
     matchScore: number;
     reasoning: string[];
-    matchedBy: AgentType;
+    matchedBy: AgentType | 'similarity';
+    // Which retrievers surfaced this expert
+    retrieval?: RetrievalSignals;
+    // Per-feature inputs and contributions to matchScore
+    scoreBreakdown?: ScoreBreakdown;
+    // Verifier's cross-check against external profiles
+    verification?: ExpertVerification;
+}
+
+// Final payload returned by the orchestrator
+export interface OrchestratorResult {
+    queryId: string;
+    sessionId?: string;
+    // Requirements after analysis (merged with earlier turns when refining)
+    requirements?: Query['parsedRequirements'];
+    matches: ExpertMatch[];
+    conversation: AgentMessage[];
+}
+
+// Team-mode payload: the role plan and the assembled team
+export interface TeamOrchestratorResult {
+    queryId: string;
+    plan: TeamPlan;
+    team: TeamAssembly;
+    conversation: AgentMessage[];
+}
+
+// Progress events emitted while a query is being processed
+export type OrchestratorEvent =
+    | { type: 'start'; queryId: string; sessionId?: string }
+    | { type: 'log'; message: AgentMessage }
+    | { type: 'requirements'; requirements: Query['parsedRequirements'] }
+    | { type: 'candidates'; agent: AgentType; count: number }
+    | { type: 'match'; match: ExpertMatch }
+    | { type: 'complete'; result: OrchestratorResult };
+
+export type OrchestratorListener = (event: OrchestratorEvent) => void;
+
+/**
+ * Make a match JSON-safe (ObjectIds become strings)
+ */
+function toSafeMatch(match: ExpertMatch): ExpertMatch {
+    return {
+        ...match,
+        expert: {
+            ...match.expert,
+            _id: match.expert._id ? String(match.expert._id) : undefined,
+        },
+    };
+}
+
+// Recommender defaults (overridable via RECOMMENDER_TOP_N / EXPLANATION_BATCH_SIZE)
+const DEFAULT_TOP_N = 5;
+const DEFAULT_EXPLANATION_BATCH_SIZE = 5;
+const MAX_EXPLANATION_CONCURRENCY = 3;
+const MAX_VERIFICATION_CONCURRENCY = 3;
+
+function getTopN(): number {
+    return parseInt(process.env.RECOMMENDER_TOP_N || '') || DEFAULT_TOP_N;
+}
+
+/**
+ * Explanation built from the expert's matched skills, used when the LLM
+ * is unavailable or its output cannot be validated
+ */
+function fallbackExplanation(expert: Expert, requirements: Query['parsedRequirements']): string[] {
+    const wanted = new Set((requirements?.skills || []).map(s => s.name.toLowerCase()));
+    const matched = expert.skills.filter(s => wanted.has(s.name.toLowerCase()));
+
+    const points = matched.length > 0
+        ? [`✅ Matches ${matched.map(s => `${s.name} (${s.level}, ${s.yearsExp}y)`).join(', ')}`]
+        : [`⚠️ No exact skill match; related experience: ${expert.skills.slice(0, 3).map(s => s.name).join(', ') || 'none listed'}`];
+
+    if (expert.availability?.status === 'available') {
+        points.push(`✅ Available ${expert.availability.hoursPerWeek}h/week (${expert.availability.timezone})`);
+    }
+
+    return points;
+}
+
+// Discrepancies from the Verifier shown per match
+const MAX_VERIFICATION_NOTES = 2;
+
+// Adjacent skills below this credit are not worth mentioning
+const MIN_PARTIAL_CREDIT = 0.3;
+
+/**
+ * "⚠️ Partial" reasoning entries for requested skills the expert only
+ * covers through an adjacent skill
+ */
+function partialSkillMatches(expert: Expert, requirements: Query['parsedRequirements'], graph: SkillGraph): string[] {
+    const requested = (requirements?.skills || []).map(s => s.name);
+
+    return graph.bestMatches(requested, expert.skills.map(s => s.name))
+        .filter(m => m.held && m.adjacency.score >= MIN_PARTIAL_CREDIT && m.adjacency.score < FULL_MATCH_SCORE)
+        .map(m => `⚠️ Partial: ${m.held} is adjacent to ${m.requested} (${Math.round(m.adjacency.score * 100)}% credit, ${m.adjacency.source})`);
+}
+
+/**
+ * Task step summaries (see ./tasks.ts)
+ */
+function summarizeRequirements(requirements: Query['parsedRequirements']) {
+    return {
+        summary: `${requirements?.skills.length || 0} skills, ${requirements?.constraints.length || 0} constraints`,
+        output: {
+            skills: requirements?.skills.map(s => s.name) || [],
+            constraints: requirements?.constraints.map(describeConstraint) || [],
+        },
+    };
+}
+
+function summarizeCandidates(candidates: RetrievedExpert[]) {
+    return {
+        summary: `${candidates.length} candidates`,
+        output: { count: candidates.length, top: candidates.slice(0, 5).map(c => c.name) },
+    };
 }
 
 /**
@@ -34,28 +160,37 @@ export interface ExpertMatch {
 abstract class BaseAgent {
     protected agentType: AgentType;
     protected queryId: string;
+    protected listener?: OrchestratorListener;
 
-    constructor(agentType: AgentType, queryId: string) {
+    constructor(agentType: AgentType, queryId: string, listener?: OrchestratorListener) {
         this.agentType = agentType;
         this.queryId = queryId;
+        this.listener = listener;
+    }
+
+    protected emit(event: OrchestratorEvent) {
+        this.listener?.(event);
     }
 
     protected async log(message: string, data?: unknown) {
+        const entry: AgentMessage = {
+            agent: this.agentType,
+            message,
+            data,
+            timestamp: new Date(),
+        };
+
         const db = await getDb();
         await (db.collection(COLLECTIONS.QUERIES) as any).updateOne(
             { queryId: this.queryId },
             {
                 $push: {
-                    agentConversation: {
-                        agent: this.agentType,
-                        message,
-                        data,
-                        timestamp: new Date(),
-                    },
+                    agentConversation: entry,
                 },
             }
         );
         console.log(`[${this.agentType.toUpperCase()}] ${message}`);
+        this.emit({ type: 'log', message: entry });
     }
 
     abstract execute(input: unknown): Promise<unknown>;
@@ -66,105 +201,150 @@ abstract class BaseAgent {
  * Parses natural language queries into structured requirements
  */
 export class QueryAnalystAgent extends BaseAgent {
-    constructor(queryId: string) {
-        super('analyst', queryId);
+    constructor(queryId: string, listener?: OrchestratorListener) {
+        super('analyst', queryId, listener);
     }
 
-    async execute(rawQuery: string): Promise<Query['parsedRequirements']> {
+    async execute(rawQuery: string, previous?: SessionTurn): Promise<Query['parsedRequirements']> {
+        if (previous) return this.refine(rawQuery, previous);
+
         await this.log('Analyzing query requirements...');
 
-        const requirements = await parseQuery(rawQuery);
+        let requirements: Query['parsedRequirements'];
+        try {
+            requirements = await parseQuery(rawQuery);
+        } catch (error) {
+            if (!(error instanceof LLMValidationError)) throw error;
+            // Record the structured failure, then continue with keyword extraction
+            await this.log(`Requirements failed validation after ${error.attempts} attempts, using keyword fallback`, error.toJSON());
+            requirements = await canonicalizeRequirements(fallbackRequirements(rawQuery));
+        }
 
         await this.log(`Extracted ${requirements.skills.length} skills, ${requirements.constraints.length} constraints`, requirements);
+        this.emit({ type: 'requirements', requirements });
+
+        return requirements;
+    }
+
+    /**
+     * Replay: use requirements parsed by an earlier query instead of re-parsing
+     */
+    async reuse(requirements: Query['parsedRequirements'], fromQueryId: string): Promise<Query['parsedRequirements']> {
+        await this.log(
+            `Reusing requirements from ${fromQueryId}: ${requirements?.skills.length || 0} skills, ${requirements?.constraints.length || 0} constraints`,
+            requirements
+        );
+        this.emit({ type: 'requirements', requirements });
+
+        return requirements;
+    }
+
+    /**
+     * Break a team request into roles with the skills each must cover
+     */
+    async decompose(rawQuery: string): Promise<TeamPlan> {
+        await this.log('Decomposing team request into roles...');
+
+        let plan: TeamPlan;
+        try {
+            plan = await decomposeTeam(rawQuery);
+        } catch (error) {
+            if (!(error instanceof LLMValidationError)) throw error;
+            await this.log(`Team plan failed validation after ${error.attempts} attempts, using keyword fallback`, error.toJSON());
+            plan = await canonicalizeTeamPlan(fallbackTeamPlan(rawQuery));
+        }
+
+        await this.log(
+            `Identified ${plan.roles.length} roles: ${plan.roles.map(r => `${r.title} (${r.skills.map(s => s.name).join(', ')})`).join('; ')}`,
+            plan
+        );
+
+        return plan;
+    }
+
+    /**
+     * Merge a follow-up ("only ones available now") into the previous turn's requirements
+     */
+    private async refine(refinement: string, previous: SessionTurn): Promise<Query['parsedRequirements']> {
+        const referenced = resolveResultReference(refinement, previous.results);
+        await this.log(
+            `Refining previous search "${previous.rawQuery}"${referenced ? ` using ${referenced.name} as a reference` : ''}...`
+        );
+
+        let requirements: Query['parsedRequirements'];
+        try {
+            requirements = await refineRequirements(previous.parsedRequirements, refinement, { results: previous.results, referenced });
+        } catch (error) {
+            if (!(error instanceof LLMValidationError)) throw error;
+            await this.log(`Refinement failed validation after ${error.attempts} attempts, using keyword fallback`, error.toJSON());
+            requirements = await canonicalizeRequirements(fallbackRefinement(previous.parsedRequirements, refinement, referenced));
+        }
+
+        const before = new Set(previous.parsedRequirements.constraints.map(describeConstraint));
+        const added = requirements.constraints.map(describeConstraint).filter(label => !before.has(label));
+        await this.log(
+            `Refined to ${requirements.skills.length} skills, ${requirements.constraints.length} constraints${added.length > 0 ? ` (added: ${added.join(', ')})` : ''}`,
+            requirements
+        );
+        this.emit({ type: 'requirements', requirements });
 
         return requirements;
     }
 }
 
+/**
+ * Retrieval and explanation text for a follow-up turn: the conversation so
+ * far plus the merged skills, which carry a referenced result's skills for
+ * "more like the second one"
+ */
+function refinedSearchText(searchQuery: string, requirements: Query['parsedRequirements']): string {
+    const skills = requirements?.skills.map(s => s.name) || [];
+    return skills.length > 0 ? `${searchQuery}. Skills: ${skills.join(', ')}` : searchQuery;
+}
+
 /**
  * Profile Scout Agent
  * Searches MongoDB for matching experts using vector search
  */
 export class ProfileScoutAgent extends BaseAgent {
-    constructor(queryId: string) {
-        super('scout', queryId);
+    constructor(queryId: string, listener?: OrchestratorListener) {
+        super('scout', queryId, listener);
     }
 
     async execute(input: {
         requirements: Query['parsedRequirements'];
         rawQuery: string;
-    }): Promise<Expert[]> {
-        await this.log('Searching expert database...');
-
-        const db = await getDb();
-        const queryEmbedding = await generateQueryEmbedding(input.rawQuery);
-
-        // Try vector search first
-        try {
-            const pipeline: any[] = [
-                {
-                    $vectorSearch: {
-                        index: 'Nested',
-                        path: 'skillVector',
-                        queryVector: queryEmbedding,
-                        numCandidates: 100,
-                        limit: 20,
-                    },
-                },
-                {
-                    $addFields: {
-                        matchScore: { $meta: 'vectorSearchScore' },
-                    },
-                },
-            ];
-
-            // Apply renown constraints if present
-            const renownConstraint = input.requirements?.constraints.find(c => c.type === 'renown');
-            if (renownConstraint) {
-                const renownValue = renownConstraint.value.toLowerCase();
-                let filter: any = null;
-
-                if (renownValue === 'popular') {
-                    filter = { $or: [{ renownLevel: 'famous' }, { renownLevel: 'established' }] };
-                } else if (renownValue === 'hidden') {
-                    filter = { $or: [{ renownLevel: 'hidden' }, { renownLevel: 'rising' }] };
-                }
-
-                if (filter) {
-                    await this.log(`Applying renown filter: ${renownValue}`);
-                    // Since $vectorSearch must be first, we can use a separate $match after or 
-                    // ideally use the 'filter' parameter of $vectorSearch if the index supports it.
-                    // For now, we'll match after to ensure results are within the requested group.
-                    pipeline.push({ $match: filter });
-                }
-            }
-
-            const results = await db.collection(COLLECTIONS.EXPERTS)
-                .aggregate(pipeline)
-                .limit(10)
-                .toArray();
-
-            if (results.length > 0) {
-                await this.log(`Found ${results.length} candidates via vector search`);
-                return results as unknown as Expert[];
-            }
-        } catch (error) {
-            console.log('Vector search not available, using fallback:', error);
+        role?: string; // Team mode: the role being staffed
+    }): Promise<RetrievedExpert[]> {
+        await this.log(input.role ? `Searching expert database for ${input.role}...` : 'Searching expert database...');
+
+        // Translate hard constraints into filters evaluated inside the search
+        const constraints = input.requirements?.constraints || [];
+        const filters = constraintsToFilters(constraints);
+        const filtered = constraints.filter(c =>
+            c.type !== 'min_years' && c.type !== 'skill_level' && !(c.type === 'renown' && c.value === 'any')
+        );
+        if (Object.keys(filters).length > 0) {
+            await this.log(`Applying filters: ${filtered.map(describeConstraint).join(', ')}`, filters);
         }
 
-        // Fallback: text-based search on skills
-        const skillNames = input.requirements?.skills.map(s => s.name) || [];
-        const query = skillNames.length > 0
-            ? { 'skills.name': { $in: skillNames.map(s => new RegExp(s, 'i')) } }
-            : {};
+        // Keyword retriever sees the extracted skills (and their aliases) alongside the raw query
+        const skillNames = await expandSkillAliases(input.requirements?.skills.map(s => s.name) || []);
+        const keywordQuery = [input.rawQuery, ...skillNames].join(' ');
 
-        const experts = await db.collection(COLLECTIONS.EXPERTS)
-            .find(query)
-            .limit(10)
-            .toArray();
+        // Retrieve enough candidates for the Recommender to rank its top N
+        const { experts, vectorCount, keywordCount, keywordMethod } = await hybridSearch(input.rawQuery, {
+            limit: Math.max(10, getTopN() * 2),
+            keywordQuery,
+            filters,
+        });
 
-        await this.log(`Found ${experts.length} candidates via text search`);
-        return experts as unknown as Expert[];
+        const both = experts.filter(e => e.retrieval?.signals.length === 2).length;
+        await this.log(
+            `Found ${experts.length} candidates${input.role ? ` for ${input.role}` : ''} via hybrid search (vector: ${vectorCount}, keyword: ${keywordCount} via ${keywordMethod}, both: ${both})`
+        );
+        this.emit({ type: 'candidates', agent: 'scout', count: experts.length });
+        return experts;
     }
 }
 
@@ -173,28 +353,36 @@ export class ProfileScoutAgent extends BaseAgent {
  * Validates and cross-references expert credentials
  */
 export class VerifierAgent extends BaseAgent {
-    constructor(queryId: string) {
-        super('verifier', queryId);
+    constructor(queryId: string, listener?: OrchestratorListener) {
+        super('verifier', queryId, listener);
     }
 
-    async execute(candidates: Expert[]): Promise<Expert[]> {
-        await this.log(`Verifying ${candidates.length} candidates...`);
+    async execute<T extends Expert>(candidates: T[]): Promise<(T & { verification: ExpertVerification })[]> {
+        await this.log(`Verifying ${candidates.length} candidates against external profiles...`);
 
-        // Simulate verification (in production, would check LinkedIn, GitHub, etc.)
-        const verified = candidates.map(expert => ({
-            ...expert,
-            verified: true,
-            verificationDetails: {
-                profileComplete: !!expert.bio && expert.skills.length > 0,
-                hasExternalLinks: !!(expert.linkedIn || expert.github),
-                availabilityConfirmed: expert.availability?.status === 'available',
-            },
-        }));
+        // Re-fetch profiles with bounded concurrency to stay within API rate limits
+        const verified: (T & { verification: ExpertVerification })[] = new Array(candidates.length);
+        let next = 0;
 
-        const availableCount = verified.filter(e => e.availability?.status === 'available').length;
-        await this.log(`Verified ${verified.length} experts, ${availableCount} available`);
+        const worker = async () => {
+            while (next < candidates.length) {
+                const i = next++;
+                verified[i] = { ...candidates[i], verification: await verifyExpert(candidates[i]) };
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(MAX_VERIFICATION_CONCURRENCY, candidates.length) }, worker));
+
+        const counts = verified.reduce<Record<string, number>>((acc, e) => {
+            acc[e.verification.status] = (acc[e.verification.status] || 0) + 1;
+            return acc;
+        }, {});
+        await this.log(
+            `Verified ${verified.length} experts: ${Object.entries(counts).map(([status, n]) => `${n} ${status}`).join(', ') || 'none'}`,
+            verified.map(e => ({ name: e.name, status: e.verification.status, confidence: e.verification.confidence, discrepancies: e.verification.discrepancies }))
+        );
+        this.emit({ type: 'candidates', agent: 'verifier', count: verified.length });
 
-        return verified as unknown as Expert[];
+        return verified;
     }
 }
 
@@ -203,95 +391,144 @@ export class VerifierAgent extends BaseAgent {
  * Ranks experts and generates explanations
  */
 export class RecommenderAgent extends BaseAgent {
-    constructor(queryId: string) {
-        super('recommender', queryId);
+    constructor(queryId: string, listener?: OrchestratorListener) {
+        super('recommender', queryId, listener);
     }
 
     async execute(input: {
-        candidates: Expert[];
+        candidates: (RetrievedExpert & { verification?: ExpertVerification })[];
         rawQuery: string;
         requirements: Query['parsedRequirements'];
+        topN?: number;
     }): Promise<ExpertMatch[]> {
         await this.log('Ranking and explaining matches...');
 
-        const matches: ExpertMatch[] = [];
-
-        for (const expert of input.candidates.slice(0, 5)) {
-            // Calculate match score based on requirements
-            const skillMatch = this.calculateSkillMatch(expert, input.requirements);
-            const renownMatch = this.calculateRenownMatch(expert, input.requirements);
-            const availabilityBonus = expert.availability?.status === 'available' ? 0.1 : 0;
+        const topN = input.topN || getTopN();
 
-            // Weight: 70% skills, 30% renown/intent match
-            const matchScore = Math.min(1, (skillMatch * 0.7) + (renownMatch * 0.3) + availabilityBonus);
-
-            // Generate explanation
-            const reasoning = await generateExplanation(
-                input.rawQuery,
-                expert,
-                matchScore
-            );
-
-            matches.push({
+        // Score every candidate first, then only explain the ones we return
+        const model = await getActiveRankerModel();
+        const graph = await buildSkillGraph(
+            (input.requirements?.skills || []).map(s => s.name),
+            input.candidates.flatMap(c => c.skills.map(s => s.name))
+        );
+        const ranked = input.candidates.map(({ retrieval, verification, ...expert }) => {
+            const features = extractFeatures(expert, input.requirements, { retrieval, graph, verification });
+            const { score, breakdown } = scoreFeatures(features, model);
+            const { unmet } = scoreConstraints(expert, input.requirements?.constraints);
+
+            return { expert, matchScore: score, breakdown, retrieval, verification, unmet };
+        })
+            .sort((a, b) => b.matchScore - a.matchScore)
+            .slice(0, topN);
+
+        // Each match is emitted as soon as its explanation (or fallback) is ready
+        const matches: ExpertMatch[] = new Array(ranked.length);
+        await this.explain(input.rawQuery, input.requirements, ranked, (i, explanation) => {
+            const { expert, matchScore, breakdown, retrieval, verification, unmet } = ranked[i];
+            matches[i] = {
                 expert,
                 matchScore,
-                reasoning,
+                scoreBreakdown: breakdown,
+                // Flag adjacent-only skills and requirements the expert falls short of
+                reasoning: [
+                    ...explanation,
+                    ...partialSkillMatches(expert, input.requirements, graph),
+                    ...unmet.map(label => `⚠️ Does not meet: ${label}`),
+                    ...(verification?.discrepancies || []).slice(0, MAX_VERIFICATION_NOTES).map(d => `⚠️ Verification: ${d}`),
+                ],
                 matchedBy: 'recommender',
-            });
-        }
-
-        // Sort by match score
-        matches.sort((a, b) => b.matchScore - a.matchScore);
+                retrieval,
+                verification,
+            };
+            this.emit({ type: 'match', match: toSafeMatch(matches[i]) });
+        });
 
         await this.log(`Ranked ${matches.length} experts, top match: ${matches[0]?.expert.name || 'none'}`);
 
         return matches;
     }
 
-    private calculateSkillMatch(
-        expert: Expert,
-        requirements: Query['parsedRequirements'] | undefined
-    ): number {
-        if (!requirements?.skills.length) return 0.5;
-
-        const expertSkills = new Set(expert.skills.map(s => s.name.toLowerCase()));
-        let totalWeight = 0;
-        let matchedWeight = 0;
+    /**
+     * Explain matches in batched LLM calls with bounded concurrency,
+     * falling back to a skill-based explanation per expert. onExplained
+     * fires per expert as each batch finishes (batches may finish out of order).
+     */
+    private async explain(
+        rawQuery: string,
+        requirements: Query['parsedRequirements'],
+        ranked: { expert: Expert; matchScore: number }[],
+        onExplained: (index: number, explanation: string[]) => void
+    ): Promise<void> {
+        const batchSize = parseInt(process.env.EXPLANATION_BATCH_SIZE || '') || DEFAULT_EXPLANATION_BATCH_SIZE;
+        const batches: { start: number; items: typeof ranked }[] = [];
+        for (let start = 0; start < ranked.length; start += batchSize) {
+            batches.push({ start, items: ranked.slice(start, start + batchSize) });
+        }
 
-        for (const req of requirements.skills) {
-            totalWeight += req.weight;
-            if (expertSkills.has(req.name.toLowerCase())) {
-                matchedWeight += req.weight;
+        let next = 0;
+
+        const worker = async () => {
+            while (next < batches.length) {
+                const { start, items } = batches[next++];
+                let generated: (string[] | undefined)[] = [];
+                try {
+                    generated = await generateExplanations(rawQuery, items);
+                } catch (error) {
+                    if (error instanceof LLMBudgetExceededError) throw error;
+                    if (error instanceof LLMValidationError) {
+                        await this.log(`Explanations failed validation after ${error.attempts} attempts, using skill-based fallback`, error.toJSON());
+                    } else {
+                        console.log('Explanation batch failed, using skill-based fallback:', error);
+                    }
+                }
+                items.forEach((item, i) => {
+                    onExplained(start + i, generated[i] || fallbackExplanation(item.expert, requirements));
+                });
             }
-        }
+        };
 
-        return totalWeight > 0 ? matchedWeight / totalWeight : 0.5;
+        await Promise.all(Array.from({ length: Math.min(MAX_EXPLANATION_CONCURRENCY, batches.length) }, worker));
     }
+}
 
-    private calculateRenownMatch(
-        expert: Expert,
-        requirements: Query['parsedRequirements'] | undefined
-    ): number {
-        const renownConstraint = requirements?.constraints.find(c => c.type === 'renown');
-        if (!renownConstraint) return 0.5;
-
-        const requested = renownConstraint.value.toLowerCase();
-        const actual = expert.renownLevel || 'hidden';
-
-        if (requested === 'popular') {
-            if (actual === 'famous') return 1.0;
-            if (actual === 'established') return 0.8;
-            if (actual === 'rising') return 0.4;
-            return 0.1;
-        }
+/**
+ * Team Builder Agent
+ * Picks a complementary set of experts, one per role
+ */
+export class TeamBuilderAgent extends BaseAgent {
+    constructor(queryId: string, listener?: OrchestratorListener) {
+        super('team_builder', queryId, listener);
+    }
 
-        if (requested === 'hidden') {
-            if (actual === 'hidden') return 1.0;
-            if (actual === 'rising') return 0.7;
-            return 0.2;
+    async execute(input: {
+        plan: TeamPlan;
+        candidatesByRole: RetrievedExpert[][];
+        minOverlapHours?: number;
+    }): Promise<TeamAssembly> {
+        await this.log('Assembling team for maximum coverage with minimal overlap...');
+
+        const graph = await buildSkillGraph(
+            input.plan.roles.flatMap(r => r.skills.map(s => s.name)),
+            input.candidatesByRole.flat().flatMap(c => c.skills.map(s => s.name))
+        );
+        const team = assembleTeam(input.plan.roles, input.candidatesByRole, graph, {
+            constraints: input.plan.constraints,
+            minOverlapHours: input.minOverlapHours,
+        });
+
+        await this.log(
+            `Staffed ${team.members.length}/${input.plan.roles.length} roles with ${Math.round(team.coverage * 100)}% skill coverage` +
+            (team.timezoneOverlapHours !== null ? `, ${team.timezoneOverlapHours}h shared working time` : ''),
+            team.members.map(m => ({ role: m.role, name: m.expert.name, roleFit: m.roleFit }))
+        );
+        if (team.gaps.length > 0) {
+            await this.log(
+                `Coverage gaps: ${team.gaps.map(g => (g.skill ? `${g.skill} (${g.severity})` : `${g.role} (${g.severity})`)).join(', ')}`,
+                team.gaps
+            );
         }
 
-        return 0.5;
+        return team;
     }
 }
 
@@ -302,49 +539,77 @@ export class RecommenderAgent extends BaseAgent {
 export class OrchestratorAgent {
     private queryId: string;
     private taskId: string;
+    private listener?: OrchestratorListener;
 
-    constructor() {
+    constructor(listener?: OrchestratorListener) {
         this.queryId = `query_${uuidv4().slice(0, 8)}`;
         this.taskId = `task_${uuidv4().slice(0, 8)}`;
+        this.listener = listener;
     }
 
-    async processQuery(rawQuery: string): Promise<{
-        queryId: string;
-        matches: ExpertMatch[];
-        conversation: AgentMessage[];
-    }> {
+    /**
+     * Run the agent pipeline. With a sessionId whose session has earlier
+     * turns, the query is treated as a follow-up refining the last turn.
+     * A replay passes the original query's requirements (and, for a follow-up,
+     * its search text) and skips the cache.
+     */
+    async processQuery(
+        rawQuery: string,
+        options: { sessionId?: string; requirements?: Query['parsedRequirements']; replayOf?: string; searchText?: string } = {}
+    ): Promise<OrchestratorResult> {
         const db = await getDb();
-        const queryHash = crypto.createHash('sha256').update(rawQuery.trim().toLowerCase()).digest('hex');
 
-        try {
-            // 1. Check Search Result Cache
-            const cachedResult = await db.collection(COLLECTIONS.CACHE_SEARCH_RESULTS).findOne({
-                queryHash,
-                expiresAt: { $gt: new Date() }
-            });
+        const sessionId = options.sessionId || createSessionId();
+        const session = options.sessionId ? await getSession(options.sessionId) : null;
+        const previous = session?.turns[session.turns.length - 1];
 
-            if (cachedResult) {
-                console.log('⚡ Orchestrator: Cache Hit for prompt:', rawQuery);
-                return {
+        try {
+            // 1. Check Search Result Cache at the current dataset generation
+            //    (follow-ups depend on the session and replays must re-run, so neither is cached)
+            const cacheable = !previous && !options.replayOf;
+            const generation = cacheable ? await getDatasetGeneration() : 0;
+            const cacheLookup = cacheable ? await lookupCachedSearch(rawQuery, generation) : null;
+
+            if (cacheLookup) {
+                const cachedResult = cacheLookup.entry;
+                console.log(`⚡ Orchestrator: Cache Hit (${cacheLookup.match}) for prompt:`, rawQuery);
+                const cacheMessage: AgentMessage = {
+                    agent: 'orchestrator',
+                    message: cacheLookup.match === 'semantic'
+                        ? `Retrieved optimized results from lightning cache (similar to "${cachedResult.originalQuery}").`
+                        : 'Retrieved optimized results from lightning cache.',
+                    timestamp: new Date()
+                };
+                const cached: OrchestratorResult = {
                     queryId: cachedResult.result.queryId,
+                    sessionId,
+                    requirements: cachedResult.result.requirements,
                     matches: cachedResult.result.matches,
-                    conversation: [
-                        {
-                            agent: 'orchestrator' as AgentType,
-                            message: 'Retrieved optimized results from lightning cache.',
-                            timestamp: new Date()
-                        },
-                        ...cachedResult.result.conversation
-                    ],
+                    conversation: [cacheMessage, ...cachedResult.result.conversation],
                 };
+
+                this.listener?.({ type: 'start', queryId: cached.queryId, sessionId });
+                this.listener?.({ type: 'log', message: cacheMessage });
+                cached.matches.forEach(match => this.listener?.({ type: 'match', match }));
+
+                if (cached.requirements) {
+                    await this.recordTurn(sessionId, rawQuery, cached.queryId, cached.requirements, cached.matches);
+                }
+                this.listener?.({ type: 'complete', result: cached });
+
+                return cached;
             }
 
             console.log(`\n🤖 ORCHESTRATOR: Cache Miss. Starting full inference for query ${this.queryId}`);
+            this.listener?.({ type: 'start', queryId: this.queryId, sessionId });
 
             // Create query record
             await db.collection(COLLECTIONS.QUERIES).insertOne({
                 queryId: this.queryId,
                 rawQuery,
+                sessionId,
+                ...(previous ? { refinementOf: previous.queryId } : {}),
+                ...(options.replayOf ? { replayOf: options.replayOf } : {}),
                 status: 'processing',
                 agentConversation: [],
                 results: [],
@@ -362,24 +627,65 @@ export class OrchestratorAgent {
             });
 
             // Step 1: Analyze query
-            const analyst = new QueryAnalystAgent(this.queryId);
-            const requirements = await analyst.execute(rawQuery);
+            const analyst = new QueryAnalystAgent(this.queryId, this.listener);
+            const reused = options.requirements && options.replayOf ? options.replayOf : undefined;
+            const requirements = await runAgentStep(
+                this.taskId,
+                {
+                    agent: 'analyst',
+                    action: reused ? 'reuse_requirements' : previous ? 'refine_query' : 'analyze_query',
+                    input: { rawQuery, refines: previous?.queryId, replayOf: reused },
+                },
+                () => (reused ? analyst.reuse(options.requirements, reused) : analyst.execute(rawQuery, previous)),
+                summarizeRequirements
+            );
+
+            // A follow-up alone ("only ones available now") says little; search and explain against the whole conversation
+            const searchQuery = previous ? `${previous.searchQuery || previous.rawQuery}. ${rawQuery}` : rawQuery;
+            const searchText = options.searchText || (previous ? refinedSearchText(searchQuery, requirements) : rawQuery);
 
             // Step 2: Search for candidates
-            const scout = new ProfileScoutAgent(this.queryId);
-            const candidates = await scout.execute({ requirements, rawQuery });
+            const scout = new ProfileScoutAgent(this.queryId, this.listener);
+            const candidates = await runAgentStep(
+                this.taskId,
+                { agent: 'scout', action: 'hybrid_search', input: { requirements, rawQuery: searchText } },
+                () => scout.execute({ requirements, rawQuery: searchText }),
+                summarizeCandidates
+            );
 
             // Step 3: Verify candidates
-            const verifier = new VerifierAgent(this.queryId);
-            const verified = await verifier.execute(candidates);
+            const verifier = new VerifierAgent(this.queryId, this.listener);
+            const verified = await runAgentStep(
+                this.taskId,
+                { agent: 'verifier', action: 'verify_candidates', input: candidates },
+                () => verifier.execute(candidates),
+                output => {
+                    const statuses = output.reduce<Record<string, number>>((acc, e) => {
+                        acc[e.verification.status] = (acc[e.verification.status] || 0) + 1;
+                        return acc;
+                    }, {});
+                    return {
+                        summary: `${output.length} verified (${Object.entries(statuses).map(([status, n]) => `${n} ${status}`).join(', ') || 'none'})`,
+                        output: statuses,
+                    };
+                }
+            );
 
             // Step 4: Rank and explain
-            const recommender = new RecommenderAgent(this.queryId);
-            const matches = await recommender.execute({
-                candidates: verified,
-                rawQuery,
-                requirements,
-            });
+            const recommender = new RecommenderAgent(this.queryId, this.listener);
+            const matches = await runAgentStep(
+                this.taskId,
+                { agent: 'recommender', action: 'rank_and_explain', input: { candidates: verified, requirements } },
+                () => recommender.execute({
+                    candidates: verified,
+                    rawQuery: searchText,
+                    requirements,
+                }),
+                output => ({
+                    summary: `Ranked ${output.length} experts, top match: ${output[0]?.expert.name || 'none'}`,
+                    output: output.map(m => ({ name: m.expert.name, matchScore: Number(m.matchScore.toFixed(3)) })),
+                })
+            );
 
             // Update query status
             const matchIds = matches.map(m => m.expert._id ? String(m.expert._id) : '');
@@ -390,22 +696,20 @@ export class OrchestratorAgent {
                     $set: {
                         status: 'completed',
                         parsedRequirements: requirements,
+                        ...(searchText !== rawQuery ? { searchText } : {}),
                         results: matchIds,
+                        rankings: matches.map((m, i) => ({
+                            expertId: matchIds[i],
+                            matchScore: m.matchScore,
+                            features: m.scoreBreakdown?.features || {},
+                        })),
                         completedAt: new Date(),
                     },
                 }
             );
 
-            // Update task status
-            await db.collection(COLLECTIONS.AGENT_TASKS).updateOne(
-                { taskId: this.taskId },
-                {
-                    $set: {
-                        status: 'completed',
-                        completedAt: new Date(),
-                    },
-                }
-            );
+            // Update task status (totals duration and token usage over the steps)
+            await finishTask(this.taskId, 'completed');
 
             // Get conversation log
             const query = await db.collection(COLLECTIONS.QUERIES).findOne({ queryId: this.queryId });
@@ -414,46 +718,191 @@ export class OrchestratorAgent {
             console.log(`\n✅ ORCHESTRATOR: Query completed with ${matches.length} matches\n`);
 
             // Ensure all IDs are strings for JSON safety
-            const safeMatches = matches.map(m => ({
-                ...m,
-                expert: {
-                    ...m.expert,
-                    _id: m.expert._id ? String(m.expert._id) : undefined
-                }
-            }));
+            const safeMatches = matches.map(toSafeMatch);
 
-            const finalResult = {
+            const finalResult: OrchestratorResult = {
                 queryId: this.queryId,
+                sessionId,
+                requirements,
                 matches: safeMatches,
                 conversation,
             };
 
-            // 5. Store in Search Result Cache (1 hour TTL)
-            await db.collection(COLLECTIONS.CACHE_SEARCH_RESULTS).updateOne(
-                { queryHash },
+            if (requirements) {
+                await this.recordTurn(sessionId, rawQuery, this.queryId, requirements, safeMatches, previous && { queryId: previous.queryId, searchQuery });
+            }
+
+            // 5. Store in Search Result Cache (1 hour TTL); follow-ups are session-specific
+            if (cacheable) {
+                await storeCachedSearch(rawQuery, finalResult, generation);
+            }
+
+            this.listener?.({ type: 'complete', result: finalResult });
+
+            return finalResult;
+
+        } catch (error) {
+            console.error('Orchestrator error:', error);
+
+            await db.collection(COLLECTIONS.QUERIES).updateOne(
+                { queryId: this.queryId },
+                { $set: { status: 'failed' } }
+            );
+            await finishTask(this.taskId, 'failed', error).catch(() => undefined);
+
+            throw error;
+        }
+    }
+
+    /**
+     * Team mode: the Analyst splits the request into roles, the Scout searches
+     * per role and the Team Builder picks one expert per role
+     */
+    async processTeamQuery(rawQuery: string, options: { minOverlapHours?: number; replayOf?: string } = {}): Promise<TeamOrchestratorResult> {
+        const db = await getDb();
+
+        try {
+            console.log(`\n🤖 ORCHESTRATOR: Assembling team for query ${this.queryId}`);
+            this.listener?.({ type: 'start', queryId: this.queryId });
+
+            await db.collection(COLLECTIONS.QUERIES).insertOne({
+                queryId: this.queryId,
+                rawQuery,
+                mode: 'team',
+                ...(options.replayOf ? { replayOf: options.replayOf } : {}),
+                status: 'processing',
+                agentConversation: [],
+                results: [],
+                createdAt: new Date(),
+            });
+
+            await db.collection(COLLECTIONS.AGENT_TASKS).insertOne({
+                taskId: this.taskId,
+                queryId: this.queryId,
+                agents: ['orchestrator', 'analyst', 'scout', 'team_builder'],
+                status: 'in_progress',
+                steps: [],
+                startedAt: new Date(),
+            });
+
+            // Step 1: Decompose into roles
+            const analyst = new QueryAnalystAgent(this.queryId, this.listener);
+            const plan = await runAgentStep(
+                this.taskId,
+                { agent: 'analyst', action: 'decompose_team', input: { rawQuery } },
+                () => analyst.decompose(rawQuery),
+                output => ({
+                    summary: `${output.roles.length} roles: ${output.roles.map(r => r.title).join(', ')}`,
+                    output: output.roles.map(r => ({ title: r.title, skills: r.skills.map(s => s.name) })),
+                })
+            );
+
+            // Step 2: Search per role (sequentially to keep the logs readable)
+            const scout = new ProfileScoutAgent(this.queryId, this.listener);
+            const candidatesByRole: RetrievedExpert[][] = [];
+            for (const role of plan.roles) {
+                const requirements = {
+                    skills: role.skills,
+                    constraints: plan.constraints,
+                    intent: 'team_role',
+                    summary: `${role.title} for: ${plan.summary}`,
+                };
+                const roleQuery = `${role.title}: ${role.skills.map(s => s.name).join(', ')}`;
+                candidatesByRole.push(await runAgentStep(
+                    this.taskId,
+                    { agent: 'scout', action: `hybrid_search:${role.title}`, input: { requirements, rawQuery: roleQuery } },
+                    () => scout.execute({ requirements, rawQuery: roleQuery, role: role.title }),
+                    summarizeCandidates
+                ));
+            }
+
+            // Step 3: Assemble the team
+            const builder = new TeamBuilderAgent(this.queryId, this.listener);
+            const team = await runAgentStep(
+                this.taskId,
+                { agent: 'team_builder', action: 'assemble_team', input: { plan, candidatesByRole } },
+                () => builder.execute({ plan, candidatesByRole, minOverlapHours: options.minOverlapHours }),
+                output => ({
+                    summary: `${output.members.length}/${plan.roles.length} roles staffed, ${Math.round(output.coverage * 100)}% coverage, ${output.gaps.length} gaps`,
+                    output: output.members.map(m => ({ role: m.role, name: m.expert.name })),
+                })
+            );
+
+            // Union of role skills keeps team queries comparable with regular ones
+            const parsedRequirements = {
+                skills: plan.roles.flatMap(r => r.skills),
+                constraints: plan.constraints,
+                intent: 'team',
+                summary: plan.summary,
+            };
+
+            await db.collection(COLLECTIONS.QUERIES).updateOne(
+                { queryId: this.queryId },
                 {
                     $set: {
-                        queryHash,
-                        originalQuery: rawQuery,
-                        result: finalResult,
-                        createdAt: new Date(),
-                        expiresAt: new Date(Date.now() + 60 * 60 * 1000) // 1 hour
-                    }
-                },
-                { upsert: true }
+                        status: 'completed',
+                        parsedRequirements,
+                        results: team.members.map(m => (m.expert._id ? String(m.expert._id) : '')),
+                        completedAt: new Date(),
+                    },
+                }
             );
 
-            return finalResult;
+            await finishTask(this.taskId, 'completed');
 
+            const query = await db.collection(COLLECTIONS.QUERIES).findOne({ queryId: this.queryId });
+            const conversation = (query?.agentConversation || []) as AgentMessage[];
+
+            console.log(`\n✅ ORCHESTRATOR: Team assembled with ${team.members.length} members, ${team.gaps.length} gaps\n`);
+
+            return {
+                queryId: this.queryId,
+                plan,
+                team: {
+                    ...team,
+                    members: team.members.map(m => ({
+                        ...m,
+                        expert: { ...m.expert, _id: m.expert._id ? String(m.expert._id) : undefined },
+                    })),
+                },
+                conversation,
+            };
         } catch (error) {
-            console.error('Orchestrator error:', error);
+            console.error('Orchestrator team error:', error);
 
             await db.collection(COLLECTIONS.QUERIES).updateOne(
                 { queryId: this.queryId },
                 { $set: { status: 'failed' } }
             );
+            await finishTask(this.taskId, 'failed', error).catch(() => undefined);
 
             throw error;
         }
     }
+
+    /**
+     * Remember this turn in agent_memory so the next message can refine it
+     */
+    private async recordTurn(
+        sessionId: string,
+        rawQuery: string,
+        queryId: string,
+        requirements: NonNullable<Query['parsedRequirements']>,
+        matches: ExpertMatch[],
+        refinement?: { queryId: string; searchQuery: string }
+    ) {
+        await appendSessionTurn(sessionId, {
+            queryId,
+            rawQuery,
+            ...(refinement ? { refinementOf: refinement.queryId, searchQuery: refinement.searchQuery } : {}),
+            parsedRequirements: requirements,
+            results: matches.map(m => ({
+                expertId: m.expert._id ? String(m.expert._id) : '',
+                name: m.expert.name,
+                title: m.expert.title,
+                skills: m.expert.skills.map(s => s.name),
+            })),
+            createdAt: new Date(),
+        });
+    }
 }
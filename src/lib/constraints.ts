@@ -0,0 +1,343 @@
+/**
+ * Query Constraints for ExpertMesh
+ * Typed constraint schema extracted by the Analyst, translated into
+ * database filters by the Scout and scored by the Recommender.
+ */
+
+import { Expert, QueryConstraint } from './mongodb';
+import { ExpertFilters } from './retrieval';
+
+const SKILL_LEVELS = ['junior', 'mid', 'senior', 'expert'] as const;
+const AVAILABILITY_STATUSES = ['available', 'busy', 'unavailable'] as const;
+const RENOWN_VALUES = ['popular', 'hidden', 'rising', 'any'] as const;
+
+// Scores below this are reported back as unmet requirements
+const UNMET_THRESHOLD = 0.75;
+
+// Regions map onto the timezone codes stored on profiles
+const TIMEZONE_REGIONS: Record<string, string[]> = {
+    americas: ['PST', 'MST', 'CST', 'EST'],
+    'north america': ['PST', 'MST', 'CST', 'EST'],
+    us: ['PST', 'MST', 'CST', 'EST'],
+    europe: ['GMT', 'CET'],
+    emea: ['GMT', 'CET'],
+    apac: ['IST', 'SGT', 'JST', 'KST'],
+    asia: ['IST', 'SGT', 'JST', 'KST'],
+};
+
+// Daylight-saving and shorthand variants of the stored codes
+const TIMEZONE_ALIASES: Record<string, string> = {
+    PT: 'PST', PDT: 'PST',
+    MT: 'MST', MDT: 'MST',
+    CT: 'CST', CDT: 'CST',
+    ET: 'EST', EDT: 'EST',
+    BST: 'GMT', WET: 'GMT',
+    CEST: 'CET', EET: 'CET',
+};
+
+// Standard-time UTC offsets of the stored codes
+const UTC_OFFSETS: Record<string, number> = {
+    PST: -8, MST: -7, CST: -6, EST: -5,
+    GMT: 0, UTC: 0, CET: 1,
+    IST: 5.5, SGT: 8, JST: 9, KST: 9,
+};
+
+// Local working day used for timezone overlap (09:00-17:00)
+const WORKDAY_START = 9;
+const WORKDAY_END = 17;
+
+const TIMEZONE_CODE = /\b(PST|PDT|PT|MST|MDT|CST|CDT|EST|EDT|ET|GMT|BST|UTC|CET|CEST|IST|SGT|JST|KST)\b/;
+
+function oneOf<T extends string>(values: readonly T[], value: unknown): T | undefined {
+    const normalized = String(value ?? '').toLowerCase().trim();
+    return values.find(v => v === normalized);
+}
+
+function positiveNumber(value: unknown): number | undefined {
+    const n = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Timezone codes covered by a code or region name
+ */
+export function resolveTimezones(value: string): string[] {
+    const region = TIMEZONE_REGIONS[value.toLowerCase().trim()];
+    if (region) return region;
+
+    const code = value.toUpperCase().trim();
+    return [TIMEZONE_ALIASES[code] || code];
+}
+
+/**
+ * Hours of the working day shared by everyone in the given timezones, or
+ * null if none of them is a known code. Unknown codes are ignored.
+ */
+export function workingHoursOverlap(timezones: string[]): number | null {
+    const offsets = timezones
+        .map(tz => UTC_OFFSETS[TIMEZONE_ALIASES[tz.toUpperCase().trim()] || tz.toUpperCase().trim()])
+        .filter((offset): offset is number => offset !== undefined);
+    if (offsets.length === 0) return null;
+
+    // Count the half-hour UTC slots that fall inside every local working day
+    let shared = 0;
+    for (let slot = 0; slot < 48; slot++) {
+        const utc = slot / 2;
+        const working = offsets.every(offset => {
+            const local = (utc + offset + 24) % 24;
+            return local >= WORKDAY_START && local < WORKDAY_END;
+        });
+        if (working) shared++;
+    }
+    return shared / 2;
+}
+
+function normalizePlatform(value: string): string {
+    return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function isSyntheticExpert(expert: Expert): boolean {
+    return !!expert.isSynthetic || !!expert.sources?.some(s => s.platform === 'generated');
+}
+
+/**
+ * Coerce raw (LLM or client) constraint objects into the typed schema,
+ * dropping anything unrecognized or malformed
+ */
+export function normalizeConstraints(raw: unknown): QueryConstraint[] {
+    if (!Array.isArray(raw)) return [];
+
+    const constraints: QueryConstraint[] = [];
+
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue;
+        const { type, value, skill } = item as { type?: unknown; value?: unknown; skill?: unknown };
+        const text = typeof value === 'string' ? value.trim() : '';
+
+        switch (type) {
+            case 'renown': {
+                const renown = oneOf(RENOWN_VALUES, value);
+                if (renown) constraints.push({ type, value: renown });
+                break;
+            }
+            case 'timezone':
+                if (text) constraints.push({ type, value: text });
+                break;
+            case 'min_years': {
+                const years = positiveNumber(value);
+                if (years && typeof skill === 'string' && skill.trim()) {
+                    constraints.push({ type, skill: skill.trim(), value: years });
+                }
+                break;
+            }
+            case 'skill_level': {
+                const level = oneOf(SKILL_LEVELS, value);
+                if (level) {
+                    constraints.push({ type, value: level, ...(typeof skill === 'string' && skill.trim() ? { skill: skill.trim() } : {}) });
+                }
+                break;
+            }
+            case 'hours_per_week': {
+                const hours = positiveNumber(value);
+                if (hours) constraints.push({ type, value: hours });
+                break;
+            }
+            case 'department':
+                if (text) constraints.push({ type, value: text });
+                break;
+            case 'availability': {
+                const status = oneOf(AVAILABILITY_STATUSES, value);
+                if (status) constraints.push({ type, value: status });
+                break;
+            }
+            case 'exclude_synthetic':
+                if (value === true || value === 'true') constraints.push({ type, value: true });
+                break;
+            case 'source_platform':
+                if (text) constraints.push({ type, value: normalizePlatform(text) });
+                break;
+        }
+    }
+
+    return constraints;
+}
+
+/**
+ * Best-effort constraint extraction used when the LLM is unavailable
+ */
+export function extractConstraintsHeuristically(rawQuery: string): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+
+    const hours = rawQuery.match(/(\d+)\s*(?:h|hrs?|hours?)\s*(?:\/|per|a|each)\s*(?:w|wk|week)\b/i);
+    if (hours) constraints.push({ type: 'hours_per_week', value: parseInt(hours[1]) });
+
+    const timezone = rawQuery.match(TIMEZONE_CODE);
+    if (timezone) constraints.push({ type: 'timezone', value: timezone[1] });
+
+    const level = oneOf(SKILL_LEVELS, rawQuery.toLowerCase().match(/\b(junior|senior)\b/)?.[1]);
+    if (level) constraints.push({ type: 'skill_level', value: level });
+
+    if (/\b(hidden|less[- ]renowned|under[- ]the[- ]radar)\b/i.test(rawQuery)) constraints.push({ type: 'renown', value: 'hidden' });
+    else if (/\b(famous|well[- ]known|popular)\b/i.test(rawQuery)) constraints.push({ type: 'renown', value: 'popular' });
+
+    if (/\b(available (?:now|immediately|right now)|currently available|only (?:the )?(?:ones? )?(?:that are |who are )?available)\b/i.test(rawQuery)) {
+        constraints.push({ type: 'availability', value: 'available' });
+    }
+
+    if (/\b(real|verified) (?:people|experts|profiles)\b|\bno (?:synthetic|generated)\b/i.test(rawQuery)) {
+        constraints.push({ type: 'exclude_synthetic', value: true });
+    }
+
+    return constraints;
+}
+
+/**
+ * Apply follow-up constraints on top of earlier ones: a new constraint
+ * replaces an earlier one of the same type (and skill, for per-skill types)
+ */
+export function mergeConstraints(previous: QueryConstraint[], added: QueryConstraint[]): QueryConstraint[] {
+    const keyOf = (c: QueryConstraint) =>
+        (c.type === 'min_years' || c.type === 'skill_level') ? `${c.type}:${(c.skill || '').toLowerCase()}` : c.type;
+    const addedKeys = new Set(added.map(keyOf));
+    return [...previous.filter(c => !addedKeys.has(keyOf(c))), ...added];
+}
+
+/**
+ * Hard constraints the Scout can evaluate inside the database query.
+ * Per-skill years and levels live in the skills array and are scored instead.
+ */
+export function constraintsToFilters(constraints: QueryConstraint[] = []): ExpertFilters {
+    const filters: ExpertFilters = {};
+
+    for (const c of constraints) {
+        switch (c.type) {
+            case 'renown':
+                if (c.value === 'popular') filters.renownLevel = ['famous', 'established'];
+                else if (c.value === 'hidden') filters.renownLevel = ['hidden', 'rising'];
+                else if (c.value === 'rising') filters.renownLevel = ['rising'];
+                break;
+            case 'timezone':
+                filters.timezone = [...new Set([...(filters.timezone || []), ...resolveTimezones(c.value)])];
+                break;
+            case 'hours_per_week':
+                filters.minHoursPerWeek = c.value;
+                break;
+            case 'department': {
+                // Stored departments are title case ("Engineering") or acronyms ("AI/ML")
+                const title = c.value.charAt(0).toUpperCase() + c.value.slice(1).toLowerCase();
+                filters.department = [...new Set([...(filters.department || []), c.value, title, c.value.toUpperCase()])];
+                break;
+            }
+            case 'availability':
+                filters.availabilityStatus = [...(filters.availabilityStatus || []), c.value];
+                break;
+            case 'exclude_synthetic':
+                filters.excludeSynthetic = true;
+                break;
+            case 'source_platform':
+                filters.sourcePlatform = [...(filters.sourcePlatform || []), c.value];
+                break;
+        }
+    }
+
+    return filters;
+}
+
+/**
+ * Human-readable label used in agent logs and match reasoning
+ */
+export function describeConstraint(c: QueryConstraint): string {
+    switch (c.type) {
+        case 'renown': return `${c.value} renown`;
+        case 'timezone': return `${c.value} timezone`;
+        case 'min_years': return `${c.value}+ years of ${c.skill}`;
+        case 'skill_level': return c.skill ? `${c.value} ${c.skill}` : `${c.value} level`;
+        case 'hours_per_week': return `${c.value}h/week available`;
+        case 'department': return `${c.value} department`;
+        case 'availability': return `${c.value} status`;
+        case 'exclude_synthetic': return 'real (non-synthetic) profile';
+        case 'source_platform': return `profile on ${c.value}`;
+    }
+}
+
+function scoreRenown(expert: Expert, requested: string): number {
+    const actual = expert.renownLevel || 'hidden';
+
+    if (requested === 'popular') {
+        if (actual === 'famous') return 1.0;
+        if (actual === 'established') return 0.8;
+        if (actual === 'rising') return 0.4;
+        return 0.1;
+    }
+
+    if (requested === 'hidden') {
+        if (actual === 'hidden') return 1.0;
+        if (actual === 'rising') return 0.7;
+        return 0.2;
+    }
+
+    if (requested === 'rising') {
+        return actual === 'rising' ? 1.0 : 0.4;
+    }
+
+    return 0.5;
+}
+
+/**
+ * How well one expert satisfies one constraint, from 0 to 1
+ */
+export function scoreConstraint(expert: Expert, c: QueryConstraint): number {
+    const findSkill = (name: string) => expert.skills.find(s => s.name.toLowerCase() === name.toLowerCase());
+
+    switch (c.type) {
+        case 'renown':
+            return scoreRenown(expert, c.value);
+        case 'timezone':
+            return resolveTimezones(c.value).includes((expert.availability?.timezone || '').toUpperCase()) ? 1 : 0;
+        case 'min_years': {
+            const skill = findSkill(c.skill);
+            return skill ? Math.min(1, skill.yearsExp / c.value) : 0;
+        }
+        case 'skill_level': {
+            const required = SKILL_LEVELS.indexOf(c.value);
+            const levels = c.skill
+                ? [findSkill(c.skill)?.level]
+                : expert.skills.map(s => s.level);
+            const best = Math.max(-1, ...levels.map(l => (l ? SKILL_LEVELS.indexOf(l) : -1)));
+            return best >= required ? 1 : (best + 1) / (required + 1);
+        }
+        case 'hours_per_week':
+            return Math.min(1, (expert.availability?.hoursPerWeek || 0) / c.value);
+        case 'department':
+            return (expert.department || '').toLowerCase() === c.value.toLowerCase() ? 1 : 0;
+        case 'availability':
+            return expert.availability?.status === c.value ? 1 : 0;
+        case 'exclude_synthetic':
+            return isSyntheticExpert(expert) ? 0 : 1;
+        case 'source_platform':
+            return expert.sources?.some(s => normalizePlatform(s.platform) === c.value) ? 1 : 0;
+    }
+}
+
+/**
+ * Average satisfaction across all constraints, plus the ones clearly not met
+ */
+export function scoreConstraints(
+    expert: Expert,
+    constraints: QueryConstraint[] = []
+): { score: number; unmet: string[] } {
+    if (constraints.length === 0) return { score: 0.5, unmet: [] };
+
+    let total = 0;
+    const unmet: string[] = [];
+
+    for (const c of constraints) {
+        const score = scoreConstraint(expert, c);
+        total += score;
+        if (score < UNMET_THRESHOLD && !(c.type === 'renown' && c.value === 'any')) {
+            unmet.push(describeConstraint(c));
+        }
+    }
+
+    return { score: total / constraints.length, unmet };
+}
@@ -0,0 +1,234 @@
+/**
+ * Embedding Provider Layer for ExpertMesh
+ * Routes embedding requests to Voyage AI, any OpenAI-compatible endpoint,
+ * or a deterministic local hashing embedder (selected via EMBEDDING_PROVIDER)
+ */
+
+import crypto from 'crypto';
+import type { EmbeddingMetadata } from './mongodb';
+import { httpFetch } from './http';
+
+const VOYAGE_API_URL = 'https://api.voyageai.com/v1/embeddings';
+const VOYAGE_DEFAULT_MODEL = 'voyage-2'; // General purpose model, 1024 dimensions
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'text-embedding-3-small';
+const DEFAULT_DIMENSIONS = 1024;
+
+export type EmbeddingProviderName = 'voyage' | 'openai' | 'local';
+
+export interface EmbeddingProvider {
+    readonly name: string;
+    readonly model: string;
+    readonly dimensions: number;
+    // Whether results are worth persisting in the embedding cache
+    readonly cacheable: boolean;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Voyage AI embeddings
+ */
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'voyage';
+    readonly cacheable = true;
+    readonly model: string;
+    readonly dimensions: number;
+    private apiKey: string;
+
+    constructor(config: { apiKey: string; model?: string; dimensions?: number }) {
+        this.apiKey = config.apiKey;
+        this.model = config.model || VOYAGE_DEFAULT_MODEL;
+        this.dimensions = config.dimensions || DEFAULT_DIMENSIONS;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await httpFetch(VOYAGE_API_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify({
+                input: texts,
+                model: this.model,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Voyage API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return readEmbeddings(data, texts.length, this.dimensions, this.name);
+    }
+}
+
+/**
+ * Any endpoint speaking the OpenAI embeddings protocol
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'openai';
+    readonly cacheable = true;
+    readonly model: string;
+    readonly dimensions: number;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(config: { baseUrl: string; apiKey?: string; model?: string; dimensions?: number }) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiKey = config.apiKey;
+        this.model = config.model || OPENAI_DEFAULT_MODEL;
+        this.dimensions = config.dimensions || DEFAULT_DIMENSIONS;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await httpFetch(`${this.baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                input: texts,
+                model: this.model,
+                dimensions: this.dimensions,
+            }),
+        }, { service: 'embeddings' });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Embedding API error: ${error}`);
+        }
+
+        const data = await response.json();
+        return readEmbeddings(data, texts.length, this.dimensions, this.name);
+    }
+}
+
+/**
+ * Deterministic offline embedder using feature hashing over
+ * log-scaled term frequencies of unigrams and bigrams
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'local';
+    readonly model = 'hashing-tf-v1';
+    readonly cacheable = false;
+    readonly dimensions: number;
+
+    constructor(config: { dimensions?: number } = {}) {
+        this.dimensions = config.dimensions || DEFAULT_DIMENSIONS;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const tokens = (text.toLowerCase().match(/[a-z0-9+#]+(?:\.[a-z0-9]+)*/g) || []);
+        const features = [...tokens];
+        for (let i = 0; i < tokens.length - 1; i++) {
+            features.push(`${tokens[i]} ${tokens[i + 1]}`);
+        }
+
+        const termFrequency = new Map<string, number>();
+        for (const feature of features) {
+            termFrequency.set(feature, (termFrequency.get(feature) || 0) + 1);
+        }
+
+        const vector = new Array<number>(this.dimensions).fill(0);
+        for (const [feature, count] of termFrequency) {
+            const digest = crypto.createHash('md5').update(feature).digest();
+            const index = digest.readUInt32LE(0) % this.dimensions;
+            const sign = digest[4] & 1 ? 1 : -1;
+            vector[index] += sign * (1 + Math.log(count));
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map(v => v / norm) : vector;
+    }
+}
+
+/**
+ * Validate an OpenAI/Voyage-style { data: [{ embedding, index }] } payload
+ */
+function readEmbeddings(data: unknown, expected: number, dimensions: number, provider: string): number[][] {
+    const items = (data as { data?: { embedding: number[]; index?: number }[] })?.data;
+    if (!Array.isArray(items) || items.length !== expected) {
+        throw new Error(`${provider} returned ${Array.isArray(items) ? items.length : 0} embeddings, expected ${expected}`);
+    }
+
+    const embeddings = [...items]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding);
+
+    for (const embedding of embeddings) {
+        if (!Array.isArray(embedding) || embedding.length !== dimensions) {
+            throw new Error(`${provider} returned a ${embedding?.length ?? 0}-dimension vector, expected ${dimensions}`);
+        }
+    }
+
+    return embeddings;
+}
+
+/**
+ * Build a provider from environment configuration
+ *
+ * EMBEDDING_PROVIDER    voyage (default) | openai | local
+ * EMBEDDING_MODEL       overrides the provider's default model
+ * EMBEDDING_DIMENSIONS  vector size (default 1024, must match the Atlas index)
+ * EMBEDDING_BASE_URL    base URL for the openai provider
+ * EMBEDDING_API_KEY     API key for the openai provider (falls back to OPENAI_API_KEY)
+ */
+export function createEmbeddingProvider(
+    name: string = process.env.EMBEDDING_PROVIDER || 'voyage'
+): EmbeddingProvider {
+    const model = process.env.EMBEDDING_MODEL || process.env.VOYAGE_MODEL;
+    const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '') || DEFAULT_DIMENSIONS;
+
+    switch (name as EmbeddingProviderName) {
+        case 'voyage': {
+            const apiKey = process.env.VOYAGE_API_KEY;
+            if (!apiKey) {
+                throw new Error('VOYAGE_API_KEY not set (use EMBEDDING_PROVIDER=local to embed offline)');
+            }
+            return new VoyageEmbeddingProvider({ apiKey, model, dimensions });
+        }
+        case 'openai':
+            return new OpenAICompatibleEmbeddingProvider({
+                baseUrl: process.env.EMBEDDING_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+                apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+                model: process.env.EMBEDDING_MODEL,
+                dimensions,
+            });
+        case 'local':
+            return new LocalHashingEmbeddingProvider({ dimensions });
+        default:
+            throw new Error(`Unknown EMBEDDING_PROVIDER: ${name}`);
+    }
+}
+
+// Active provider (lazily created from env, replaceable in tests)
+let activeProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (!activeProvider) {
+        activeProvider = createEmbeddingProvider();
+    }
+    return activeProvider;
+}
+
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+    activeProvider = provider;
+}
+
+/**
+ * Provenance record stored alongside every vector
+ */
+export function getEmbeddingMetadata(provider: EmbeddingProvider = getEmbeddingProvider()): EmbeddingMetadata {
+    return {
+        provider: provider.name,
+        model: provider.model,
+        dimensions: provider.dimensions,
+        createdAt: new Date(),
+    };
+}
@@ -1,90 +1,53 @@
 /**
- * Fireworks AI Integration for ExpertMesh
- * Powers all agent LLM inference
+ * LLM Inference for ExpertMesh
+ * Powers all agent LLM inference through the configured provider
+ * (Fireworks AI by default, see ./llm.ts)
  */
 
-const FIREWORKS_API_URL = 'https://api.fireworks.ai/inference/v1/chat/completions';
-const DEFAULT_MODEL = 'accounts/fireworks/models/llama-v3p3-70b-instruct';
+import { chatCompletion, ChatMessage, ChatOptions, LLMBudgetExceededError } from './llm';
+import { completeJSON, LLMValidationError } from './llm-json';
+import { parsedRequirementsSchema, batchExplanationSchema, teamPlanSchema, ParsedRequirements, TeamPlan } from './schemas';
+import { extractConstraintsHeuristically, mergeConstraints } from './constraints';
+import { normalizeSkillName } from './taxonomy';
 
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-}
-
-export interface FireworksResponse {
-    id: string;
-    choices: {
-        message: {
-            role: string;
-            content: string;
-        };
-        finish_reason: string;
-    }[];
-    usage: {
-        prompt_tokens: number;
-        completion_tokens: number;
-        total_tokens: number;
-    };
-}
+export type { ChatMessage, ChatOptions } from './llm';
+export type { ChatCompletionResponse as FireworksResponse } from './llm';
 
 /**
- * Call Fireworks AI for chat completion
+ * Call the active LLM provider for chat completion
  */
 export async function chat(
     messages: ChatMessage[],
-    options: {
-        model?: string;
-        temperature?: number;
-        maxTokens?: number;
-        jsonMode?: boolean;
-    } = {}
+    options: ChatOptions = {}
 ): Promise<string> {
-    const apiKey = process.env.FIREWORKS_API_KEY;
-
-    if (!apiKey) {
-        throw new Error('FIREWORKS_API_KEY not set');
-    }
-
-    const {
-        model = DEFAULT_MODEL,
-        temperature = 0.7,
-        maxTokens = 2048,
-        jsonMode = false,
-    } = options;
-
-    const response = await fetch(FIREWORKS_API_URL, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-            model,
-            messages,
-            temperature,
-            max_tokens: maxTokens,
-            response_format: jsonMode ? { type: 'json_object' } : undefined,
-        }),
-    });
-
-    if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Fireworks API error: ${error}`);
-    }
+    const completion = await chatCompletion(messages, options);
+    return completion.content;
+}
 
-    const data: FireworksResponse = await response.json();
-    return data.choices[0]?.message?.content || '';
+/**
+ * Keyword-based requirements used when the LLM is unavailable or its output
+ * cannot be validated
+ */
+export function fallbackRequirements(rawQuery: string): ParsedRequirements {
+    return {
+        skills: rawQuery.toLowerCase().split(/\s+/)
+            .filter(w => w.length > 3)
+            .filter(w => !['find', 'need', 'want', 'looking', 'expert', 'developer', 'professional', 'professionals'].includes(w))
+            .slice(0, 3)
+            .map(name => ({ name: name.charAt(0).toUpperCase() + name.slice(1), weight: 0.8 })),
+        constraints: extractConstraintsHeuristically(rawQuery),
+        intent: 'technical_hire',
+        summary: rawQuery,
+    };
 }
 
 /**
- * Parse a query to extract structured requirements
+ * Parse a query to extract structured requirements.
+ * Throws LLMValidationError if the model never produces valid output and
+ * LLMBudgetExceededError once the request budget is spent; other failures
+ * fall back to keyword extraction.
  */
-export async function parseQuery(rawQuery: string): Promise<{
-    skills: { name: string; weight: number }[];
-    constraints: { type: string; value: string }[];
-    intent: string;
-    summary: string;
-}> {
+export async function parseQuery(rawQuery: string): Promise<ParsedRequirements> {
     const systemPrompt = `You are a query parser for an expert matching system. 
 Extract structured requirements from natural language queries.
 
@@ -95,61 +58,266 @@ Respond ONLY with valid JSON in this exact format:
   "intent": "technical_hire",
   "summary": "One sentence summary"
 }
+Only include constraints the user actually states. Allowed constraint types:
+- {"type": "renown", "value": "popular | hidden | rising | any"}
+- {"type": "timezone", "value": "timezone code (PST, EST, CET, IST...) or region (americas, europe, apac)"}
+- {"type": "min_years", "skill": "skill name", "value": 5}
+- {"type": "skill_level", "skill": "optional skill name", "value": "junior | mid | senior | expert"}
+- {"type": "hours_per_week", "value": 20}
+- {"type": "department", "value": "department name"}
+- {"type": "availability", "value": "available | busy | unavailable"}
+- {"type": "exclude_synthetic", "value": true}
+- {"type": "source_platform", "value": "github | stackoverflow"}
 If the user asks for 'well-known', 'famous', or 'popular' people, set renown to 'popular'.
-If the user asks for 'less-renowned', 'hidden', or 'unknown' people, set renown to 'hidden'.`;
+If the user asks for 'less-renowned', 'hidden', or 'unknown' people, set renown to 'hidden'.
+If the user asks for real or verified people only, add exclude_synthetic.`;
 
-    const defaultResult = {
-        skills: rawQuery.toLowerCase().split(/\s+/)
-            .filter(w => w.length > 3)
-            .filter(w => !['find', 'need', 'want', 'looking', 'expert', 'developer', 'professional', 'professionals'].includes(w))
-            .slice(0, 3)
-            .map(name => ({ name: name.charAt(0).toUpperCase() + name.slice(1), weight: 0.8 })),
-        constraints: [],
-        intent: 'technical_hire',
+    try {
+        const parsed = await completeJSON(
+            [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: rawQuery },
+            ],
+            parsedRequirementsSchema,
+            { schema: 'parsed_requirements', caller: 'parseQuery', temperature: 0.3 }
+        );
+
+        return canonicalizeRequirements({ ...parsed, summary: parsed.summary || rawQuery });
+    } catch (error) {
+        if (error instanceof LLMValidationError || error instanceof LLMBudgetExceededError) throw error;
+        console.log('parseQuery fallback:', error);
+        return canonicalizeRequirements(fallbackRequirements(rawQuery));
+    }
+}
+
+// Requirements stored on an earlier query (summary may be missing on older records)
+type PreviousRequirements = Omit<ParsedRequirements, 'summary'> & { summary?: string };
+
+// A previous result the follow-up can refer to
+export interface RefinementResult {
+    name: string;
+    title: string;
+    skills: string[];
+}
+
+/**
+ * Keyword-based refinement used when the LLM is unavailable: merge any
+ * heuristic constraints and borrow the skills of a referenced result
+ */
+export function fallbackRefinement(
+    previous: PreviousRequirements,
+    refinement: string,
+    referenced?: RefinementResult | null
+): ParsedRequirements {
+    const skills = [...previous.skills];
+    for (const name of referenced?.skills.slice(0, 3) || []) {
+        if (!skills.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+            skills.push({ name, weight: 0.6 });
+        }
+    }
+
+    return {
+        ...previous,
+        skills,
+        constraints: mergeConstraints(previous.constraints, extractConstraintsHeuristically(refinement)),
+        summary: `${previous.summary || ''} (refined: ${refinement})`.trim(),
+    };
+}
+
+/**
+ * Merge a conversational follow-up into the previous turn's requirements.
+ * Throws LLMValidationError if the model never produces valid output and
+ * LLMBudgetExceededError once the request budget is spent; other failures
+ * fall back to fallbackRefinement.
+ */
+export async function refineRequirements(
+    previous: PreviousRequirements,
+    refinement: string,
+    context: { results: RefinementResult[]; referenced?: RefinementResult | null }
+): Promise<ParsedRequirements> {
+    const systemPrompt = `You are refining an expert search based on the user's follow-up message.
+You are given the current structured requirements and the results shown to the user.
+Apply the follow-up to the current requirements and return the COMPLETE updated requirements:
+- Keep existing skills and constraints unless the follow-up changes or removes them.
+- "Only ones available now" adds {"type": "availability", "value": "available"}.
+- "More like the second one" adds that result's key skills (weight 0.6) to the skills.
+- A new constraint replaces an existing constraint of the same type.
+
+Respond ONLY with valid JSON in the same format as the current requirements:
+{
+  "skills": [{"name": "skill name", "weight": 0.8}],
+  "constraints": [{"type": "...", "value": "..."}],
+  "intent": "technical_hire",
+  "summary": "One sentence summary of the refined search"
+}`;
+
+    const resultsText = context.results
+        .map((r, i) => `${i + 1}. ${r.name}, ${r.title} (${r.skills.slice(0, 5).join(', ')})`)
+        .join('\n');
+
+    try {
+        const refined = await completeJSON(
+            [
+                { role: 'system', content: systemPrompt },
+                {
+                    role: 'user',
+                    content: `Current requirements:\n${JSON.stringify(previous)}\n\nResults shown:\n${resultsText || 'none'}\n\nFollow-up: "${refinement}"`,
+                },
+            ],
+            parsedRequirementsSchema,
+            { schema: 'refined_requirements', caller: 'refineRequirements', temperature: 0.2 }
+        );
+
+        // The model may drop what it was not told to change; keep the previous skills in that case
+        return canonicalizeRequirements({
+            ...refined,
+            skills: refined.skills.length > 0 ? refined.skills : previous.skills,
+            summary: refined.summary || previous.summary || refinement,
+        });
+    } catch (error) {
+        if (error instanceof LLMValidationError || error instanceof LLMBudgetExceededError) throw error;
+        console.log('refineRequirements fallback:', error);
+        return canonicalizeRequirements(fallbackRefinement(previous, refinement, context.referenced));
+    }
+}
+
+// Words that describe the person rather than the skill a role needs
+const ROLE_FILLER = /\b(i|we|need|find|want|hire|looking|a|an|one|two|three|some|experts?|engineers?|developers?|specialists?|people|person|lead|someone)\b/gi;
+
+/**
+ * Split a team request ("backend + ML + security for a HIPAA project") into
+ * one role per listed area, used when the LLM is unavailable
+ */
+export function fallbackTeamPlan(rawQuery: string): TeamPlan {
+    const request = rawQuery
+        .replace(/^.*?\b(?:team|squad|group)\s+(?:of|with)\b/i, '')
+        .split(/\s+(?:for|on|to)\s+/i)[0];
+
+    const roles = request.split(/\s*(?:\+|,|&|\band\b)\s*/i)
+        .map(part => part.replace(ROLE_FILLER, ' ').replace(/\s+/g, ' ').trim())
+        .filter(part => part.length > 1)
+        .slice(0, 8)
+        .map(part => ({
+            title: part.charAt(0).toUpperCase() + part.slice(1),
+            skills: [{ name: part.charAt(0).toUpperCase() + part.slice(1), weight: 1 }],
+            hoursPerWeek: undefined,
+        }));
+
+    const plan = roles.length > 0 ? roles : fallbackRequirements(rawQuery).skills.map(skill => ({
+        title: skill.name,
+        skills: [skill],
+        hoursPerWeek: undefined,
+    }));
+
+    return {
+        roles: plan,
+        constraints: extractConstraintsHeuristically(rawQuery),
         summary: rawQuery,
     };
+}
+
+/**
+ * Decompose a team request into roles, each with the skills it must cover.
+ * Throws LLMValidationError if the model never produces valid output and
+ * LLMBudgetExceededError once the request budget is spent; other failures
+ * fall back to fallbackTeamPlan.
+ */
+export async function decomposeTeam(rawQuery: string): Promise<TeamPlan> {
+    const systemPrompt = `You are staffing a project team for an expert matching system.
+Break the request into the distinct roles the team needs (usually 2-5).
+Give each role the specific skills it must cover, weighted by importance.
+Spread skills across roles instead of repeating them, and add skills the project
+context implies (e.g. "HIPAA" implies compliance and data security skills).
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "roles": [{"title": "Backend Engineer", "skills": [{"name": "Node.js", "weight": 0.9}], "hoursPerWeek": 20}],
+  "constraints": [{"type": "timezone", "value": "europe"}],
+  "summary": "One sentence summary of the team"
+}
+Only include hoursPerWeek when the request states it for that role.
+Constraints apply to every member and use the same types as search queries:
+renown, timezone, min_years, skill_level, hours_per_week, department, availability,
+exclude_synthetic, source_platform. Only include constraints the user actually states.`;
 
     try {
-        const response = await chat(
+        const plan = await completeJSON(
             [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: rawQuery },
             ],
-            { jsonMode: true, temperature: 0.3 }
+            teamPlanSchema,
+            { schema: 'team_plan', caller: 'decomposeTeam', temperature: 0.3 }
         );
 
-        const parsed = JSON.parse(response);
-
-        // Validate structure
-        return {
-            skills: Array.isArray(parsed?.skills) ? parsed.skills : defaultResult.skills,
-            constraints: Array.isArray(parsed?.constraints) ? parsed.constraints : [],
-            intent: parsed?.intent || 'technical_hire',
-            summary: parsed?.summary || rawQuery,
-        };
+        return canonicalizeTeamPlan({ ...plan, summary: plan.summary || rawQuery });
     } catch (error) {
-        console.log('parseQuery fallback:', error);
-        return defaultResult;
+        if (error instanceof LLMValidationError || error instanceof LLMBudgetExceededError) throw error;
+        console.log('decomposeTeam fallback:', error);
+        return canonicalizeTeamPlan(fallbackTeamPlan(rawQuery));
+    }
+}
+
+/**
+ * Canonicalize every role's skills and the shared constraints
+ */
+export async function canonicalizeTeamPlan(plan: TeamPlan): Promise<TeamPlan> {
+    const shared = await canonicalizeRequirements({ skills: [], constraints: plan.constraints, intent: 'team', summary: plan.summary });
+    const roles = await Promise.all(plan.roles.map(async role => ({
+        ...role,
+        skills: (await canonicalizeRequirements({ skills: role.skills, constraints: [], intent: 'team', summary: '' })).skills,
+    })));
+
+    return { ...plan, roles, constraints: shared.constraints };
+}
+
+/**
+ * Map requested skill names (including those inside constraints) onto the
+ * skill taxonomy so they compare equal to ingested profiles
+ */
+export async function canonicalizeRequirements(requirements: ParsedRequirements): Promise<ParsedRequirements> {
+    const skills = new Map<string, { name: string; weight: number }>();
+    for (const skill of requirements.skills) {
+        const name = await normalizeSkillName(skill.name);
+        const existing = skills.get(name);
+        skills.set(name, { name, weight: Math.max(skill.weight, existing?.weight || 0) });
     }
+
+    const constraints = await Promise.all(requirements.constraints.map(async c =>
+        (c.type === 'min_years' || c.type === 'skill_level') && c.skill
+            ? { ...c, skill: await normalizeSkillName(c.skill) }
+            : c
+    ));
+
+    return { ...requirements, skills: [...skills.values()], constraints };
 }
 
 /**
- * Generate a recommendation explanation
+ * Generate explanations for several matches in a single call.
+ * Entries the model skips come back as undefined so callers can fall back.
  */
-export async function generateExplanation(
+export async function generateExplanations(
     query: string,
-    expert: { name: string; title: string; skills: { name: string }[] },
-    matchScore: number
-): Promise<string[]> {
-    const systemPrompt = `You are explaining why an expert matches a query.
-Generate 2-3 bullet points explaining the match.
+    matches: { expert: { name: string; title: string; skills: { name: string }[] }; matchScore: number }[]
+): Promise<(string[] | undefined)[]> {
+    const systemPrompt = `You are explaining why experts match a query.
+For EACH expert, generate 2-3 bullet points explaining the match.
 Be specific and reference both the query requirements and expert skills.
-Start each point with an emoji (✅ for match, ⚠️ for partial).`;
+Start each point with an emoji (✅ for match, ⚠️ for partial).
+
+Respond ONLY with valid JSON in this exact format:
+{ "explanations": [{ "index": 0, "points": ["✅ First point", "⚠️ Second point"] }] }
+Include one entry per expert, using the expert's index.`;
+
+    const experts = matches.map(({ expert, matchScore }, index) =>
+        `[${index}] ${expert.name}, ${expert.title}\nSkills: ${expert.skills.map(s => s.name).join(', ')}\nMatch Score: ${(matchScore * 100).toFixed(0)}%`
+    ).join('\n\n');
 
-    const response = await chat([
+    const { explanations } = await completeJSON([
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Query: "${query}"\n\nExpert: ${expert.name}, ${expert.title}\nSkills: ${expert.skills.map(s => s.name).join(', ')}\nMatch Score: ${(matchScore * 100).toFixed(0)}%` },
-    ], { temperature: 0.7 });
+        { role: 'user', content: `Query: "${query}"\n\nExperts:\n${experts}` },
+    ], batchExplanationSchema, { schema: 'batch_explanation', caller: 'generateExplanations', temperature: 0.7 });
 
-    return response.split('\n').filter(line => line.trim().length > 0);
+    const byIndex = new Map(explanations.map(e => [e.index, e.points]));
+    return matches.map((_, index) => byIndex.get(index));
 }
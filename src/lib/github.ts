@@ -3,6 +3,8 @@
  * Fetches real developer profiles from GitHub
  */
 
+import { httpFetch, NotFoundError } from './http';
+
 const GITHUB_API_BASE = 'https://api.github.com';
 
 interface GitHubUser {
@@ -62,7 +64,7 @@ export async function searchDevelopers(
 
     console.log(`🔍 Searching GitHub for ${language} developers with ${minFollowers}+ followers...`);
 
-    const response = await fetch(url, { headers: getHeaders() });
+    const response = await httpFetch(url, { headers: getHeaders() });
 
     if (!response.ok) {
         const error = await response.text();
@@ -77,8 +79,6 @@ export async function searchDevelopers(
         try {
             const user = await getUserDetails(item.login);
             users.push(user);
-            // Small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 100));
         } catch (error) {
             console.warn(`Failed to get details for ${item.login}:`, error);
         }
@@ -105,7 +105,7 @@ export async function searchHiddenTalents(
 
     console.log(`🔍 Searching GitHub for hidden ${language} talents (${minFollowers}-${maxFollowers} followers, ${minRepos}+ repos)...`);
 
-    const response = await fetch(url, { headers: getHeaders() });
+    const response = await httpFetch(url, { headers: getHeaders() });
 
     if (!response.ok) {
         const error = await response.text();
@@ -120,8 +120,6 @@ export async function searchHiddenTalents(
         try {
             const user = await getUserDetails(item.login);
             users.push(user);
-            // Small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 100));
         } catch (error) {
             console.warn(`Failed to get details for ${item.login}:`, error);
         }
@@ -131,15 +129,26 @@ export async function searchHiddenTalents(
     return users;
 }
 
+/**
+ * Username from a profile URL ("https://github.com/octocat" -> "octocat")
+ */
+export function parseGitHubUsername(profileUrl: string): string | null {
+    const match = profileUrl.match(/github\.com\/([A-Za-z0-9-]+)\/?(?:[?#].*)?$/i);
+    return match ? match[1] : null;
+}
+
 /**
  * Get detailed user profile
  */
 export async function getUserDetails(username: string): Promise<GitHubUser> {
     const url = `${GITHUB_API_BASE}/users/${username}`;
-    const response = await fetch(url, { headers: getHeaders() });
+    const response = await httpFetch(url, { headers: getHeaders() });
 
+    if (response.status === 404) {
+        throw new NotFoundError('github', `user ${username}`);
+    }
     if (!response.ok) {
-        throw new Error(`Failed to fetch user ${username}`);
+        throw new Error(`Failed to fetch user ${username}: ${response.status} ${response.statusText}`);
     }
 
     return response.json();
@@ -150,10 +159,13 @@ export async function getUserDetails(username: string): Promise<GitHubUser> {
  */
 export async function getUserRepos(username: string, limit: number = 30): Promise<GitHubRepo[]> {
     const url = `${GITHUB_API_BASE}/users/${username}/repos?sort=stars&per_page=${limit}`;
-    const response = await fetch(url, { headers: getHeaders() });
+    const response = await httpFetch(url, { headers: getHeaders() });
 
+    if (response.status === 404) {
+        throw new NotFoundError('github', `user ${username}`);
+    }
     if (!response.ok) {
-        throw new Error(`Failed to fetch repos for ${username}`);
+        throw new Error(`Failed to fetch repos for ${username}: ${response.status} ${response.statusText}`);
     }
 
     return response.json();
@@ -332,7 +344,7 @@ export async function checkRateLimit(): Promise<{
     remaining: number;
     reset: Date;
 }> {
-    const response = await fetch(`${GITHUB_API_BASE}/rate_limit`, { headers: getHeaders() });
+    const response = await httpFetch(`${GITHUB_API_BASE}/rate_limit`, { headers: getHeaders() });
     const data = await response.json();
 
     return {
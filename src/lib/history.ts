@@ -0,0 +1,244 @@
+/**
+ * Query History for ExpertMesh
+ * Reads past runs back from the queries and agent_tasks collections, and
+ * replays a query against the current expert pool with a diff of the results.
+ */
+
+import { ObjectId, Filter } from 'mongodb';
+import { getDb, COLLECTIONS, Query, AgentTask, Expert } from './mongodb';
+import { OrchestratorAgent, OrchestratorResult, TeamOrchestratorResult } from './agents';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface QueryHistoryFilters {
+    status?: Query['status'];
+    from?: Date;
+    to?: Date;
+    text?: string; // Case-insensitive substring of rawQuery
+    limit?: number;
+    skip?: number;
+}
+
+export interface QuerySummary {
+    queryId: string;
+    rawQuery: string;
+    status: Query['status'];
+    mode?: Query['mode'];
+    sessionId?: string;
+    refinementOf?: string;
+    replayOf?: string;
+    resultCount: number;
+    createdAt: Date;
+    completedAt?: Date;
+}
+
+// One returned expert as it was ranked (expert is null once deleted from the pool)
+export interface HistoricalResult {
+    expertId: string;
+    rank: number;
+    matchScore?: number;
+    features?: Record<string, number>;
+    expert: Omit<Expert, 'skillVector'> | null;
+}
+
+export interface QueryDetail {
+    query: Query;
+    task: AgentTask | null;
+    results: HistoricalResult[];
+}
+
+export interface DiffEntry {
+    expertId: string;
+    name?: string;
+    rank?: number;         // Rank in the replay
+    previousRank?: number; // Rank in the original run
+    matchScore?: number;
+    previousScore?: number;
+}
+
+export interface ResultDiff {
+    added: DiffEntry[];
+    removed: (DiffEntry & { inPool: boolean })[]; // inPool false: deleted since the original run
+    moved: DiffEntry[];
+    unchanged: DiffEntry[];
+}
+
+export interface ReplayResult {
+    original: QuerySummary;
+    replay: OrchestratorResult | TeamOrchestratorResult;
+    diff: ResultDiff;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toObjectId(id: string): ObjectId | string {
+    return ObjectId.isValid(id) ? new ObjectId(id) : id;
+}
+
+function summarize(query: Query): QuerySummary {
+    return {
+        queryId: query.queryId,
+        rawQuery: query.rawQuery,
+        status: query.status,
+        ...(query.mode ? { mode: query.mode } : {}),
+        ...(query.sessionId ? { sessionId: query.sessionId } : {}),
+        ...(query.refinementOf ? { refinementOf: query.refinementOf } : {}),
+        ...(query.replayOf ? { replayOf: query.replayOf } : {}),
+        resultCount: query.results?.length || 0,
+        createdAt: query.createdAt,
+        ...(query.completedAt ? { completedAt: query.completedAt } : {}),
+    };
+}
+
+/**
+ * Past queries, newest first
+ */
+export async function listQueries(filters: QueryHistoryFilters = {}): Promise<{ total: number; queries: QuerySummary[] }> {
+    const db = await getDb();
+    const queries = db.collection<Query>(COLLECTIONS.QUERIES);
+
+    const filter: Filter<Query> = {};
+    if (filters.status) filter.status = filters.status;
+    if (filters.from || filters.to) {
+        filter.createdAt = {
+            ...(filters.from ? { $gte: filters.from } : {}),
+            ...(filters.to ? { $lte: filters.to } : {}),
+        };
+    }
+    if (filters.text?.trim()) filter.rawQuery = { $regex: escapeRegex(filters.text.trim()), $options: 'i' };
+
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, filters.limit || DEFAULT_PAGE_SIZE));
+
+    const [total, docs] = await Promise.all([
+        queries.countDocuments(filter),
+        queries.find(filter, { projection: { agentConversation: 0, rankings: 0, parsedRequirements: 0 } })
+            .sort({ createdAt: -1 })
+            .skip(Math.max(0, filters.skip || 0))
+            .limit(limit)
+            .toArray(),
+    ]);
+
+    return { total, queries: docs.map(summarize) };
+}
+
+/**
+ * Full record of one query: conversation, requirements, task and the
+ * returned experts in rank order
+ */
+export async function getQueryDetail(queryId: string): Promise<QueryDetail | null> {
+    const db = await getDb();
+    const query = await db.collection<Query>(COLLECTIONS.QUERIES).findOne({ queryId }, { projection: { _id: 0 } });
+    if (!query) return null;
+
+    const ids = (query.results || []).filter(Boolean);
+    const [task, experts] = await Promise.all([
+        db.collection<AgentTask>(COLLECTIONS.AGENT_TASKS).findOne({ queryId }, { projection: { _id: 0 } }),
+        db.collection(COLLECTIONS.EXPERTS)
+            .find({ _id: { $in: ids.map(toObjectId) as ObjectId[] } })
+            .project({ skillVector: 0 })
+            .toArray(),
+    ]);
+
+    const byId = new Map(experts.map(e => [String(e._id), { ...e, _id: String(e._id) } as Omit<Expert, 'skillVector'>]));
+    const rankings = new Map((query.rankings || []).map(r => [r.expertId, r]));
+
+    return {
+        query,
+        task,
+        results: ids.map((expertId, i) => ({
+            expertId,
+            rank: i + 1,
+            matchScore: rankings.get(expertId)?.matchScore,
+            features: rankings.get(expertId)?.features,
+            expert: byId.get(expertId) || null,
+        })),
+    };
+}
+
+/**
+ * What changed between two ranked result lists
+ */
+export function diffResults(
+    before: DiffEntry[],
+    after: DiffEntry[],
+    stillInPool: Set<string>
+): ResultDiff {
+    const previous = new Map(before.map(e => [e.expertId, e]));
+    const current = new Set(after.map(e => e.expertId));
+    const diff: ResultDiff = { added: [], removed: [], moved: [], unchanged: [] };
+
+    for (const entry of after) {
+        const old = previous.get(entry.expertId);
+        if (!old) {
+            diff.added.push(entry);
+            continue;
+        }
+        const merged = { ...entry, previousRank: old.rank, previousScore: old.matchScore };
+        (old.rank === entry.rank ? diff.unchanged : diff.moved).push(merged);
+    }
+
+    for (const entry of before) {
+        if (current.has(entry.expertId)) continue;
+        diff.removed.push({
+            expertId: entry.expertId,
+            name: entry.name,
+            previousRank: entry.rank,
+            previousScore: entry.matchScore,
+            inPool: stillInPool.has(entry.expertId),
+        });
+    }
+
+    return diff;
+}
+
+/**
+ * Re-run a past query against the current pool. Regular searches reuse the
+ * original requirements so only the pool (and ranker) can change the outcome;
+ * team queries are re-planned. Returns null if the query is unknown.
+ */
+export async function replayQuery(queryId: string): Promise<ReplayResult | null> {
+    const detail = await getQueryDetail(queryId);
+    if (!detail) return null;
+
+    const { query, results } = detail;
+    const orchestrator = new OrchestratorAgent();
+
+    let replay: OrchestratorResult | TeamOrchestratorResult;
+    let after: DiffEntry[];
+    if (query.mode === 'team') {
+        const team = await orchestrator.processTeamQuery(query.rawQuery, { replayOf: queryId });
+        replay = team;
+        after = team.team.members.map((m, i) => ({
+            expertId: String(m.expert._id || ''),
+            name: m.expert.name,
+            rank: i + 1,
+            matchScore: m.score,
+        }));
+    } else {
+        const result = await orchestrator.processQuery(query.rawQuery, {
+            requirements: query.parsedRequirements,
+            searchText: query.searchText,
+            replayOf: queryId,
+        });
+        replay = result;
+        after = result.matches.map((m, i) => ({
+            expertId: String(m.expert._id || ''),
+            name: m.expert.name,
+            rank: i + 1,
+            matchScore: m.matchScore,
+        }));
+    }
+
+    const before = results.map(r => ({
+        expertId: r.expertId,
+        name: r.expert?.name,
+        rank: r.rank,
+        matchScore: r.matchScore,
+    }));
+    const stillInPool = new Set(results.filter(r => r.expert).map(r => r.expertId));
+
+    return { original: summarize(query), replay, diff: diffResults(before, after, stillInPool) };
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    httpFetch,
+    setHttpTransport,
+    configureHttpService,
+    resetHttpClient,
+    getCircuitStates,
+    createFixtureTransport,
+    CircuitOpenError,
+    RateLimitedError,
+    HttpTimeoutError,
+    HttpTransport,
+} from './http';
+
+const USER_URL = 'https://api.github.com/users/octocat';
+const SE_URL = 'https://api.stackexchange.com/2.3/users/1?site=stackoverflow';
+
+/**
+ * Transport answering with the given responses in order (the last repeats),
+ * recording every requested URL
+ */
+function scriptedTransport(...responses: (() => Response)[]): HttpTransport & { calls: string[] } {
+    const calls: string[] = [];
+    const transport = async (url: string) => {
+        calls.push(url);
+        return responses[Math.min(calls.length, responses.length) - 1]();
+    };
+    return Object.assign(transport, { calls });
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    for (const service of ['github', 'stackexchange']) {
+        configureHttpService(service, { baseBackoffMs: 1, maxRetries: 2, breakerThreshold: 3, breakerCooldownMs: 60_000 });
+    }
+});
+
+afterEach(() => {
+    resetHttpClient();
+    vi.restoreAllMocks();
+});
+
+describe('httpFetch retries', () => {
+    it('retries 5xx responses and returns the first success', async () => {
+        const transport = scriptedTransport(json({}, 503), json({}, 502), json({ login: 'octocat' }));
+        setHttpTransport(transport);
+
+        const response = await httpFetch(USER_URL);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ login: 'octocat' });
+        expect(transport.calls).toHaveLength(3);
+        expect(getCircuitStates()).toEqual([{ service: 'github', state: 'closed', failures: 0 }]);
+    });
+
+    it('returns the last retryable response once retries run out', async () => {
+        const transport = scriptedTransport(json({ message: 'unavailable' }, 503));
+        setHttpTransport(transport);
+
+        const response = await httpFetch(USER_URL);
+
+        expect(response.status).toBe(503);
+        expect(transport.calls).toHaveLength(3);
+        expect(getCircuitStates()).toEqual([{ service: 'github', state: 'closed', failures: 1 }]);
+    });
+
+    it('does not retry other 4xx responses', async () => {
+        const transport = scriptedTransport(json({ message: 'Not Found' }, 404));
+        setHttpTransport(transport);
+
+        const response = await httpFetch(USER_URL);
+
+        expect(response.status).toBe(404);
+        expect(transport.calls).toHaveLength(1);
+    });
+
+    it('retries timed out attempts and throws HttpTimeoutError when they all time out', async () => {
+        configureHttpService('github', { timeoutMs: 20, maxRetries: 1 });
+        let attempts = 0;
+        setHttpTransport((_url, init) => new Promise((_resolve, reject) => {
+            attempts++;
+            init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+        }));
+
+        await expect(httpFetch(USER_URL)).rejects.toBeInstanceOf(HttpTimeoutError);
+        expect(attempts).toBe(2);
+    });
+});
+
+describe('httpFetch rate limits', () => {
+    it('waits out a short Retry-After before retrying', async () => {
+        const transport = scriptedTransport(json({}, 429, { 'Retry-After': '0.05' }), json({ ok: true }));
+        setHttpTransport(transport);
+
+        const started = Date.now();
+        const response = await httpFetch(USER_URL);
+
+        expect(response.status).toBe(200);
+        expect(transport.calls).toHaveLength(2);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    });
+
+    it('throws RateLimitedError when the GitHub limit resets after maxWaitMs', async () => {
+        configureHttpService('github', { maxWaitMs: 1000 });
+        const reset = Math.ceil(Date.now() / 1000) + 3600;
+        const transport = scriptedTransport(json({ message: 'API rate limit exceeded' }, 403, {
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': String(reset),
+        }));
+        setHttpTransport(transport);
+
+        const error = await httpFetch(USER_URL).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect((error as RateLimitedError).retryAt.getTime()).toBe(reset * 1000);
+        expect(transport.calls).toHaveLength(1);
+
+        // Later calls fail fast without touching the network
+        await expect(httpFetch(USER_URL)).rejects.toBeInstanceOf(RateLimitedError);
+        expect(transport.calls).toHaveLength(1);
+    });
+
+    it('honors the Stack Exchange backoff field on successful responses', async () => {
+        configureHttpService('stackexchange', { maxWaitMs: 1000 });
+        const transport = scriptedTransport(json({ items: [{ user_id: 1 }], backoff: 120 }));
+        setHttpTransport(transport);
+
+        const response = await httpFetch(SE_URL);
+        expect(response.status).toBe(200);
+
+        await expect(httpFetch(SE_URL)).rejects.toBeInstanceOf(RateLimitedError);
+        expect(transport.calls).toHaveLength(1);
+    });
+});
+
+describe('httpFetch circuit breaker', () => {
+    it('opens after breakerThreshold consecutive failures and rejects without calling out', async () => {
+        configureHttpService('github', { maxRetries: 0 });
+        const transport = scriptedTransport(json({}, 500));
+        setHttpTransport(transport);
+
+        for (let i = 0; i < 3; i++) {
+            expect((await httpFetch(USER_URL)).status).toBe(500);
+        }
+
+        const [state] = getCircuitStates();
+        expect(state).toMatchObject({ service: 'github', state: 'open', failures: 3 });
+
+        await expect(httpFetch(USER_URL)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(transport.calls).toHaveLength(3);
+    });
+
+    it('lets a trial request through after the cooldown and closes on success', async () => {
+        configureHttpService('github', { maxRetries: 0, breakerThreshold: 1, breakerCooldownMs: 30 });
+        const transport = scriptedTransport(json({}, 500), json({ login: 'octocat' }));
+        setHttpTransport(transport);
+
+        await httpFetch(USER_URL);
+        await expect(httpFetch(USER_URL)).rejects.toBeInstanceOf(CircuitOpenError);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(getCircuitStates()[0].state).toBe('half-open');
+
+        expect((await httpFetch(USER_URL)).status).toBe(200);
+        expect(getCircuitStates()[0]).toEqual({ service: 'github', state: 'closed', failures: 0 });
+    });
+
+    it('keeps separate circuits per service', async () => {
+        configureHttpService('github', { maxRetries: 0, breakerThreshold: 1 });
+        setHttpTransport(createFixtureTransport([
+            { match: 'api\\.github\\.com', status: 500, body: {} },
+            { match: 'api\\.stackexchange\\.com', body: { items: [] } },
+        ]));
+
+        await httpFetch(USER_URL);
+        await expect(httpFetch(USER_URL)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect((await httpFetch(SE_URL)).status).toBe(200);
+    });
+});
@@ -0,0 +1,372 @@
+/**
+ * Outbound HTTP for ExpertMesh
+ * Every external API (GitHub, Stack Exchange, the LLM and embedding
+ * providers) is called through httpFetch, which applies per-service
+ * timeouts, retries 429/5xx with exponential backoff (honoring Retry-After,
+ * GitHub rate-limit headers and Stack Exchange `backoff`), and opens a
+ * circuit after repeated failures so callers drop to their local fallbacks
+ * without waiting. Tests and offline demos swap in a fake transport
+ * (HTTP_MOCK_FIXTURES or setHttpTransport).
+ */
+
+import fs from 'fs';
+
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * A canned response for the fixture transport.
+ * `match` is a case-insensitive regex tested against the request URL;
+ * the first matching fixture wins. Object bodies are serialized as JSON.
+ */
+export interface HttpFixture {
+    match: string;
+    status?: number;
+    headers?: Record<string, string>;
+    body: string | Record<string, unknown> | unknown[];
+}
+
+/**
+ * Transport that answers from fixtures and 404s everything else
+ */
+export function createFixtureTransport(fixtures: HttpFixture[]): HttpTransport {
+    return async (url) => {
+        const fixture = fixtures.find(f => new RegExp(f.match, 'i').test(url));
+        if (!fixture) {
+            return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+        }
+
+        const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+        return new Response(body, {
+            status: fixture.status || 200,
+            headers: { 'Content-Type': 'application/json', ...fixture.headers },
+        });
+    };
+}
+
+/**
+ * Load fixtures from the JSON file at HTTP_MOCK_FIXTURES (if set)
+ */
+function loadHttpFixtures(): HttpFixture[] | null {
+    const fixturesPath = process.env.HTTP_MOCK_FIXTURES;
+    if (!fixturesPath) return null;
+
+    const parsed = JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+    if (!Array.isArray(parsed)) {
+        throw new Error(`HTTP_MOCK_FIXTURES must contain a JSON array: ${fixturesPath}`);
+    }
+    return parsed as HttpFixture[];
+}
+
+// Services HTTP_MOCK_FIXTURES answers for; LLM and embedding calls keep the network
+const FIXTURE_SERVICES = new Set(['github', 'stackexchange']);
+
+const SERVICE_HOSTS: Record<string, string> = {
+    'api.github.com': 'github',
+    'api.stackexchange.com': 'stackexchange',
+    'api.fireworks.ai': 'fireworks',
+    'api.voyageai.com': 'voyage',
+    'api.openai.com': 'openai',
+};
+
+export interface ServicePolicy {
+    timeoutMs: number;         // Per attempt
+    maxRetries: number;        // Extra attempts after 429, 5xx, timeouts and network errors
+    baseBackoffMs: number;     // Doubled on each retry
+    maxWaitMs: number;         // Longest wait honored; longer rate limits fail fast
+    breakerThreshold: number;  // Consecutive failures that open the circuit
+    breakerCooldownMs: number; // How long an open circuit rejects calls before a trial request
+}
+
+const DEFAULT_POLICY: ServicePolicy = {
+    timeoutMs: 15_000,
+    maxRetries: 2,
+    baseBackoffMs: 500,
+    maxWaitMs: 30_000,
+    breakerThreshold: 5,
+    breakerCooldownMs: 30_000,
+};
+
+const SERVICE_POLICIES: Record<string, Partial<ServicePolicy>> = {
+    github: { timeoutMs: 10_000, maxRetries: 3, baseBackoffMs: 1000, maxWaitMs: 60_000 },
+    stackexchange: { timeoutMs: 10_000, maxRetries: 3, baseBackoffMs: 1000, maxWaitMs: 60_000 },
+    fireworks: { timeoutMs: 60_000, baseBackoffMs: 1000 },
+    openai: { timeoutMs: 60_000, baseBackoffMs: 1000 },
+    voyage: { timeoutMs: 30_000, maxRetries: 3 },
+};
+
+const ENV_KEYS: Partial<Record<keyof ServicePolicy, string>> = {
+    timeoutMs: 'HTTP_TIMEOUT_MS',
+    maxRetries: 'HTTP_MAX_RETRIES',
+    breakerThreshold: 'HTTP_BREAKER_THRESHOLD',
+    breakerCooldownMs: 'HTTP_BREAKER_COOLDOWN_MS',
+};
+
+export class CircuitOpenError extends Error {
+    readonly service: string;
+    readonly retryAt: Date;
+
+    constructor(service: string, retryAt: Date) {
+        super(`${service} circuit open after repeated failures; retrying after ${retryAt.toISOString()}`);
+        this.name = 'CircuitOpenError';
+        this.service = service;
+        this.retryAt = retryAt;
+    }
+}
+
+export class RateLimitedError extends Error {
+    readonly service: string;
+    readonly retryAt: Date;
+
+    constructor(service: string, retryAt: Date) {
+        super(`${service} rate limit in effect until ${retryAt.toISOString()}`);
+        this.name = 'RateLimitedError';
+        this.service = service;
+        this.retryAt = retryAt;
+    }
+}
+
+export class HttpTimeoutError extends Error {
+    readonly service: string;
+
+    constructor(service: string, url: string, timeoutMs: number) {
+        super(`${service} request timed out after ${timeoutMs}ms: ${url.split('?')[0]}`);
+        this.name = 'HttpTimeoutError';
+        this.service = service;
+    }
+}
+
+// The service answered 404 (or an empty lookup) for the requested resource
+export class NotFoundError extends Error {
+    readonly service: string;
+
+    constructor(service: string, resource: string) {
+        super(`${service}: ${resource} not found`);
+        this.name = 'NotFoundError';
+        this.service = service;
+    }
+}
+
+/**
+ * Whether an error means the service is unavailable for now (rate limited
+ * or circuit open), so the work is better deferred than recorded as failed
+ */
+export function isServiceUnavailable(error: unknown): error is CircuitOpenError | RateLimitedError {
+    return error instanceof CircuitOpenError || error instanceof RateLimitedError;
+}
+
+interface ServiceState {
+    failures: number;  // Consecutive
+    openUntil: number; // Circuit open while now < openUntil
+    notBefore: number; // Earliest next request (Retry-After, rate-limit reset, backoff)
+}
+
+export interface CircuitState {
+    service: string;
+    state: 'closed' | 'open' | 'half-open';
+    failures: number;
+    retryAt?: Date;
+}
+
+let injectedTransport: HttpTransport | null = null;
+let fixtureTransport: HttpTransport | null | undefined;
+const policyOverrides = new Map<string, Partial<ServicePolicy>>();
+const serviceStates = new Map<string, ServiceState>();
+
+const networkTransport: HttpTransport = (url, init) => fetch(url, init);
+
+/**
+ * Transport for a service: an injected one, fixtures for the profile APIs
+ * when HTTP_MOCK_FIXTURES is set, or the network
+ */
+export function getHttpTransport(service: string = 'default'): HttpTransport {
+    if (injectedTransport) return injectedTransport;
+    if (fixtureTransport === undefined) {
+        const fixtures = loadHttpFixtures();
+        fixtureTransport = fixtures ? createFixtureTransport(fixtures) : null;
+    }
+    return fixtureTransport && FIXTURE_SERVICES.has(service) ? fixtureTransport : networkTransport;
+}
+
+export function setHttpTransport(transport: HttpTransport | null) {
+    injectedTransport = transport;
+}
+
+/**
+ * Override a service's policy (e.g. zero backoff in tests)
+ */
+export function configureHttpService(service: string, policy: Partial<ServicePolicy>) {
+    policyOverrides.set(service, { ...policyOverrides.get(service), ...policy });
+}
+
+/**
+ * Forget circuit, throttle and policy state, and the injected transport
+ */
+export function resetHttpClient() {
+    injectedTransport = null;
+    fixtureTransport = undefined;
+    policyOverrides.clear();
+    serviceStates.clear();
+}
+
+function envNumber(name: string, service: string): number | undefined {
+    for (const key of [`${name}_${service.toUpperCase()}`, name]) {
+        const value = parseInt(process.env[key] || '');
+        if (Number.isFinite(value) && value >= 0) return value;
+    }
+    return undefined;
+}
+
+export function getServicePolicy(service: string): ServicePolicy {
+    const policy = { ...DEFAULT_POLICY, ...SERVICE_POLICIES[service] };
+    for (const [field, name] of Object.entries(ENV_KEYS) as [keyof ServicePolicy, string][]) {
+        const value = envNumber(name, service);
+        if (value !== undefined) policy[field] = value;
+    }
+    return { ...policy, ...policyOverrides.get(service) };
+}
+
+function serviceOf(url: string): string {
+    try {
+        return SERVICE_HOSTS[new URL(url).hostname] || 'default';
+    } catch {
+        return 'default';
+    }
+}
+
+function stateOf(service: string): ServiceState {
+    let state = serviceStates.get(service);
+    if (!state) {
+        state = { failures: 0, openUntil: 0, notBefore: 0 };
+        serviceStates.set(service, state);
+    }
+    return state;
+}
+
+export function getCircuitStates(): CircuitState[] {
+    const now = Date.now();
+    return [...serviceStates.entries()].map(([service, state]) => ({
+        service,
+        state: state.openUntil > now ? 'open' : state.failures >= getServicePolicy(service).breakerThreshold ? 'half-open' : 'closed',
+        failures: state.failures,
+        ...(state.openUntil > now ? { retryAt: new Date(state.openUntil) } : {}),
+    }));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * When the response says the service may be called again (epoch ms), if it says so:
+ * Retry-After (seconds or HTTP date), or GitHub's x-ratelimit-reset once
+ * x-ratelimit-remaining hits zero
+ */
+function retryAfterOf(response: Response): number | null {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) return Date.now() + seconds * 1000;
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) return date;
+    }
+
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+        const reset = parseInt(response.headers.get('x-ratelimit-reset') || '');
+        if (Number.isFinite(reset)) return reset * 1000;
+    }
+
+    return null;
+}
+
+/**
+ * Stack Exchange asks clients to pause via a `backoff` field (seconds) in
+ * otherwise successful JSON bodies
+ */
+async function backoffFieldOf(response: Response): Promise<number | null> {
+    if (!response.headers.get('content-type')?.includes('json')) return null;
+    try {
+        const body = await response.clone().json();
+        return typeof body?.backoff === 'number' ? Date.now() + body.backoff * 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+// GitHub answers 403 (not 429) when the primary rate limit is exhausted
+function isRateLimited(response: Response): boolean {
+    return response.status === 429 || (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0');
+}
+
+/**
+ * Fetch through the shared client. Non-retryable responses (including 4xx)
+ * are returned as-is for the caller to handle; retryable ones are returned
+ * once retries run out. Throws CircuitOpenError, RateLimitedError (a wait
+ * longer than the policy allows), HttpTimeoutError or the network error.
+ */
+export async function httpFetch(url: string, init?: RequestInit, options: { service?: string } = {}): Promise<Response> {
+    const service = options.service || serviceOf(url);
+    const policy = getServicePolicy(service);
+    const state = stateOf(service);
+    const transport = getHttpTransport(service);
+
+    if (state.openUntil > Date.now()) {
+        throw new CircuitOpenError(service, new Date(state.openUntil));
+    }
+
+    const recordFailure = () => {
+        state.failures++;
+        if (state.failures >= policy.breakerThreshold) {
+            state.openUntil = Date.now() + policy.breakerCooldownMs;
+            console.warn(`⛔ ${service} circuit open for ${policy.breakerCooldownMs}ms after ${state.failures} consecutive failures`);
+        }
+    };
+
+    for (let attempt = 0; ; attempt++) {
+        const wait = state.notBefore - Date.now();
+        if (wait > policy.maxWaitMs) throw new RateLimitedError(service, new Date(state.notBefore));
+        if (wait > 0) await sleep(wait);
+
+        const signals = [AbortSignal.timeout(policy.timeoutMs), ...(init?.signal ? [init.signal] : [])];
+
+        let response: Response;
+        try {
+            response = await transport(url, { ...init, signal: AbortSignal.any(signals) });
+        } catch (error) {
+            if (init?.signal?.aborted) throw error;
+            const failure = error instanceof Error && error.name === 'TimeoutError'
+                ? new HttpTimeoutError(service, url, policy.timeoutMs)
+                : error;
+
+            if (attempt >= policy.maxRetries) {
+                recordFailure();
+                throw failure;
+            }
+            const delay = Math.min(policy.maxWaitMs, policy.baseBackoffMs * 2 ** attempt);
+            console.log(`   ⚠️ ${service} request failed (${String(failure)}), retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`);
+            await sleep(delay);
+            continue;
+        }
+
+        const retryAt = retryAfterOf(response) ?? (service === 'stackexchange' ? await backoffFieldOf(response) : null);
+        if (retryAt) state.notBefore = Math.max(state.notBefore, retryAt);
+
+        const retryable = isRetryableStatus(response.status) || isRateLimited(response);
+        if (!retryable) {
+            state.failures = 0;
+            state.openUntil = 0;
+            return response;
+        }
+
+        if (attempt >= policy.maxRetries) {
+            recordFailure();
+            return response;
+        }
+
+        const delay = Math.min(policy.maxWaitMs, policy.baseBackoffMs * 2 ** attempt);
+        if (!retryAt) state.notBefore = Math.max(state.notBefore, Date.now() + delay);
+        console.log(`   ⚠️ ${service} answered ${response.status}, retry ${attempt + 1}/${policy.maxRetries}`);
+        await response.body?.cancel().catch(() => undefined);
+    }
+}
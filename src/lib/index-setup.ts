@@ -15,6 +15,8 @@ export async function ensureIndexes() {
         await db.collection(COLLECTIONS.EXPERTS).createIndex({ name: 1 });
         await db.collection(COLLECTIONS.EXPERTS).createIndex({ title: 1 });
         await db.collection(COLLECTIONS.EXPERTS).createIndex({ isSynthetic: 1 }); // Quick filtering
+        // Selectivity counts for filtered vector search
+        await db.collection(COLLECTIONS.EXPERTS).createIndex({ 'embedding.model': 1, renownLevel: 1, 'availability.status': 1 });
 
         // 2. Query Collection Indexes
         console.log('   - Optimizing queries...');
@@ -24,13 +26,55 @@ export async function ensureIndexes() {
 
         // 3. Embedding Cache Indexes
         console.log('   - Optimizing embedding cache...');
-        await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).createIndex({ textHash: 1 }, { unique: true });
+        // Entries are keyed per model; drop the legacy text-only unique index if present
+        await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).dropIndex('textHash_1').catch(() => undefined);
+        await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).createIndex({ textHash: 1, model: 1 }, { unique: true });
 
         // 4. Search Result Cache Indexes (TTL)
         console.log('   - Optimizing search result cache...');
         await db.collection(COLLECTIONS.CACHE_SEARCH_RESULTS).createIndex({ queryHash: 1 }, { unique: true });
         // TTL Index: Automatically removes documents after the expiresAt date
         await db.collection(COLLECTIONS.CACHE_SEARCH_RESULTS).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        // Generation purges and semantic lookups
+        await db.collection(COLLECTIONS.CACHE_SEARCH_RESULTS).createIndex({ generation: 1, constraintKey: 1, createdAt: -1 });
+
+        // 5. Re-embedding Job Indexes
+        console.log('   - Optimizing re-embedding jobs...');
+        await db.collection(COLLECTIONS.REEMBED_JOBS).createIndex({ jobId: 1 }, { unique: true });
+        await db.collection(COLLECTIONS.REEMBED_JOBS).createIndex({ status: 1, createdAt: -1 });
+        await db.collection(COLLECTIONS.EXPERTS).createIndex({ 'embedding.model': 1, 'embedding.version': 1 });
+
+        // 6. Ranker Feedback Indexes
+        console.log('   - Optimizing ranker feedback...');
+        await db.collection(COLLECTIONS.FEEDBACK).createIndex({ queryId: 1, expertId: 1 }, { unique: true });
+        await db.collection(COLLECTIONS.RANKER_MODELS).createIndex({ active: 1 });
+
+        // 7. Skill Taxonomy Indexes
+        console.log('   - Optimizing skill taxonomy...');
+        await db.collection(COLLECTIONS.SKILL_TAXONOMY).createIndex({ canonical: 1 }, { unique: true });
+        await db.collection(COLLECTIONS.SKILL_TAXONOMY).createIndex({ aliases: 1 });
+
+        // 8. Verification Indexes (TTL)
+        console.log('   - Optimizing verifications...');
+        await db.collection(COLLECTIONS.VERIFICATIONS).createIndex({ expertId: 1, source: 1 }, { unique: true });
+        await db.collection(COLLECTIONS.VERIFICATIONS).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+        // 9. LLM Call Accounting (kept 90 days)
+        console.log('   - Optimizing LLM call log...');
+        await db.collection(COLLECTIONS.LLM_CALLS).createIndex({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+        await db.collection(COLLECTIONS.LLM_CALLS).createIndex({ route: 1, createdAt: -1 });
+        await db.collection(COLLECTIONS.LLM_CALLS).createIndex({ model: 1, createdAt: -1 });
+
+        // 10. Ingestion Job Queue
+        console.log('   - Optimizing ingestion jobs...');
+        await db.collection(COLLECTIONS.INGEST_JOBS).createIndex({ jobId: 1 }, { unique: true });
+        await db.collection(COLLECTIONS.INGEST_JOBS).createIndex({ status: 1, notBefore: 1, createdAt: 1 });
+        await db.collection(COLLECTIONS.INGEST_JOBS).createIndex({ createdAt: -1 });
+
+        // 11. Profile Re-sync (stale source lookup and change history)
+        console.log('   - Optimizing profile re-sync...');
+        await db.collection(COLLECTIONS.EXPERTS).createIndex({ 'sources.lastSyncedAt': 1 });
+        await db.collection(COLLECTIONS.EXPERT_CHANGES).createIndex({ expertId: 1, changedAt: -1 });
 
         console.log('✅ MongoDB Index Optimization Complete.');
     } catch (error) {
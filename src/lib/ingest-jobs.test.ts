@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeDb } from '../test/fake-db';
+import { COLLECTIONS, IngestJob } from './mongodb';
+import { ensureIngestWorker, getIngestJob } from './ingest-jobs';
+import { queueProfileSync } from './profile-sync';
+
+let db: FakeDb;
+const processItem = vi.fn();
+
+vi.mock('./mongodb', async importOriginal => ({
+    ...await importOriginal<typeof import('./mongodb')>(),
+    getDb: async () => db,
+}));
+
+vi.mock('./ingest-sources', () => {
+    const source = {
+        plan: async () => ({ params: {}, items: [] }),
+        process: (item: string, params: Record<string, unknown>, position: number) => processItem(item, params, position),
+    };
+    return { INGEST_SOURCES: { github: source, resync: source } };
+});
+
+const MINUTE_MS = 60 * 1000;
+
+function runningJob(leaseExpiresAt: Date, kind: IngestJob['kind'] = 'github'): IngestJob {
+    const startedAt = new Date(Date.now() - 30 * MINUTE_MS);
+    return {
+        jobId: 'ingest_test',
+        kind,
+        status: 'running',
+        params: {},
+        items: ['Python', 'Go', 'Rust'],
+        cursor: 1,
+        progress: { items: 3, processedItems: 1, imported: 2, skipped: 0, failed: 0 },
+        itemResults: [{ item: 'Python', imported: 2, skipped: 0, failed: 0 }],
+        failedItems: [],
+        errors: [],
+        attempts: 1,
+        workerId: 'worker_gone',
+        leaseExpiresAt,
+        createdAt: startedAt,
+        updatedAt: startedAt,
+        startedAt,
+    };
+}
+
+async function insertJob(job: IngestJob) {
+    await db.collection(COLLECTIONS.INGEST_JOBS).insertOne({ ...job });
+}
+
+const logSpy = () => vi.mocked(console.log);
+
+// The worker logs "idle" when it finds nothing left to claim
+async function waitForIdleWorker() {
+    await vi.waitFor(() => {
+        expect(logSpy()).toHaveBeenCalledWith(expect.stringMatching(/Ingestion worker worker_\w+ idle/));
+    });
+}
+
+beforeEach(() => {
+    db = new FakeDb();
+    processItem.mockReset().mockResolvedValue({ imported: 1, skipped: 0, errors: [] });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('ingestion worker leases', () => {
+    it('reclaims a running job whose lease lapsed and resumes from its cursor', async () => {
+        await insertJob(runningJob(new Date(Date.now() - MINUTE_MS)));
+
+        ensureIngestWorker();
+        await waitForIdleWorker();
+
+        expect(processItem.mock.calls.map(([item, , position]) => [item, position])).toEqual([['Go', 1], ['Rust', 2]]);
+
+        const job = await getIngestJob('ingest_test');
+        expect(job).toMatchObject({
+            status: 'completed',
+            cursor: 3,
+            progress: { items: 3, processedItems: 3, imported: 4 },
+        });
+        expect(job?.itemResults.map(result => result.item)).toEqual(['Python', 'Go', 'Rust']);
+        expect(job?.workerId).toBeUndefined();
+        expect(job?.leaseExpiresAt).toBeUndefined();
+        // The original start time survives the reclaim
+        expect(job?.startedAt?.getTime()).toBeLessThan(Date.now() - 20 * MINUTE_MS);
+    });
+
+    it('leaves a running job alone while its lease is live', async () => {
+        const leaseExpiresAt = new Date(Date.now() + 20 * MINUTE_MS);
+        await insertJob(runningJob(leaseExpiresAt));
+
+        ensureIngestWorker();
+        await waitForIdleWorker();
+
+        expect(processItem).not.toHaveBeenCalled();
+        expect(await getIngestJob('ingest_test')).toMatchObject({
+            status: 'running',
+            cursor: 1,
+            workerId: 'worker_gone',
+            leaseExpiresAt,
+        });
+    });
+
+    it('restarts the worker for a re-sync job left running by a restart', async () => {
+        await insertJob(runningJob(new Date(Date.now() - MINUTE_MS), 'resync'));
+
+        expect(await queueProfileSync()).toBeNull();
+        await waitForIdleWorker();
+
+        expect(processItem).toHaveBeenCalledTimes(2);
+        expect(await getIngestJob('ingest_test')).toMatchObject({ status: 'completed', cursor: 3 });
+    });
+});
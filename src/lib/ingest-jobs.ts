@@ -0,0 +1,290 @@
+/**
+ * Ingestion Job Queue for ExpertMesh
+ * GitHub, Stack Overflow, bulk and generator imports (and profile re-syncs)
+ * run as jobs persisted in MongoDB instead of inside the HTTP request. A
+ * worker loop claims queued jobs under a lease, processes one item
+ * (language, tag, field or expert) at a time and saves the cursor after
+ * each, so cancelled, failed or interrupted jobs resume where they stopped.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Filter } from 'mongodb';
+import { getDb, COLLECTIONS, IngestJob } from './mongodb';
+import { INGEST_SOURCES, IngestKind, ItemResult } from './ingest-sources';
+import { isServiceUnavailable } from './http';
+
+const LEASE_MS = 10 * 60 * 1000; // Renewed while a job runs; a lapsed lease means the worker died
+const HEARTBEAT_MS = 60 * 1000;
+const MAX_IDLE_WAIT_MS = 10 * 60 * 1000; // Longest the worker sleeps for a paused job before exiting
+const MAX_RECORDED_ERRORS = 100;
+
+// Identifies this process's worker on the jobs it claims
+const WORKER_ID = `worker_${uuidv4().slice(0, 8)}`;
+
+let workerActive = false;
+
+export class InvalidIngestJobError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidIngestJobError';
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function jobsCollection() {
+    const db = await getDb();
+    return db.collection<IngestJob>(COLLECTIONS.INGEST_JOBS);
+}
+
+/**
+ * Queue a job for the worker. Throws InvalidIngestJobError when the
+ * request leaves nothing to import.
+ */
+export async function enqueueIngestJob(kind: IngestKind, body: Record<string, unknown> = {}): Promise<IngestJob> {
+    const source = INGEST_SOURCES[kind];
+    if (!source) throw new InvalidIngestJobError(`Unknown ingestion kind: ${kind}`);
+
+    const { params, items } = await source.plan(body);
+    if (items.length === 0) throw new InvalidIngestJobError(`Nothing to import for ${kind}: no valid items requested`);
+
+    const job: IngestJob = {
+        jobId: `ingest_${uuidv4().slice(0, 8)}`,
+        kind,
+        status: 'queued',
+        params,
+        items,
+        cursor: 0,
+        progress: { items: items.length, processedItems: 0, imported: 0, skipped: 0, failed: 0 },
+        itemResults: [],
+        failedItems: [],
+        errors: [],
+        attempts: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const jobs = await jobsCollection();
+    await jobs.insertOne(job);
+    console.log(`📥 Queued ${kind} ingestion job ${job.jobId} (${items.length} items)`);
+
+    ensureIngestWorker();
+    return job;
+}
+
+/**
+ * Re-queue a job: cancelled, failed and paused jobs resume from their
+ * cursor; completed jobs re-run the items that failed as a whole
+ */
+export async function retryIngestJob(jobId: string): Promise<IngestJob> {
+    const jobs = await jobsCollection();
+    const job = await jobs.findOne({ jobId });
+    if (!job) throw new InvalidIngestJobError(`Ingestion job ${jobId} not found`);
+    if (job.status === 'running' || job.status === 'queued') return job;
+
+    const retryItems = job.cursor >= job.items.length ? job.failedItems : [];
+    if (job.cursor >= job.items.length && retryItems.length === 0) {
+        throw new InvalidIngestJobError(`Ingestion job ${jobId} completed without failed items; nothing to retry`);
+    }
+
+    await jobs.updateOne(
+        { jobId },
+        {
+            $set: { status: 'queued', updatedAt: new Date(), ...(retryItems.length > 0 ? { failedItems: [] } : {}) },
+            $inc: { attempts: 1, 'progress.items': retryItems.length },
+            ...(retryItems.length > 0 ? { $push: { items: { $each: retryItems } } } : {}),
+            $unset: { lastError: '', completedAt: '', notBefore: '' },
+        }
+    );
+
+    ensureIngestWorker();
+    return (await jobs.findOne({ jobId }, { projection: { _id: 0 } }))!;
+}
+
+/**
+ * Request cancellation; a running job stops after its current item
+ */
+export async function cancelIngestJob(jobId: string): Promise<IngestJob | null> {
+    const jobs = await jobsCollection();
+    await jobs.updateOne(
+        { jobId, status: { $in: ['queued', 'running'] } },
+        { $set: { status: 'cancelled', updatedAt: new Date() }, $unset: { workerId: '', leaseExpiresAt: '', notBefore: '' } }
+    );
+    return jobs.findOne({ jobId }, { projection: { _id: 0 } });
+}
+
+export async function getIngestJob(jobId: string): Promise<IngestJob | null> {
+    const jobs = await jobsCollection();
+    return jobs.findOne({ jobId }, { projection: { _id: 0 } });
+}
+
+export async function listIngestJobs(filters: { kind?: IngestKind; status?: IngestJob['status']; limit?: number } = {}): Promise<IngestJob[]> {
+    const jobs = await jobsCollection();
+    const filter: Filter<IngestJob> = {};
+    if (filters.kind) filter.kind = filters.kind;
+    if (filters.status) filter.status = filters.status;
+
+    return jobs.find(filter, { projection: { _id: 0, errors: 0, itemResults: 0 } })
+        .sort({ createdAt: -1 })
+        .limit(Math.min(100, Math.max(1, filters.limit || 20)))
+        .toArray();
+}
+
+/**
+ * Start the worker loop in this process unless it is already running.
+ * Called on enqueue and on polls, so jobs left behind by a restart are
+ * picked up again.
+ */
+export function ensureIngestWorker() {
+    if (workerActive) return;
+    workerActive = true;
+    runWorker()
+        .catch(error => console.error('❌ Ingestion worker stopped:', error))
+        .finally(() => { workerActive = false; });
+}
+
+/**
+ * Claim the oldest runnable job: queued and not paused, or running under a lapsed lease
+ */
+async function claimNextJob(): Promise<IngestJob | null> {
+    const jobs = await jobsCollection();
+    const now = new Date();
+
+    return jobs.findOneAndUpdate(
+        {
+            $or: [
+                { status: 'queued', $or: [{ notBefore: { $exists: false } }, { notBefore: { $lte: now } }] },
+                { status: 'running', leaseExpiresAt: { $lt: now } },
+            ],
+        },
+        {
+            $set: { status: 'running', workerId: WORKER_ID, leaseExpiresAt: new Date(now.getTime() + LEASE_MS), updatedAt: now },
+            $min: { startedAt: now },
+            $unset: { notBefore: '' },
+        },
+        { sort: { createdAt: 1 }, returnDocument: 'after' }
+    );
+}
+
+/**
+ * When a job may next become runnable, if any is waiting
+ */
+async function nextWakeTime(): Promise<number | null> {
+    const jobs = await jobsCollection();
+    const waiting = await jobs
+        .find({ status: { $in: ['queued', 'running'] } })
+        .project<Pick<IngestJob, 'status' | 'notBefore' | 'leaseExpiresAt'>>({ status: 1, notBefore: 1, leaseExpiresAt: 1 })
+        .toArray();
+
+    const times = waiting.flatMap(job => job.status === 'queued'
+        ? [job.notBefore ? new Date(job.notBefore).getTime() : Date.now()]
+        : job.leaseExpiresAt ? [new Date(job.leaseExpiresAt).getTime()] : []);
+    return times.length > 0 ? Math.min(...times) : null;
+}
+
+async function runWorker(): Promise<void> {
+    console.log(`👷 Ingestion worker ${WORKER_ID} started`);
+
+    while (true) {
+        const job = await claimNextJob();
+        if (job) {
+            await runIngestJob(job);
+            continue;
+        }
+
+        const wake = await nextWakeTime();
+        if (wake === null || wake - Date.now() > MAX_IDLE_WAIT_MS) {
+            console.log(`👷 Ingestion worker ${WORKER_ID} idle`);
+            return;
+        }
+        await sleep(Math.max(1000, wake - Date.now()));
+    }
+}
+
+/**
+ * Process a claimed job item by item. Every write is conditioned on this
+ * worker still holding the job, so a cancellation or a reclaim stops it.
+ */
+async function runIngestJob(job: IngestJob): Promise<void> {
+    const jobs = await jobsCollection();
+    const source = INGEST_SOURCES[job.kind];
+    const owned = { jobId: job.jobId, status: 'running' as const, workerId: WORKER_ID };
+
+    console.log(`\n📦 Ingestion job ${job.jobId} (${job.kind}) running from item ${job.cursor + 1}/${job.items.length}`);
+
+    const heartbeat = setInterval(() => {
+        jobs.updateOne(owned, { $set: { leaseExpiresAt: new Date(Date.now() + LEASE_MS) } })
+            .catch(error => console.error(`Failed to renew lease on ${job.jobId}:`, error));
+    }, HEARTBEAT_MS);
+
+    try {
+        if (job.params.clearExisting && !job.cleared && source.clear) {
+            await source.clear();
+            await jobs.updateOne(owned, { $set: { cleared: true } });
+        }
+
+        for (let position = job.cursor; position < job.items.length; position++) {
+            const current = await jobs.findOne(owned, { projection: { _id: 1 } });
+            if (!current) {
+                console.log(`⏹️ Ingestion job ${job.jobId} stopped (cancelled or reclaimed)`);
+                return;
+            }
+
+            const item = job.items[position];
+            let result: ItemResult = { imported: 0, skipped: 0, errors: [] };
+            let itemError: string | undefined;
+
+            try {
+                result = await source.process(item, job.params, position);
+            } catch (error) {
+                if (isServiceUnavailable(error)) {
+                    // Pause the job and pick this item up again once the service recovers
+                    console.log(`⏸️ Ingestion job ${job.jobId} paused until ${error.retryAt.toISOString()}: ${error.message}`);
+                    await jobs.updateOne(owned, {
+                        $set: { status: 'queued', notBefore: error.retryAt, lastError: error.message, updatedAt: new Date() },
+                        $unset: { workerId: '', leaseExpiresAt: '' },
+                    });
+                    return;
+                }
+                console.error(`   ❌ ${job.kind} item ${item} failed:`, error);
+                itemError = String(error);
+            }
+
+            const at = new Date();
+            const errors = [
+                ...(itemError ? [{ item, error: itemError, at }] : []),
+                ...result.errors.map(e => ({ item, subject: e.subject, error: e.error, at })),
+            ];
+
+            await jobs.updateOne(owned, {
+                $set: { cursor: position + 1, leaseExpiresAt: new Date(Date.now() + LEASE_MS), updatedAt: at },
+                $inc: {
+                    'progress.processedItems': 1,
+                    'progress.imported': result.imported,
+                    'progress.skipped': result.skipped,
+                    'progress.failed': result.errors.length,
+                },
+                $push: {
+                    itemResults: { item, imported: result.imported, skipped: result.skipped, failed: result.errors.length, ...(itemError ? { error: itemError } : {}) },
+                    errors: { $each: errors, $slice: -MAX_RECORDED_ERRORS },
+                    ...(itemError ? { failedItems: item } : {}),
+                },
+            });
+            console.log(`   📦 ${job.jobId}: ${item} done (${result.imported} imported, ${result.skipped} skipped, ${result.errors.length} failed)`);
+        }
+
+        await jobs.updateOne(owned, {
+            $set: { status: 'completed', completedAt: new Date(), updatedAt: new Date() },
+            $unset: { workerId: '', leaseExpiresAt: '' },
+        });
+        console.log(`✅ Ingestion job ${job.jobId} completed`);
+    } catch (error) {
+        console.error(`❌ Ingestion job ${job.jobId} failed:`, error);
+        await jobs.updateOne(owned, {
+            $set: { status: 'failed', lastError: String(error), updatedAt: new Date() },
+            $unset: { workerId: '', leaseExpiresAt: '' },
+        }).catch(() => undefined);
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
@@ -0,0 +1,312 @@
+/**
+ * Ingestion Sources for ExpertMesh
+ * What each kind of ingestion job imports: how a request is split into
+ * items (languages, tags, fields, experts to re-sync) and how one item is
+ * fetched, converted and stored. Run by the job worker in ./ingest-jobs.ts.
+ */
+
+import { getDb, COLLECTIONS, IngestJob } from './mongodb';
+import { searchDevelopers, searchHiddenTalents, convertToExpert } from './github';
+import { getTopUsers, searchUsersByTag, convertSOUserToExpert, StackOverflowUser } from './stackoverflow';
+import { PROFESSIONAL_FIELDS, ProfessionalField, generateProfessional } from './generator';
+import { embedAndInsertExperts } from './ingest';
+import { bumpDatasetGeneration } from './search-cache';
+import { isServiceUnavailable } from './http';
+import { findStaleExpertIds, resyncExpert, profileSyncMaxAgeDays, profileSyncBatchSize } from './profile-sync';
+
+export type IngestKind = IngestJob['kind'];
+
+// Default languages/topics to search - diverse fields
+export const DEFAULT_LANGUAGES = ['Python', 'JavaScript', 'TypeScript', 'Go', 'Rust'];
+
+// Diverse topics including non-coding fields
+export const DIVERSE_TOPICS = [
+    // Technical
+    'Python', 'JavaScript', 'TypeScript', 'Go', 'Rust', 'Java', 'Swift', 'Kotlin',
+    // Data/ML
+    'jupyter', 'tensorflow', 'pytorch',
+    // DevOps/Infra
+    'kubernetes', 'terraform', 'docker',
+    // Other
+    'markdown', 'latex',
+];
+
+// Comprehensive language list for diverse experts (bulk import)
+export const LANGUAGES_BY_CATEGORY = {
+    backend: ['Python', 'Go', 'Java', 'Rust', 'Ruby'],
+    frontend: ['TypeScript', 'JavaScript'],
+    mobile: ['Swift', 'Kotlin'],
+    data: ['R', 'Julia', 'Scala'],
+    systems: ['C', 'C++', 'Zig'],
+};
+
+// Popular Stack Overflow tags to import from
+export const POPULAR_TAGS = [
+    'javascript', 'python', 'java', 'c#', 'php',
+    'typescript', 'react', 'node.js', 'sql', 'html',
+    'css', 'go', 'rust', 'swift', 'kotlin',
+];
+
+// Stack Overflow item importing the top users by reputation
+const TOP_USERS_ITEM = '(top by reputation)';
+
+export interface ItemResult {
+    imported: number; // Experts inserted, or updated by a re-sync
+    skipped: number;
+    errors: { subject: string; error: string }[];
+}
+
+export interface IngestPlan {
+    params: Record<string, unknown>;
+    items: string[];
+}
+
+export interface IngestSource {
+    // Normalize request options and list the items to process; unknown items are dropped
+    plan(body: Record<string, unknown>): IngestPlan | Promise<IngestPlan>;
+    // Run before the first item when params.clearExisting is set
+    clear?(): Promise<void>;
+    // Errors that should pause the job (see isServiceUnavailable) are rethrown
+    process(item: string, params: Record<string, unknown>, position: number): Promise<ItemResult>;
+}
+
+function intOption(value: unknown, fallback: number, min: number, max: number): number {
+    const n = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.floor(n))) : fallback;
+}
+
+function stringList(value: unknown, fallback: string[]): string[] {
+    return Array.isArray(value) && value.length > 0 ? value.map(String) : fallback;
+}
+
+/**
+ * Convert and insert GitHub developers not already in the pool
+ */
+async function importGitHubDevelopers(
+    developers: Awaited<ReturnType<typeof searchDevelopers>>,
+    skipExisting: boolean
+): Promise<ItemResult> {
+    const db = await getDb();
+    const experts = db.collection(COLLECTIONS.EXPERTS);
+    const result: ItemResult = { imported: 0, skipped: 0, errors: [] };
+
+    const converted: Awaited<ReturnType<typeof convertToExpert>>[] = [];
+    for (const dev of developers) {
+        const profileUrl = `https://github.com/${dev.login}`;
+        try {
+            if (skipExisting && await experts.findOne({ $or: [{ 'sources.profileUrl': profileUrl }, { github: profileUrl }] })) {
+                result.skipped++;
+                continue;
+            }
+            converted.push(await convertToExpert(dev));
+        } catch (error) {
+            if (isServiceUnavailable(error)) throw error;
+            result.errors.push({ subject: dev.login, error: String(error) });
+        }
+    }
+
+    const { inserted, failed } = await embedAndInsertExperts(converted);
+    inserted.forEach(expert => console.log(`   ✅ Imported ${expert.name} (${expert.title})`));
+    result.imported = inserted.length;
+    failed.forEach(({ expert, error }) => result.errors.push({ subject: expert.name, error }));
+
+    return result;
+}
+
+type GitHubParams = {
+    mode: 'popular' | 'hidden';
+    minFollowers: number;
+    maxFollowers: number;
+    minRepos: number;
+    limitPerLanguage: number;
+    clearExisting: boolean;
+};
+
+const githubSource: IngestSource = {
+    plan(body) {
+        const mode = body.mode === 'hidden' ? 'hidden' : 'popular';
+        const params: GitHubParams = {
+            mode,
+            minFollowers: intOption(body.minFollowers, 500, 0, 1_000_000),
+            maxFollowers: intOption(body.maxFollowers, 99999999, 0, 99999999),
+            minRepos: intOption(body.minRepos, 5, 0, 10_000),
+            limitPerLanguage: intOption(body.limitPerLanguage, 5, 1, 100),
+            clearExisting: body.clearExisting === true,
+        };
+        const items = body.diverseTopics === true ? DIVERSE_TOPICS : stringList(body.languages, DEFAULT_LANGUAGES);
+        return { params, items };
+    },
+
+    async clear() {
+        const db = await getDb();
+        await db.collection(COLLECTIONS.EXPERTS).deleteMany({ 'sources.platform': 'github' });
+        await bumpDatasetGeneration('cleared GitHub experts');
+        console.log('🗑️ Cleared existing GitHub experts');
+    },
+
+    async process(language, raw) {
+        const params = raw as GitHubParams;
+        console.log(`\n📦 Importing ${language} developers (mode: ${params.mode})...`);
+        const developers = params.mode === 'hidden'
+            ? await searchHiddenTalents(language, params.minFollowers, params.maxFollowers, params.minRepos, params.limitPerLanguage)
+            : await searchDevelopers(language, params.minFollowers, params.limitPerLanguage);
+        return importGitHubDevelopers(developers, true);
+    },
+};
+
+type BulkParams = {
+    minFollowers: number;
+    limitPerLanguage: number;
+    skipExisting: boolean;
+};
+
+const bulkSource: IngestSource = {
+    plan(body) {
+        const categories = stringList(body.categories, ['backend', 'frontend', 'data']);
+        const params: BulkParams = {
+            minFollowers: intOption(body.minFollowers, 500, 0, 1_000_000),
+            limitPerLanguage: intOption(body.limitPerLanguage, 10, 1, 100),
+            skipExisting: body.skipExisting !== false,
+        };
+        const items = categories.flatMap(category => LANGUAGES_BY_CATEGORY[category as keyof typeof LANGUAGES_BY_CATEGORY] || []);
+        return { params: { ...params, categories }, items };
+    },
+
+    async process(language, raw) {
+        const params = raw as BulkParams;
+        console.log(`\n📦 [${language}] Searching...`);
+        const developers = await searchDevelopers(language, params.minFollowers, params.limitPerLanguage);
+        return importGitHubDevelopers(developers, params.skipExisting);
+    },
+};
+
+type StackOverflowParams = {
+    perTag: number;
+    topByReputation: number;
+    skipExisting: boolean;
+};
+
+const stackOverflowSource: IngestSource = {
+    plan(body) {
+        const params: StackOverflowParams = {
+            perTag: intOption(body.perTag, 5, 1, 100),
+            topByReputation: intOption(body.topByReputation, 10, 0, 100),
+            skipExisting: body.skipExisting !== false,
+        };
+        const tags = stringList(body.tags, POPULAR_TAGS.slice(0, 5));
+        return { params, items: [...(params.topByReputation > 0 ? [TOP_USERS_ITEM] : []), ...tags] };
+    },
+
+    async process(item, raw) {
+        const params = raw as StackOverflowParams;
+        console.log(item === TOP_USERS_ITEM
+            ? `\n📦 Importing top ${params.topByReputation} users by reputation...`
+            : `\n📦 Importing top ${item} answerers...`);
+
+        const users: StackOverflowUser[] = item === TOP_USERS_ITEM
+            ? await getTopUsers(params.topByReputation)
+            : await searchUsersByTag(item, params.perTag);
+
+        const db = await getDb();
+        const experts = db.collection(COLLECTIONS.EXPERTS);
+        const result: ItemResult = { imported: 0, skipped: 0, errors: [] };
+
+        const converted: Awaited<ReturnType<typeof convertSOUserToExpert>>[] = [];
+        for (const user of users) {
+            try {
+                if (params.skipExisting && await experts.findOne({ 'sources.profileUrl': user.link })) {
+                    result.skipped++;
+                    continue;
+                }
+                converted.push(await convertSOUserToExpert(user));
+            } catch (error) {
+                if (isServiceUnavailable(error)) throw error;
+                result.errors.push({ subject: user.display_name, error: String(error) });
+            }
+        }
+
+        const { inserted, failed } = await embedAndInsertExperts(converted);
+        inserted.forEach(expert => console.log(`   ✅ ${expert.name} (${expert.title})`));
+        result.imported = inserted.length;
+        failed.forEach(({ expert, error }) => result.errors.push({ subject: expert.name, error }));
+
+        return result;
+    },
+};
+
+type GenerateParams = {
+    perField: number;
+    clearExisting: boolean;
+};
+
+const generateSource: IngestSource = {
+    plan(body) {
+        const params: GenerateParams = {
+            perField: intOption(body.perField, 10, 1, 200),
+            clearExisting: body.clearExisting === true,
+        };
+        const items = stringList(body.fields, Object.keys(PROFESSIONAL_FIELDS)).filter(field => field in PROFESSIONAL_FIELDS);
+        return { params, items };
+    },
+
+    async clear() {
+        const db = await getDb();
+        await db.collection(COLLECTIONS.EXPERTS).deleteMany({ 'sources.platform': 'generated' });
+        await bumpDatasetGeneration('cleared generated experts');
+        console.log('🗑️ Cleared existing generated experts');
+    },
+
+    async process(field, raw, position) {
+        const params = raw as GenerateParams;
+        console.log(`\n📦 Generating ${params.perField} ${field} professionals...`);
+
+        // Offset by position so re-run items never reuse an email index within the job
+        const generated = Array.from({ length: params.perField }, (_, i) =>
+            generateProfessional(field as ProfessionalField, position * params.perField + i)
+        );
+
+        const { inserted, failed } = await embedAndInsertExperts(generated, { isSynthetic: true });
+        inserted.forEach(expert => console.log(`   ✅ ${expert.name} - ${expert.title}`));
+
+        return {
+            imported: inserted.length,
+            skipped: 0,
+            errors: failed.map(({ expert, error }) => ({ subject: expert.name, error })),
+        };
+    },
+};
+
+type ResyncParams = {
+    maxAgeDays: number;
+    limit: number;
+};
+
+const resyncSource: IngestSource = {
+    // Explicit expertIds are re-synced regardless of age
+    async plan(body) {
+        const params: ResyncParams = {
+            maxAgeDays: intOption(body.maxAgeDays, profileSyncMaxAgeDays(), 0, 3650),
+            limit: intOption(body.limit, profileSyncBatchSize(), 1, 5000),
+        };
+        const items = Array.isArray(body.expertIds)
+            ? stringList(body.expertIds, []).slice(0, params.limit)
+            : await findStaleExpertIds(params.maxAgeDays, params.limit);
+        return { params, items };
+    },
+
+    async process(expertId) {
+        const { changes, reembedded, errors } = await resyncExpert(expertId);
+        if (changes.length > 0) {
+            console.log(`   🔄 ${expertId}: ${changes.map(c => c.field).join(', ')}${reembedded ? ' (re-embedded)' : ''}`);
+        }
+        return { imported: changes.length > 0 ? 1 : 0, skipped: changes.length > 0 ? 0 : 1, errors };
+    },
+};
+
+export const INGEST_SOURCES: Record<IngestKind, IngestSource> = {
+    github: githubSource,
+    bulk: bulkSource,
+    stackoverflow: stackOverflowSource,
+    generate: generateSource,
+    resync: resyncSource,
+};
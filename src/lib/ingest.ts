@@ -0,0 +1,76 @@
+/**
+ * Shared Ingestion Helpers for ExpertMesh
+ * Batch-embeds converted profiles and inserts them in a single round trip
+ */
+
+import { MongoBulkWriteError } from 'mongodb';
+import { getDb, COLLECTIONS } from './mongodb';
+import { generateExpertEmbeddings, getEmbeddingMetadata } from './voyage';
+import { normalizeExpertSkills } from './taxonomy';
+import { bumpDatasetGeneration } from './search-cache';
+
+type IngestableExpert = {
+    name: string;
+    title: string;
+    bio: string;
+    skills: { name: string; level: string; yearsExp: number }[];
+};
+
+export interface IngestResult<T> {
+    inserted: T[];
+    failed: { expert: T; error: string }[];
+}
+
+/**
+ * Canonicalize skills, embed a batch of experts and insert them unordered,
+ * so one bad profile (e.g. a duplicate email) does not block the rest
+ */
+export async function embedAndInsertExperts<T extends IngestableExpert>(
+    input: T[],
+    extraFields: Record<string, unknown> = {}
+): Promise<IngestResult<T>> {
+    if (input.length === 0) return { inserted: [], failed: [] };
+
+    const experts = await normalizeExpertSkills(input);
+
+    let skillVectors: number[][];
+    try {
+        skillVectors = await generateExpertEmbeddings(experts);
+    } catch (error) {
+        return { inserted: [], failed: experts.map(expert => ({ expert, error: String(error) })) };
+    }
+
+    const embedding = getEmbeddingMetadata();
+    const db = await getDb();
+
+    const documents = experts.map((expert, i) => ({
+        ...expert,
+        ...extraFields,
+        skillVector: skillVectors[i],
+        embedding,
+        matchCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    }));
+
+    try {
+        await db.collection(COLLECTIONS.EXPERTS).insertMany(documents, { ordered: false });
+        await bumpDatasetGeneration(`inserted ${experts.length} experts`);
+        return { inserted: experts, failed: [] };
+    } catch (error) {
+        if (!(error instanceof MongoBulkWriteError)) throw error;
+
+        const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+        const failedIndexes = new Map(writeErrors.map(e => [e.index, e.errmsg || 'Insert failed']));
+        if (failedIndexes.size < experts.length) {
+            await bumpDatasetGeneration(`inserted ${experts.length - failedIndexes.size} experts`);
+        }
+
+        return {
+            inserted: experts.filter((_, i) => !failedIndexes.has(i)),
+            failed: experts
+                .map((expert, i) => ({ expert, error: failedIndexes.get(i) }))
+                .filter((f): f is { expert: T; error: string } => f.error !== undefined),
+        };
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * Validated JSON Output for ExpertMesh
+ * Small declarative validators for LLM JSON responses, plus a completion
+ * helper that re-prompts the model with the validation issues until the
+ * output conforms (bounded by LLM_MAX_REPAIRS).
+ */
+
+import { chatCompletion, ChatMessage, ChatOptions } from './llm';
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+// A validator returns the (coerced) value and records issues instead of throwing
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+export const v = {
+    string(options: { min?: number } = {}): Validator<string> {
+        return (value, path, issues) => {
+            if (typeof value !== 'string') {
+                issues.push({ path, message: 'expected a string' });
+                return '';
+            }
+            const trimmed = value.trim();
+            if (options.min !== undefined && trimmed.length < options.min) {
+                issues.push({ path, message: `expected at least ${options.min} characters` });
+            }
+            return trimmed;
+        };
+    },
+
+    // Accepts numeric strings, which models emit frequently
+    number(options: { min?: number; max?: number } = {}): Validator<number> {
+        return (value, path, issues) => {
+            const n = typeof value === 'string' ? parseFloat(value) : value;
+            if (typeof n !== 'number' || !Number.isFinite(n)) {
+                issues.push({ path, message: 'expected a number' });
+                return 0;
+            }
+            if (options.min !== undefined && n < options.min) issues.push({ path, message: `expected >= ${options.min}` });
+            if (options.max !== undefined && n > options.max) issues.push({ path, message: `expected <= ${options.max}` });
+            return n;
+        };
+    },
+
+    // Case-insensitive match against a fixed set of values
+    oneOf<T extends string>(values: readonly T[]): Validator<T> {
+        return (value, path, issues) => {
+            const match = values.find(option => option === String(value ?? '').toLowerCase().trim());
+            if (!match) {
+                issues.push({ path, message: `expected one of ${values.join(' | ')}` });
+                return values[0];
+            }
+            return match;
+        };
+    },
+
+    array<T>(item: Validator<T>, options: { min?: number; max?: number } = {}): Validator<T[]> {
+        return (value, path, issues) => {
+            if (!Array.isArray(value)) {
+                issues.push({ path, message: 'expected an array' });
+                return [];
+            }
+            if (options.min !== undefined && value.length < options.min) {
+                issues.push({ path, message: `expected at least ${options.min} items` });
+            }
+            const items = options.max !== undefined ? value.slice(0, options.max) : value;
+            return items.map((element, i) => item(element, `${path}[${i}]`, issues));
+        };
+    },
+
+    object<S extends Record<string, Validator<unknown>>>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+        return (value, path, issues) => {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                issues.push({ path, message: 'expected an object' });
+                value = {};
+            }
+            const input = value as Record<string, unknown>;
+            const output: Record<string, unknown> = {};
+            for (const key of Object.keys(shape)) {
+                output[key] = shape[key](input[key], `${path}.${key}`, issues);
+            }
+            return output as { [K in keyof S]: Infer<S[K]> };
+        };
+    },
+
+    optional<T>(validator: Validator<T>): Validator<T | undefined> {
+        return (value, path, issues) => (isMissing(value) ? undefined : validator(value, path, issues));
+    },
+
+    withDefault<T>(validator: Validator<T>, fallback: T): Validator<T> {
+        return (value, path, issues) => (isMissing(value) ? fallback : validator(value, path, issues));
+    },
+
+    // Lenient field handled by an existing normalizer (never reports issues)
+    custom<T>(normalize: (value: unknown) => T): Validator<T> {
+        return (value) => normalize(value);
+    },
+
+    preprocess<T>(transform: (value: unknown) => unknown, validator: Validator<T>): Validator<T> {
+        return (value, path, issues) => validator(transform(value), path, issues);
+    },
+};
+
+export function validate<T>(validator: Validator<T>, value: unknown): { value: T; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = [];
+    const result = validator(value, '$', issues);
+    return { value: result, issues };
+}
+
+/**
+ * Raised when the model still produces invalid output after all repair attempts
+ */
+export class LLMValidationError extends Error {
+    constructor(
+        public readonly schema: string,
+        public readonly issues: ValidationIssue[],
+        public readonly attempts: number,
+        public readonly lastResponse: string
+    ) {
+        super(`LLM output failed ${schema} validation after ${attempts} attempt(s): ${issues.slice(0, 3).map(i => `${i.path} ${i.message}`).join('; ')}`);
+        this.name = 'LLMValidationError';
+    }
+
+    // Shape recorded in Query.agentConversation
+    toJSON() {
+        return {
+            error: 'llm_validation_failed',
+            schema: this.schema,
+            attempts: this.attempts,
+            issues: this.issues.slice(0, 20),
+            response: this.lastResponse.slice(0, 500),
+        };
+    }
+}
+
+function parseJSON(content: string): { value?: unknown; issue?: ValidationIssue } {
+    // Tolerate a fenced code block around the JSON
+    const unfenced = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return { value: JSON.parse(unfenced) };
+    } catch (error) {
+        return { issue: { path: '$', message: `invalid JSON (${(error as Error).message})` } };
+    }
+}
+
+// 0 disables repairs; anything unparseable falls back to the default
+function maxRepairsFromEnv(): number {
+    const repairs = parseInt(process.env.LLM_MAX_REPAIRS || '');
+    return Number.isFinite(repairs) && repairs >= 0 ? repairs : DEFAULT_MAX_REPAIRS;
+}
+
+/**
+ * Request JSON from the model and validate it against a schema,
+ * re-prompting with the issues when it does not conform
+ */
+export async function completeJSON<T>(
+    messages: ChatMessage[],
+    validator: Validator<T>,
+    options: ChatOptions & { schema: string; maxRepairs?: number }
+): Promise<T> {
+    const { schema, maxRepairs = maxRepairsFromEnv(), ...chatOptions } = options;
+    const conversation = [...messages];
+
+    let issues: ValidationIssue[] = [];
+    let content = '';
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        attempts = attempt;
+        const completion = await chatCompletion(conversation, { caller: schema, ...chatOptions, jsonMode: true });
+        content = completion.content;
+
+        const parsed = parseJSON(content);
+        if (parsed.issue) {
+            issues = [parsed.issue];
+        } else {
+            const result = validate(validator, parsed.value);
+            if (result.issues.length === 0) return result.value;
+            issues = result.issues;
+        }
+
+        // Offline placeholder output: fail fast so the caller's fallback runs
+        if (completion.placeholder) break;
+
+        console.log(`⚠️ ${schema} output invalid (attempt ${attempt}):`, issues.slice(0, 3));
+
+        conversation.push(
+            { role: 'assistant', content },
+            {
+                role: 'user',
+                content: `Your previous response failed validation:\n${issues.slice(0, 10).map(i => `- ${i.path}: ${i.message}`).join('\n')}\n\nRespond ONLY with corrected JSON in the requested format.`,
+            }
+        );
+    }
+
+    throw new LLMValidationError(schema, issues, attempts, content);
+}
@@ -0,0 +1,150 @@
+/**
+ * LLM Usage Accounting for ExpertMesh
+ * Stores one llm_calls document per chat completion (written by ./llm.ts),
+ * reports spend per day, route, model or caller, and reads per-request
+ * budgets from headers or environment defaults.
+ */
+
+import { getDb, COLLECTIONS, LLMCallRecord } from './mongodb';
+import type { LLMBudget, LLMBudgetExceededError } from './llm';
+
+export type UsageGroupBy = 'day' | 'route' | 'model' | 'caller';
+
+export interface UsageReportFilters {
+    groupBy?: UsageGroupBy;
+    from?: Date;
+    to?: Date;
+    route?: string;
+    model?: string;
+}
+
+export interface UsageReportRow {
+    key: string;
+    calls: number;
+    failed: number;
+    rejected: number; // Refused by a request budget
+    downgraded: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    unpricedCalls: number; // Calls to models without a known price (not in costUsd)
+    avgLatencyMs: number;
+}
+
+export interface UsageReport {
+    groupBy: UsageGroupBy;
+    from?: Date;
+    to?: Date;
+    totals: Omit<UsageReportRow, 'key'>;
+    rows: UsageReportRow[];
+}
+
+export async function recordLLMCall(record: LLMCallRecord): Promise<void> {
+    const db = await getDb();
+    await db.collection<LLMCallRecord>(COLLECTIONS.LLM_CALLS).insertOne(record);
+}
+
+function positiveNumber(value: string | null | undefined): number | undefined {
+    const n = parseFloat(value || '');
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Budget for one request: x-llm-budget-tokens, x-llm-budget-usd and
+ * x-llm-budget-mode headers, falling back to LLM_BUDGET_TOKENS,
+ * LLM_BUDGET_USD and LLM_BUDGET_MODE. Undefined when no limit is set.
+ */
+export function budgetFromRequest(request: Request): LLMBudget | undefined {
+    const maxTokens = positiveNumber(request.headers.get('x-llm-budget-tokens')) ?? positiveNumber(process.env.LLM_BUDGET_TOKENS);
+    const maxCostUsd = positiveNumber(request.headers.get('x-llm-budget-usd')) ?? positiveNumber(process.env.LLM_BUDGET_USD);
+    if (maxTokens === undefined && maxCostUsd === undefined) return undefined;
+
+    const mode = request.headers.get('x-llm-budget-mode') || process.env.LLM_BUDGET_MODE;
+    return { maxTokens, maxCostUsd, onExceeded: mode === 'downgrade' ? 'downgrade' : 'fail' };
+}
+
+// Not retryable: the same request would exceed the caller's budget again
+export const BUDGET_EXCEEDED_STATUS = 402;
+
+/**
+ * Response body for a request refused by its LLM budget, shared by every route
+ */
+export function budgetExceededBody(error: LLMBudgetExceededError) {
+    return { error: 'LLM budget exceeded', code: 'llm_budget_exceeded', details: error.message, spent: error.spent };
+}
+
+const GROUP_KEYS: Record<UsageGroupBy, unknown> = {
+    day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+    route: { $ifNull: ['$route', '(none)'] },
+    model: '$model',
+    caller: '$caller',
+};
+
+/**
+ * Aggregate recorded calls; days are listed in order, other groupings by cost
+ */
+export async function getLLMUsageReport(filters: UsageReportFilters = {}): Promise<UsageReport> {
+    const db = await getDb();
+    const groupBy = filters.groupBy || 'day';
+
+    const match: Record<string, unknown> = {};
+    if (filters.from || filters.to) {
+        match.createdAt = {
+            ...(filters.from ? { $gte: filters.from } : {}),
+            ...(filters.to ? { $lte: filters.to } : {}),
+        };
+    }
+    if (filters.route) match.route = filters.route;
+    if (filters.model) match.model = filters.model;
+
+    const grouped = await db.collection<LLMCallRecord>(COLLECTIONS.LLM_CALLS).aggregate<UsageReportRow & { _id: string }>([
+        { $match: match },
+        {
+            $group: {
+                _id: GROUP_KEYS[groupBy],
+                calls: { $sum: 1 },
+                failed: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+                rejected: { $sum: { $cond: [{ $eq: ['$status', 'rejected'] }, 1, 0] } },
+                downgraded: { $sum: { $cond: ['$downgraded', 1, 0] } },
+                promptTokens: { $sum: '$promptTokens' },
+                completionTokens: { $sum: '$completionTokens' },
+                totalTokens: { $sum: '$totalTokens' },
+                costUsd: { $sum: { $ifNull: ['$costUsd', 0] } },
+                unpricedCalls: { $sum: { $cond: [{ $eq: ['$costUsd', null] }, 1, 0] } },
+                avgLatencyMs: { $avg: { $cond: [{ $eq: ['$status', 'completed'] }, '$latencyMs', null] } },
+            },
+        },
+        { $sort: groupBy === 'day' ? { _id: 1 } : { costUsd: -1, totalTokens: -1 } },
+    ]).toArray();
+
+    const rows: UsageReportRow[] = grouped.map(({ _id, ...row }) => ({
+        ...row,
+        key: String(_id),
+        avgLatencyMs: Math.round(row.avgLatencyMs || 0),
+    }));
+
+    const totals = rows.reduce<UsageReport['totals']>((sum, row) => ({
+        calls: sum.calls + row.calls,
+        failed: sum.failed + row.failed,
+        rejected: sum.rejected + row.rejected,
+        downgraded: sum.downgraded + row.downgraded,
+        promptTokens: sum.promptTokens + row.promptTokens,
+        completionTokens: sum.completionTokens + row.completionTokens,
+        totalTokens: sum.totalTokens + row.totalTokens,
+        costUsd: sum.costUsd + row.costUsd,
+        unpricedCalls: sum.unpricedCalls + row.unpricedCalls,
+        // Rows average completed calls only; weight them back into a sum
+        avgLatencyMs: sum.avgLatencyMs + row.avgLatencyMs * (row.calls - row.failed - row.rejected),
+    }), { calls: 0, failed: 0, rejected: 0, downgraded: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0, avgLatencyMs: 0 });
+    const completed = totals.calls - totals.failed - totals.rejected;
+    totals.avgLatencyMs = completed > 0 ? Math.round(totals.avgLatencyMs / completed) : 0;
+
+    return {
+        groupBy,
+        ...(filters.from ? { from: filters.from } : {}),
+        ...(filters.to ? { to: filters.to } : {}),
+        totals,
+        rows,
+    };
+}
@@ -0,0 +1,458 @@
+/**
+ * LLM Provider Layer for ExpertMesh
+ * Routes chat completions to Fireworks AI, any OpenAI-compatible endpoint,
+ * or a deterministic mock provider (selected via LLM_PROVIDER)
+ */
+
+import fs from 'fs';
+import { httpFetch } from './http';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { TokenUsage, LLMCallRecord } from './mongodb';
+
+const FIREWORKS_BASE_URL = 'https://api.fireworks.ai/inference/v1';
+const FIREWORKS_DEFAULT_MODEL = 'accounts/fireworks/models/llama-v3p3-70b-instruct';
+const FIREWORKS_DOWNGRADE_MODEL = 'accounts/fireworks/models/llama-v3p1-8b-instruct';
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+export type LLMProviderName = 'fireworks' | 'openai' | 'mock';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    jsonMode?: boolean;
+    caller?: string; // Recorded with the call, e.g. parseQuery
+}
+
+// Wire format shared by Fireworks and other OpenAI-compatible APIs
+export interface ChatCompletionResponse {
+    id: string;
+    choices: {
+        message: {
+            role: string;
+            content: string;
+        };
+        finish_reason: string;
+    }[];
+    usage: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface LLMCompletion {
+    content: string;
+    provider: string;
+    model: string;
+    usage?: LLMUsage;
+    placeholder?: boolean; // Mock output with no matching fixture; re-prompting cannot improve it
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+    readonly downgradeModel?: string; // Cheaper model used once a request budget runs out
+    complete(messages: ChatMessage[], options?: ChatOptions): Promise<LLMCompletion>;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions protocol
+ * (Fireworks, OpenAI, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+    readonly downgradeModel?: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(config: { name: string; baseUrl: string; apiKey?: string; defaultModel: string; downgradeModel?: string }) {
+        this.name = config.name;
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiKey = config.apiKey;
+        this.defaultModel = config.defaultModel;
+        this.downgradeModel = config.downgradeModel;
+    }
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<LLMCompletion> {
+        const {
+            model = this.defaultModel,
+            temperature = 0.7,
+            maxTokens = 2048,
+            jsonMode = false,
+        } = options;
+
+        const response = await httpFetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                temperature,
+                max_tokens: maxTokens,
+                response_format: jsonMode ? { type: 'json_object' } : undefined,
+            }),
+        }, { service: this.name });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`${this.name} API error: ${error}`);
+        }
+
+        const data: ChatCompletionResponse = await response.json();
+
+        return {
+            content: data.choices[0]?.message?.content || '',
+            provider: this.name,
+            model,
+            usage: data.usage && {
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens,
+                totalTokens: data.usage.total_tokens,
+            },
+        };
+    }
+}
+
+/**
+ * A canned response for the mock provider.
+ * `match` is a case-insensitive regex tested against the concatenated message contents;
+ * the first matching fixture wins. Object responses are serialized as JSON.
+ */
+export interface MockFixture {
+    match: string;
+    response: string | Record<string, unknown> | unknown[];
+}
+
+/**
+ * Deterministic offline provider driven by fixtures
+ */
+export class MockLLMProvider implements LLMProvider {
+    readonly name = 'mock';
+    readonly defaultModel = 'mock-1';
+    readonly downgradeModel = 'mock-1-mini';
+    private fixtures: MockFixture[];
+
+    constructor(fixtures: MockFixture[] = []) {
+        this.fixtures = fixtures;
+    }
+
+    async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<LLMCompletion> {
+        const transcript = messages.map(m => m.content).join('\n');
+        const fixture = this.fixtures.find(f => new RegExp(f.match, 'i').test(transcript));
+
+        let content: string;
+        let placeholder = false;
+        if (fixture) {
+            content = typeof fixture.response === 'string'
+                ? fixture.response
+                : JSON.stringify(fixture.response);
+        } else if (options.jsonMode) {
+            // Fails schema validation, so completeJSON throws without repair
+            // attempts and callers fall back to their own defaults
+            content = '{}';
+            placeholder = true;
+        } else {
+            const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+            content = `✅ [mock] ${lastUser.replace(/\s+/g, ' ').trim().slice(0, 200)}`;
+        }
+
+        const promptTokens = countWords(transcript);
+        const completionTokens = countWords(content);
+
+        return {
+            content,
+            provider: this.name,
+            model: options.model || this.defaultModel,
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+            ...(placeholder ? { placeholder } : {}),
+        };
+    }
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Load mock fixtures from the JSON file at LLM_MOCK_FIXTURES (if set)
+ */
+function loadMockFixtures(): MockFixture[] {
+    const fixturesPath = process.env.LLM_MOCK_FIXTURES;
+    if (!fixturesPath) return [];
+
+    const parsed = JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+    if (!Array.isArray(parsed)) {
+        throw new Error(`LLM_MOCK_FIXTURES must contain a JSON array: ${fixturesPath}`);
+    }
+    return parsed as MockFixture[];
+}
+
+/**
+ * Build a provider from environment configuration
+ *
+ * LLM_PROVIDER   fireworks (default) | openai | mock
+ * LLM_MODEL      overrides the provider's default model
+ * LLM_BASE_URL   base URL for the openai provider (e.g. http://localhost:11434/v1)
+ * LLM_API_KEY    API key for the openai provider (falls back to OPENAI_API_KEY)
+ * LLM_DOWNGRADE_MODEL  cheaper model for requests over budget (fireworks defaults to Llama 3.1 8B)
+ */
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || 'fireworks'): LLMProvider {
+    const modelOverride = process.env.LLM_MODEL;
+    const downgradeOverride = process.env.LLM_DOWNGRADE_MODEL;
+
+    switch (name as LLMProviderName) {
+        case 'fireworks': {
+            const apiKey = process.env.FIREWORKS_API_KEY;
+            if (!apiKey) {
+                throw new Error('FIREWORKS_API_KEY not set');
+            }
+            return new OpenAICompatibleProvider({
+                name: 'fireworks',
+                baseUrl: FIREWORKS_BASE_URL,
+                apiKey,
+                defaultModel: modelOverride || FIREWORKS_DEFAULT_MODEL,
+                downgradeModel: downgradeOverride || FIREWORKS_DOWNGRADE_MODEL,
+            });
+        }
+        case 'openai':
+            return new OpenAICompatibleProvider({
+                name: 'openai',
+                baseUrl: process.env.LLM_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+                apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+                defaultModel: modelOverride || OPENAI_DEFAULT_MODEL,
+                downgradeModel: downgradeOverride,
+            });
+        case 'mock':
+            return new MockLLMProvider(loadMockFixtures());
+        default:
+            throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+    }
+}
+
+// Active provider (lazily created from env, replaceable in tests)
+let activeProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+    if (!activeProvider) {
+        activeProvider = createLLMProvider();
+    }
+    return activeProvider;
+}
+
+export function setLLMProvider(provider: LLMProvider | null) {
+    activeProvider = provider;
+}
+
+// USD per million tokens; extend or override with LLM_PRICING
+// ({"<model>": {"prompt": 0.9, "completion": 0.9}})
+const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+    [FIREWORKS_DEFAULT_MODEL]: { prompt: 0.9, completion: 0.9 },
+    [FIREWORKS_DOWNGRADE_MODEL]: { prompt: 0.2, completion: 0.2 },
+    'gpt-4o': { prompt: 2.5, completion: 10 },
+    'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+    'mock-1': { prompt: 0, completion: 0 },
+    'mock-1-mini': { prompt: 0, completion: 0 },
+};
+
+function getPricing(): Record<string, { prompt: number; completion: number }> {
+    if (!process.env.LLM_PRICING) return MODEL_PRICING;
+    try {
+        return { ...MODEL_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+    } catch {
+        console.error('Ignoring LLM_PRICING: not valid JSON');
+        return MODEL_PRICING;
+    }
+}
+
+/**
+ * Cost of a completion in USD, or null for models without a known price
+ */
+export function estimateCost(model: string, usage?: LLMUsage): number | null {
+    const price = getPricing()[model];
+    if (!price) return null;
+    return ((usage?.promptTokens || 0) * price.prompt + (usage?.completionTokens || 0) * price.completion) / 1_000_000;
+}
+
+// Spending limit for the LLM calls of one request
+export interface LLMBudget {
+    maxTokens?: number;
+    maxCostUsd?: number;
+    onExceeded: 'fail' | 'downgrade'; // downgrade fails too when the provider has no cheaper model
+}
+
+export class LLMBudgetExceededError extends Error {
+    readonly budget: LLMBudget;
+    readonly spent: { tokens: number; costUsd: number };
+
+    constructor(budget: LLMBudget, spent: { tokens: number; costUsd: number }) {
+        const limits = [
+            budget.maxTokens !== undefined ? `${budget.maxTokens} tokens` : null,
+            budget.maxCostUsd !== undefined ? `$${budget.maxCostUsd}` : null,
+        ].filter(Boolean).join(' / ');
+        super(`LLM budget of ${limits} would be exceeded (already spent ${spent.tokens} tokens, $${spent.costUsd.toFixed(4)})`);
+        this.name = 'LLMBudgetExceededError';
+        this.budget = budget;
+        this.spent = spent;
+    }
+}
+
+// Spend against one budget, shared by every call made inside its scope
+interface BudgetState {
+    budget: LLMBudget;
+    tokens: number;
+    costUsd: number;
+}
+
+interface LLMContext {
+    usage: TokenUsage[]; // Totals of every enclosing runWithUsage scope, innermost last
+    route?: string;
+    budget?: BudgetState;
+}
+
+const llmContext = new AsyncLocalStorage<LLMContext>();
+
+export function createTokenUsage(): TokenUsage {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Run fn and add the usage of every completion it makes (however deeply
+ * nested) to totals. Scopes nest: outer totals include inner ones.
+ */
+export function runWithUsage<T>(totals: TokenUsage, fn: () => Promise<T>): Promise<T> {
+    const current = llmContext.getStore();
+    return llmContext.run({ ...current, usage: [...(current?.usage || []), totals] }, fn);
+}
+
+/**
+ * Run fn as the LLM work of one request: its calls are recorded under route
+ * and count against budget
+ */
+export function runWithLLMContext<T>(context: { route: string; budget?: LLMBudget }, fn: () => Promise<T>): Promise<T> {
+    const current = llmContext.getStore();
+    return llmContext.run({
+        usage: current?.usage || [],
+        route: context.route,
+        budget: context.budget ? { budget: context.budget, tokens: 0, costUsd: 0 } : current?.budget,
+    }, fn);
+}
+
+/**
+ * Whether sending messages to model would take the request over budget,
+ * counting the prompt (roughly four characters per token) before it is spent
+ */
+function wouldExceedBudget(state: BudgetState, model: string, messages: ChatMessage[]): boolean {
+    const { maxTokens, maxCostUsd } = state.budget;
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const promptCost = estimateCost(model, { promptTokens, completionTokens: 0, totalTokens: promptTokens }) || 0;
+    return (maxTokens !== undefined && state.tokens + promptTokens > maxTokens) ||
+        (maxCostUsd !== undefined && state.costUsd + promptCost > maxCostUsd);
+}
+
+/**
+ * Persist one call to llm_calls without holding up the caller
+ * (set LLM_CALL_LOG=false to disable, e.g. for offline scripts)
+ */
+function recordCall(record: LLMCallRecord) {
+    if (process.env.LLM_CALL_LOG === 'false') return;
+    import('./llm-usage')
+        .then(({ recordLLMCall }) => recordLLMCall(record))
+        .catch(error => console.error('Failed to record LLM call:', error));
+}
+
+/**
+ * Run a chat completion on the active provider and return the full result.
+ * Over-budget requests either switch to the provider's cheaper model or
+ * throw LLMBudgetExceededError before calling it.
+ */
+export async function chatCompletion(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+): Promise<LLMCompletion> {
+    const context = llmContext.getStore();
+    const provider = getLLMProvider();
+    const { caller = 'unknown', ...providerOptions } = options;
+    const requestedModel = options.model || provider.defaultModel;
+
+    const base = {
+        provider: provider.name,
+        caller,
+        ...(context?.route ? { route: context.route } : {}),
+    };
+
+    let model = requestedModel;
+    const budget = context?.budget;
+    if (budget && wouldExceedBudget(budget, requestedModel, messages)) {
+        if (budget.budget.onExceeded === 'downgrade' && provider.downgradeModel) {
+            model = provider.downgradeModel;
+        } else {
+            const error = new LLMBudgetExceededError(budget.budget, { tokens: budget.tokens, costUsd: budget.costUsd });
+            recordCall({
+                ...base, model, status: 'rejected', downgraded: false,
+                promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0,
+                error: error.message, createdAt: new Date(),
+            });
+            throw error;
+        }
+    }
+    const downgraded = model !== requestedModel;
+
+    const startedAt = Date.now();
+    let completion: LLMCompletion;
+    try {
+        completion = await provider.complete(messages, { ...providerOptions, model });
+    } catch (error) {
+        recordCall({
+            ...base, model, status: 'failed', downgraded,
+            promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: Date.now() - startedAt,
+            error: String(error), createdAt: new Date(),
+        });
+        throw error;
+    }
+
+    const costUsd = estimateCost(completion.model, completion.usage);
+    recordCall({
+        ...base,
+        model: completion.model,
+        ...(downgraded ? { requestedModel } : {}),
+        status: 'completed',
+        downgraded,
+        promptTokens: completion.usage?.promptTokens || 0,
+        completionTokens: completion.usage?.completionTokens || 0,
+        totalTokens: completion.usage?.totalTokens || 0,
+        costUsd,
+        latencyMs: Date.now() - startedAt,
+        createdAt: new Date(),
+    });
+
+    if (budget) {
+        budget.tokens += completion.usage?.totalTokens || 0;
+        budget.costUsd += costUsd || 0;
+    }
+
+    for (const totals of context?.usage || []) {
+        totals.calls++;
+        totals.promptTokens += completion.usage?.promptTokens || 0;
+        totals.completionTokens += completion.usage?.completionTokens || 0;
+        totals.totalTokens += completion.usage?.totalTokens || 0;
+    }
+
+    return completion;
+}
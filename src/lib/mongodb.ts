@@ -20,6 +20,15 @@ export const COLLECTIONS = {
     AGENT_TASKS: 'agent_tasks',
     CACHE_EMBEDDINGS: 'cache_embeddings',
     CACHE_SEARCH_RESULTS: 'cache_search_results',
+    REEMBED_JOBS: 'reembed_jobs',
+    FEEDBACK: 'feedback',
+    RANKER_MODELS: 'ranker_models',
+    SKILL_TAXONOMY: 'skill_taxonomy',
+    VERIFICATIONS: 'verifications',
+    DATASET_STATE: 'dataset_state',
+    LLM_CALLS: 'llm_calls',
+    INGEST_JOBS: 'ingest_jobs',
+    EXPERT_CHANGES: 'expert_changes',
 } as const;
 
 // Cached connection
@@ -44,6 +53,14 @@ export async function connectToDatabase(): Promise<{ client: MongoClient; db: Db
     const { ensureIndexes } = await import('./index-setup');
     ensureIndexes().catch(err => console.error('Failed to run index optimization:', err));
 
+    // Keep experts embedded before provenance was recorded in vector search
+    const { tagLegacyExpertEmbeddings } = await import('./reembed');
+    tagLegacyExpertEmbeddings().catch(err => console.error('Failed to tag legacy embeddings:', err));
+
+    // Queue re-syncs of stale GitHub / Stack Overflow profiles periodically
+    const { startProfileSyncScheduler } = await import('./profile-sync');
+    startProfileSyncScheduler();
+
     return { client, db };
 }
 
@@ -52,6 +69,15 @@ export async function getDb(): Promise<Db> {
     return db;
 }
 
+// Provenance of a stored embedding vector
+export interface EmbeddingMetadata {
+    provider: string;
+    model: string;
+    dimensions: number;
+    version?: number; // Expert profile text template version
+    createdAt?: Date;
+}
+
 // Expert Profile Interface
 export interface Expert {
     _id?: string;
@@ -65,7 +91,8 @@ export interface Expert {
         level: 'junior' | 'mid' | 'senior' | 'expert';
         yearsExp: number;
     }[];
-    skillVector?: number[]; // Voyage AI embedding
+    skillVector?: number[]; // Profile embedding
+    embedding?: EmbeddingMetadata; // Which provider/model produced skillVector
     linkedIn?: string;
     github?: string;
     stackoverflow?: string;
@@ -82,8 +109,16 @@ export interface Expert {
         consistencyScore: number;   // Regular activity over time
         expertiseDepth: number;     // Specialization in skills
     };
+    // Generated or extracted profiles rather than real imported ones
+    isSynthetic?: boolean;
     // Source-specific metrics
-    sources?: { platform: string; profileUrl: string; lastSyncedAt: Date }[];
+    sources?: {
+        platform: string;
+        profileUrl: string;
+        lastSyncedAt: Date;
+        lastSyncAttemptAt?: Date; // Last re-sync attempt, successful or not (see ./profile-sync.ts)
+        syncError?: string;
+    }[];
     metrics?: {
         githubFollowers?: number;
         githubRepos?: number;
@@ -97,6 +132,58 @@ export interface Expert {
     updatedAt: Date;
 }
 
+// One source's cross-check (see ./verification.ts)
+export interface VerificationEvidence {
+    platform: 'github' | 'stackoverflow';
+    profileUrl: string;
+    fetched: boolean;
+    stale: boolean;
+    confirmedSkills: string[];
+    unconfirmedSkills: string[];
+    discrepancies: string[];
+    error?: string;
+    notFound?: boolean; // The platform answered that the profile does not exist
+}
+
+// Result of cross-checking an expert against their external profiles
+export interface ExpertVerification {
+    status: 'verified' | 'partial' | 'unverified' | 'synthetic';
+    confidence: number; // 0-1
+    synthetic: boolean;
+    discrepancies: string[];
+    sources: VerificationEvidence[];
+    checkedAt: Date;
+    expiresAt?: Date;
+    cached?: boolean; // Reused from the verifications collection
+}
+
+// Persisted verification per expert and source, reused until expiresAt
+export interface Verification {
+    _id?: string;
+    expertId: string;
+    source: 'github' | 'stackoverflow' | 'profile'; // profile: synthetic or nothing linked
+    profileUrl?: string;
+    claimsKey: string; // Claimed skills the evidence was checked against
+    status: ExpertVerification['status'];
+    confidence: number;
+    evidence?: VerificationEvidence;
+    discrepancies: string[];
+    checkedAt: Date;
+    expiresAt: Date;
+}
+
+// Typed query constraints (see ./constraints.ts)
+export type QueryConstraint =
+    | { type: 'renown'; value: 'popular' | 'hidden' | 'rising' | 'any' }
+    | { type: 'timezone'; value: string } // Timezone code (CET) or region (europe)
+    | { type: 'min_years'; skill: string; value: number }
+    | { type: 'skill_level'; skill?: string; value: Expert['skills'][number]['level'] }
+    | { type: 'hours_per_week'; value: number }
+    | { type: 'department'; value: string }
+    | { type: 'availability'; value: Expert['availability']['status'] }
+    | { type: 'exclude_synthetic'; value: true }
+    | { type: 'source_platform'; value: string };
+
 // Query Interface
 export interface Query {
     _id?: string;
@@ -104,7 +191,7 @@ export interface Query {
     rawQuery: string;
     parsedRequirements?: {
         skills: { name: string; weight: number }[];
-        constraints: { type: string; value: string }[];
+        constraints: QueryConstraint[];
         intent: string;
     };
     agentConversation: {
@@ -114,11 +201,37 @@ export interface Query {
         timestamp: Date;
     }[];
     results: string[]; // Expert IDs
+    mode?: 'team'; // Team composition query (results are one expert per role)
+    sessionId?: string;
+    refinementOf?: string; // queryId this query refines
+    searchText?: string; // Refinements: what retrieval and explanations ran on (original query, follow-ups, merged skills)
+    replayOf?: string; // queryId this query re-runs against the current pool
+    // Feature snapshot per returned expert, joined with feedback to train the ranker
+    rankings?: { expertId: string; matchScore: number; features: Record<string, number> }[];
     status: 'processing' | 'completed' | 'failed';
     createdAt: Date;
     completedAt?: Date;
 }
 
+// Conversational search session, stored in agent_memory (see ./sessions.ts)
+export interface SearchSession {
+    _id?: string;
+    sessionId: string;
+    kind: 'search_session';
+    turns: {
+        queryId: string;
+        rawQuery: string;
+        refinementOf?: string; // Previous turn's queryId
+        searchQuery?: string; // Original query and every follow-up so far (only rawQuery on the first turn)
+        parsedRequirements: NonNullable<Query['parsedRequirements']>;
+        // Enough of each result to resolve "the second one" in a follow-up
+        results: { expertId: string; name: string; title: string; skills: string[] }[];
+        createdAt: Date;
+    }[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
 // Agent Task Interface
 export interface AgentTask {
     _id?: string;
@@ -126,12 +239,152 @@ export interface AgentTask {
     queryId: string;
     agents: string[];
     status: 'pending' | 'in_progress' | 'completed' | 'failed';
-    steps: {
-        agent: string;
-        action: string;
-        output?: unknown;
-        completedAt?: Date;
-    }[];
+    steps: AgentTaskStep[];
     startedAt: Date;
     completedAt?: Date;
+    durationMs?: number;
+    usage?: TokenUsage; // All LLM calls made for the task
+    error?: string;
+}
+
+// LLM token usage summed over one or more calls
+export interface TokenUsage {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+// One agent execution within a task (see ./tasks.ts)
+export interface AgentTaskStep {
+    agent: string;
+    action: string;
+    status: 'completed' | 'failed';
+    inputSize: number; // Bytes of JSON input
+    summary: string;   // Human-readable output summary
+    output?: unknown;  // Small structured output summary (counts, names)
+    usage: TokenUsage;
+    error?: { name: string; message: string; details?: unknown };
+    startedAt: Date;
+    completedAt: Date;
+    durationMs: number;
+}
+
+// One chat completion, recorded by ./llm.ts (see ./llm-usage.ts for reports)
+export interface LLMCallRecord {
+    provider: string;
+    model: string;
+    requestedModel?: string; // Set when an over-budget request was downgraded
+    caller: string; // e.g. parseQuery, generateExplanations, rag
+    route?: string; // API route the call was made for
+    status: 'completed' | 'failed' | 'rejected'; // rejected: refused by the request budget
+    downgraded: boolean;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number | null; // null for models without a known price
+    latencyMs: number;
+    error?: string;
+    createdAt: Date;
+}
+
+// Re-embedding Job Interface
+export interface ReembedJob {
+    _id?: string;
+    jobId: string;
+    status: 'running' | 'completed' | 'cancelled' | 'failed';
+    target: EmbeddingMetadata;
+    batchSize: number;
+    cursor?: string; // Last processed expert _id
+    progress: {
+        total: number;
+        processed: number;
+        updated: number;
+        failed: number;
+    };
+    errors: { expertId: string; error: string; at: Date }[];
+    cachePurged?: number;
+    createdAt: Date;
+    updatedAt: Date;
+    completedAt?: Date;
+    lastError?: string;
+}
+
+// Ingestion Job Interface (see ./ingest-jobs.ts)
+export interface IngestJob {
+    _id?: string;
+    jobId: string;
+    kind: 'github' | 'stackoverflow' | 'bulk' | 'generate' | 'resync';
+    status: 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+    params: Record<string, unknown>; // Normalized request options
+    items: string[]; // Units of work in order: languages, tags, fields or expert ids
+    cursor: number; // Index of the next item to process
+    cleared?: boolean; // clearExisting already applied
+    progress: {
+        items: number;
+        processedItems: number;
+        imported: number;
+        skipped: number;
+        failed: number;
+    };
+    itemResults: { item: string; imported: number; skipped: number; failed: number; error?: string }[];
+    failedItems: string[]; // Items that failed as a whole; re-queued by a retry
+    errors: { item: string; subject?: string; error: string; at: Date }[];
+    attempts: number;
+    workerId?: string;
+    leaseExpiresAt?: Date; // A running job whose lease lapsed is reclaimed from its cursor
+    notBefore?: Date; // Queued job paused for a rate limit or open circuit
+    createdAt: Date;
+    updatedAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+    lastError?: string;
+}
+
+// One re-sync's changes to an expert profile (see ./profile-sync.ts)
+export interface ExpertChange {
+    _id?: string;
+    expertId: string;
+    platforms: string[]; // Sources the new values came from
+    changes: { field: string; from: unknown; to: unknown }[];
+    reembedded: boolean; // Profile text changed, so skillVector was regenerated
+    changedAt: Date;
+}
+
+// Relevance feedback on a returned match
+export interface Feedback {
+    _id?: string;
+    queryId: string;
+    expertId: string;
+    relevant: boolean;
+    features: Record<string, number>; // Snapshot taken when the match was ranked
+    createdAt: Date;
+}
+
+// Fitted ranking model (see ./ranker.ts)
+export interface RankerModel {
+    _id?: string;
+    modelId: string;
+    link: 'linear' | 'logistic';
+    weights: Record<string, number>;
+    bias: number;
+    active: boolean;
+    training?: {
+        examples: number;
+        positives: number;
+        logLoss: number;
+        accuracy: number;
+    };
+    createdAt: Date;
+}
+
+// Skill taxonomy entry (see ./taxonomy.ts)
+export interface SkillTaxonomyEntry {
+    _id?: string;
+    canonical: string;   // Display name every alias normalizes to
+    aliases: string[];   // Alternate spellings and abbreviations ("k8s")
+    parents: string[];   // Broader canonical skills (React -> JavaScript)
+    category: string;    // Grouping such as "Frontend" or "DevOps"
+    createdAt?: Date;
+    updatedAt?: Date;
 }
@@ -0,0 +1,302 @@
+/**
+ * Profile Re-sync for ExpertMesh
+ * Re-fetches the GitHub and Stack Overflow profiles behind imported experts
+ * once their last sync is older than PROFILE_SYNC_MAX_AGE_DAYS and updates
+ * metrics, skills, renown and quality scores in place. The vector is only
+ * regenerated when the embedded profile text changed, and every change is
+ * recorded in the expert_changes collection. A scheduler queues the work as
+ * 'resync' ingestion jobs (see ./ingest-jobs.ts).
+ */
+
+import { ObjectId } from 'mongodb';
+import { getDb, COLLECTIONS, Expert, ExpertChange, IngestJob } from './mongodb';
+import { getUserDetails, convertToExpert, parseGitHubUsername } from './github';
+import { getUsersByIds, convertSOUserToExpert, parseStackOverflowUserId } from './stackoverflow';
+import { generateExpertEmbedding, getEmbeddingMetadata, expertEmbeddingText } from './voyage';
+import { normalizeSkills } from './taxonomy';
+import { bumpDatasetGeneration } from './search-cache';
+import { isServiceUnavailable } from './http';
+
+const SYNCABLE_PLATFORMS = ['github', 'stackoverflow'];
+const RENOWN_ORDER: NonNullable<Expert['renownLevel']>[] = ['hidden', 'rising', 'established', 'famous'];
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_BATCH_SIZE = 200; // Experts per scheduled job
+const FIRST_RUN_DELAY_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+let schedulerStarted = false;
+
+type Sources = NonNullable<Expert['sources']>;
+
+// What one linked profile says about the expert right now
+type FreshProfile = {
+    platform: string;
+    title: string;
+    bio: string;
+    skills: Expert['skills'];
+    metrics: Record<string, unknown>;
+    renownLevel: NonNullable<Expert['renownLevel']>;
+    qualityMetrics?: Expert['qualityMetrics'];
+};
+
+export interface ResyncResult {
+    expertId: string;
+    changes: ExpertChange['changes'];
+    reembedded: boolean;
+    errors: { subject: string; error: string }[]; // Sources that could not be fetched
+}
+
+export function profileSyncMaxAgeDays(): number {
+    return parseInt(process.env.PROFILE_SYNC_MAX_AGE_DAYS || '') || DEFAULT_MAX_AGE_DAYS;
+}
+
+export function profileSyncBatchSize(): number {
+    return parseInt(process.env.PROFILE_SYNC_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+}
+
+// 0 disables the scheduler
+function intervalHours(): number {
+    const hours = parseFloat(process.env.PROFILE_SYNC_INTERVAL_HOURS || '');
+    return Number.isFinite(hours) ? hours : DEFAULT_INTERVAL_HOURS;
+}
+
+function expertFilter(expertId: string) {
+    return { _id: (ObjectId.isValid(expertId) ? new ObjectId(expertId) : expertId) as unknown as string };
+}
+
+/**
+ * Imported experts with a GitHub or Stack Overflow source not synced (or
+ * attempted) within maxAgeDays, oldest first
+ */
+export async function findStaleExpertIds(maxAgeDays: number, limit: number): Promise<string[]> {
+    const db = await getDb();
+    const cutoff = new Date(Date.now() - maxAgeDays * DAY_MS);
+
+    const experts = await db.collection<Expert>(COLLECTIONS.EXPERTS)
+        .find({
+            isSynthetic: { $ne: true },
+            sources: {
+                $elemMatch: {
+                    platform: { $in: SYNCABLE_PLATFORMS },
+                    lastSyncedAt: { $lt: cutoff },
+                    $or: [{ lastSyncAttemptAt: { $exists: false } }, { lastSyncAttemptAt: { $lt: cutoff } }],
+                },
+            },
+        })
+        .sort({ 'sources.lastSyncedAt': 1 })
+        .limit(limit)
+        .project<{ _id: ObjectId }>({ _id: 1 })
+        .toArray();
+
+    return experts.map(expert => String(expert._id));
+}
+
+async function fetchFreshProfile(platform: string, profileUrl: string): Promise<FreshProfile> {
+    if (platform === 'github') {
+        const username = parseGitHubUsername(profileUrl);
+        if (!username) throw new Error(`Not a GitHub profile URL: ${profileUrl}`);
+
+        const profile = await convertToExpert(await getUserDetails(username));
+        return {
+            platform,
+            title: profile.title,
+            bio: profile.bio,
+            skills: profile.skills as Expert['skills'],
+            metrics: profile.metrics,
+            renownLevel: profile.renownLevel,
+            qualityMetrics: profile.qualityMetrics,
+        };
+    }
+
+    const userId = parseStackOverflowUserId(profileUrl);
+    if (userId === null) throw new Error(`Not a Stack Overflow profile URL: ${profileUrl}`);
+
+    const [user] = await getUsersByIds([userId]);
+    if (!user) throw new Error(`Stack Overflow user ${userId} not found`);
+
+    const profile = await convertSOUserToExpert(user);
+    return {
+        platform,
+        title: profile.title,
+        bio: profile.bio,
+        skills: profile.skills as Expert['skills'],
+        metrics: profile.metrics,
+        renownLevel: profile.renownLevel,
+    };
+}
+
+function diffValue(changes: ExpertChange['changes'], field: string, from: unknown, to: unknown) {
+    if (to === undefined) return;
+    if (JSON.stringify(from ?? null) !== JSON.stringify(to)) {
+        changes.push({ field, from: from ?? null, to });
+    }
+}
+
+function diffObject(changes: ExpertChange['changes'], prefix: string, from: object | undefined, to: object | undefined) {
+    const before = (from || {}) as Record<string, unknown>;
+    const after = (to || {}) as Record<string, unknown>;
+    for (const key of Object.keys(after)) {
+        diffValue(changes, `${prefix}.${key}`, before[key], after[key]);
+    }
+}
+
+/**
+ * Re-fetch one expert's linked profiles and apply what changed. Title, bio
+ * and skills follow the first linked profile (skills from every profile are
+ * merged), metrics from all of them, and renown takes the highest level.
+ * Rate limits and open circuits are rethrown so the job pauses.
+ */
+export async function resyncExpert(expertId: string): Promise<ResyncResult> {
+    const db = await getDb();
+    const experts = db.collection<Expert>(COLLECTIONS.EXPERTS);
+    const filter = expertFilter(expertId);
+
+    const expert = await experts.findOne(filter);
+    if (!expert) throw new Error(`Expert ${expertId} not found`);
+
+    const now = new Date();
+    const result: ResyncResult = { expertId, changes: [], reembedded: false, errors: [] };
+    const fresh: FreshProfile[] = [];
+    const sources: Sources = [];
+
+    for (const source of expert.sources || []) {
+        if (!SYNCABLE_PLATFORMS.includes(source.platform)) {
+            sources.push(source);
+            continue;
+        }
+
+        try {
+            fresh.push(await fetchFreshProfile(source.platform, source.profileUrl));
+            sources.push({ platform: source.platform, profileUrl: source.profileUrl, lastSyncedAt: now, lastSyncAttemptAt: now });
+        } catch (error) {
+            if (isServiceUnavailable(error)) throw error;
+            result.errors.push({ subject: source.profileUrl, error: String(error) });
+            sources.push({ ...source, lastSyncAttemptAt: now, syncError: String(error) });
+        }
+    }
+
+    if (fresh.length === 0) {
+        await experts.updateOne(filter, { $set: { sources } });
+        return result;
+    }
+
+    const primary = fresh[0];
+    const skills = await normalizeSkills(fresh.flatMap(profile => profile.skills));
+    const qualityMetrics = fresh.find(profile => profile.qualityMetrics)?.qualityMetrics;
+
+    const updated: Partial<Expert> = {
+        title: primary.title,
+        bio: primary.bio,
+        skills,
+        renownLevel: RENOWN_ORDER[Math.max(...fresh.map(profile => RENOWN_ORDER.indexOf(profile.renownLevel)))],
+        metrics: Object.assign({}, expert.metrics, ...fresh.map(profile => profile.metrics)),
+        ...(qualityMetrics ? { qualityMetrics } : {}),
+    };
+
+    diffValue(result.changes, 'title', expert.title, updated.title);
+    diffValue(result.changes, 'bio', expert.bio, updated.bio);
+    diffValue(result.changes, 'skills', expert.skills, updated.skills);
+    diffValue(result.changes, 'renownLevel', expert.renownLevel, updated.renownLevel);
+    diffObject(result.changes, 'metrics', expert.metrics, updated.metrics);
+    diffObject(result.changes, 'qualityMetrics', expert.qualityMetrics, updated.qualityMetrics);
+
+    const set: Record<string, unknown> = { sources };
+    if (result.changes.length > 0) {
+        Object.assign(set, updated, { updatedAt: now });
+
+        // Metric-only changes keep the existing vector
+        if (expertEmbeddingText(expert) !== expertEmbeddingText({ ...expert, ...updated })) {
+            set.skillVector = await generateExpertEmbedding({ ...expert, ...updated });
+            set.embedding = getEmbeddingMetadata();
+            result.reembedded = true;
+        }
+    }
+
+    await experts.updateOne(filter, { $set: set });
+
+    if (result.changes.length > 0) {
+        await db.collection<ExpertChange>(COLLECTIONS.EXPERT_CHANGES).insertOne({
+            expertId,
+            platforms: fresh.map(profile => profile.platform),
+            changes: result.changes,
+            reembedded: result.reembedded,
+            changedAt: now,
+        });
+        // Stored verifications checked the old profile
+        await db.collection(COLLECTIONS.VERIFICATIONS).deleteMany({ expertId });
+        await bumpDatasetGeneration(`re-synced expert ${expertId}`);
+    }
+
+    return result;
+}
+
+/**
+ * An expert's sync state per source and change history, newest first
+ */
+export async function getExpertHistory(expertId: string, limit: number = 50): Promise<{
+    expertId: string;
+    name: string;
+    sources: Sources;
+    changes: ExpertChange[];
+} | null> {
+    const db = await getDb();
+    const expert = await db.collection<Expert>(COLLECTIONS.EXPERTS)
+        .findOne(expertFilter(expertId), { projection: { name: 1, sources: 1 } });
+    if (!expert) return null;
+
+    const changes = await db.collection<ExpertChange>(COLLECTIONS.EXPERT_CHANGES)
+        .find({ expertId }, { projection: { _id: 0 } })
+        .sort({ changedAt: -1 })
+        .limit(Math.min(200, Math.max(1, limit)))
+        .toArray();
+
+    return { expertId, name: expert.name, sources: expert.sources || [], changes };
+}
+
+/**
+ * Queue a re-sync job for stale profiles unless one is already pending.
+ * Returns null when nothing is stale or a job is queued or running; a
+ * pending job still gets a worker, since one left running by a restart
+ * (lapsed lease) or paused for a rate limit is otherwise never picked up.
+ */
+export async function queueProfileSync(): Promise<IngestJob | null> {
+    // Loaded lazily: the job queue imports this module through its sources
+    const { enqueueIngestJob, ensureIngestWorker, InvalidIngestJobError } = await import('./ingest-jobs');
+
+    const db = await getDb();
+    const pending = await db.collection<IngestJob>(COLLECTIONS.INGEST_JOBS)
+        .findOne({ kind: 'resync', status: { $in: ['queued', 'running'] } });
+    if (pending) {
+        ensureIngestWorker();
+        return null;
+    }
+
+    try {
+        return await enqueueIngestJob('resync');
+    } catch (error) {
+        if (error instanceof InvalidIngestJobError) return null; // Nothing stale
+        throw error;
+    }
+}
+
+/**
+ * Check for stale profiles every PROFILE_SYNC_INTERVAL_HOURS in this process
+ * (first check a minute after startup). Timers are unref'd so they never
+ * keep a script alive.
+ */
+export function startProfileSyncScheduler() {
+    const hours = intervalHours();
+    if (schedulerStarted || hours <= 0) return;
+    schedulerStarted = true;
+
+    const tick = () => {
+        queueProfileSync()
+            .then(job => job && console.log(`🔄 Queued profile re-sync job ${job.jobId} (${job.items.length} experts)`))
+            .catch(error => console.error('❌ Failed to queue profile re-sync:', error));
+    };
+
+    setTimeout(tick, FIRST_RUN_DELAY_MS).unref();
+    setInterval(tick, hours * HOUR_MS).unref();
+}
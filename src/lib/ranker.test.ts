@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { skillSimilarity } from './ranker';
+
+describe('skillSimilarity', () => {
+    it('matches spellings of the same skill exactly', () => {
+        expect(skillSimilarity('React.js', 'ReactJS')).toBe(1);
+        expect(skillSimilarity('Node.js', 'node')).toBe(1);
+    });
+
+    it('credits a skill contained in another as whole words', () => {
+        expect(skillSimilarity('React', 'React Native')).toBe(0.8);
+        expect(skillSimilarity('machine learning', 'Applied Machine Learning')).toBe(0.8);
+    });
+
+    it('does not credit skills that only share a substring', () => {
+        expect(skillSimilarity('Java', 'JavaScript')).toBe(0);
+        expect(skillSimilarity('SQL', 'MySQL')).toBe(0);
+        expect(skillSimilarity('SQL', 'NoSQL')).toBe(0);
+    });
+
+    it('gives partial credit to close misspellings', () => {
+        expect(skillSimilarity('Kubernetes', 'Kubernets')).toBeGreaterThan(0.6);
+    });
+});
@@ -0,0 +1,370 @@
+/**
+ * Feature-based Ranker for ExpertMesh
+ * Scores candidates from a vector of normalized features. Weights start
+ * from hand-tuned defaults and can be refitted offline (logistic
+ * regression) from relevance feedback recorded against past queries.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, COLLECTIONS, Expert, ExpertVerification, Query, Feedback, RankerModel } from './mongodb';
+import { scoreConstraint, scoreConstraints } from './constraints';
+import { RetrievalSignals } from './retrieval';
+import type { SkillGraph } from './skill-graph';
+
+export const RANKING_FEATURES = [
+    'vectorSimilarity', // Scout's $vectorSearch score
+    'skillMatch',       // Fuzzy coverage of the requested skills
+    'skillDepth',       // Level and years on the matched skills
+    'quality',          // qualityMetrics from imported profiles
+    'availability',     // Status and hours per week
+    'renown',           // Fit with the requested renown level
+    'constraints',      // Satisfaction of the remaining typed constraints
+    'verification',     // Verifier confidence from re-fetched external profiles
+] as const;
+
+export type RankingFeature = typeof RANKING_FEATURES[number];
+export type FeatureVector = Record<RankingFeature, number>;
+
+// Per-feature breakdown returned on every match
+export interface ScoreBreakdown {
+    modelId: string;
+    features: FeatureVector;
+    contributions: FeatureVector;
+}
+
+export const DEFAULT_RANKER_MODEL: RankerModel = {
+    modelId: 'default',
+    link: 'linear',
+    weights: {
+        vectorSimilarity: 0.2,
+        skillMatch: 0.3,
+        skillDepth: 0.1,
+        quality: 0.05,
+        availability: 0.1,
+        renown: 0.1,
+        constraints: 0.1,
+        verification: 0.05,
+    },
+    bias: 0,
+    active: true,
+    createdAt: new Date(0),
+};
+
+const LEVEL_SCORES: Record<Expert['skills'][number]['level'], number> = {
+    junior: 0.25,
+    mid: 0.5,
+    senior: 0.75,
+    expert: 1,
+};
+
+const MODEL_CACHE_TTL_MS = 60 * 1000;
+let cachedModel: { model: RankerModel; loadedAt: number } | null = null;
+
+// "React.js" / "ReactJS" -> ["react"], "React Native" -> ["react", "native"]
+function skillTokens(name: string): string[] {
+    const tokens = name.toLowerCase().split(/[\s._/-]+/).filter(Boolean);
+    if (tokens.length > 1 && tokens[tokens.length - 1] === 'js') tokens.pop();
+    return tokens.map(token => (token.length > 4 && token.endsWith('js') ? token.slice(0, -2) : token));
+}
+
+// Whether `phrase` appears as consecutive whole tokens of `tokens`
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+    for (let start = 0; start + phrase.length <= tokens.length; start++) {
+        if (phrase.every((token, i) => tokens[start + i] === token)) return true;
+    }
+    return false;
+}
+
+function bigrams(text: string): string[] {
+    const grams: string[] = [];
+    for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+    return grams;
+}
+
+/**
+ * Fuzzy similarity between two skill names, from 0 to 1
+ */
+export function skillSimilarity(a: string, b: string): number {
+    const tx = skillTokens(a);
+    const ty = skillTokens(b);
+    const x = tx.join('');
+    const y = ty.join('');
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+
+    // Whole-word containment only: "React" ~ "React Native", but not Java ~ JavaScript or SQL ~ MySQL
+    if (Math.min(x.length, y.length) >= 3 && (containsPhrase(tx, ty) || containsPhrase(ty, tx))) return 0.8;
+
+    // Dice coefficient over character bigrams catches spelling variants,
+    // which keep roughly the same length (a prefix like "My" or "No" does not)
+    if (Math.min(x.length, y.length) / Math.max(x.length, y.length) < 0.8) return 0;
+    const gx = bigrams(x);
+    const gy = bigrams(y);
+    const remaining = [...gy];
+    let overlap = 0;
+    for (const gram of gx) {
+        const i = remaining.indexOf(gram);
+        if (i >= 0) {
+            overlap++;
+            remaining.splice(i, 1);
+        }
+    }
+    const dice = gx.length + gy.length > 0 ? (2 * overlap) / (gx.length + gy.length) : 0;
+    return dice >= 0.6 ? dice * 0.8 : 0;
+}
+
+function depthOf(skill: Expert['skills'][number]): number {
+    return 0.5 * (LEVEL_SCORES[skill.level] ?? 0.5) + 0.5 * Math.min(1, (skill.yearsExp || 0) / 10);
+}
+
+/**
+ * Compute the normalized (0-1) feature vector for one candidate.
+ * With a skill graph, adjacent skills earn graded partial credit.
+ */
+export function extractFeatures(
+    expert: Expert,
+    requirements: Query['parsedRequirements'],
+    context: { retrieval?: RetrievalSignals; graph?: SkillGraph; verification?: ExpertVerification } = {}
+): FeatureVector {
+    const { retrieval, graph, verification } = context;
+    const required = requirements?.skills || [];
+    const constraints = requirements?.constraints || [];
+
+    let skillMatch = 0.5;
+    let skillDepth = expert.skills.length > 0
+        ? expert.skills.slice(0, 3).reduce((sum, s) => sum + depthOf(s), 0) / Math.min(3, expert.skills.length)
+        : 0;
+
+    if (required.length > 0) {
+        let totalWeight = 0;
+        let matchedWeight = 0;
+        let depthWeight = 0;
+        let depthSum = 0;
+
+        for (const req of required) {
+            totalWeight += req.weight;
+
+            let best = 0;
+            let bestSkill: Expert['skills'][number] | undefined;
+            for (const skill of expert.skills) {
+                const similarity = graph
+                    ? graph.similarity(req.name, skill.name).score
+                    : skillSimilarity(req.name, skill.name);
+                if (similarity > best) {
+                    best = similarity;
+                    bestSkill = skill;
+                }
+            }
+
+            matchedWeight += req.weight * best;
+            if (bestSkill) {
+                depthWeight += req.weight * best;
+                depthSum += req.weight * best * depthOf(bestSkill);
+            }
+        }
+
+        skillMatch = totalWeight > 0 ? matchedWeight / totalWeight : 0.5;
+        skillDepth = depthWeight > 0 ? depthSum / depthWeight : 0;
+    }
+
+    const metrics = expert.qualityMetrics;
+    const quality = metrics
+        ? (metrics.activityScore + metrics.consistencyScore + metrics.expertiseDepth) / 300
+        : 0.5;
+
+    const statusScore = { available: 1, busy: 0.3, unavailable: 0 }[expert.availability?.status] ?? 0;
+    const availability = statusScore * (0.5 + 0.5 * Math.min(1, (expert.availability?.hoursPerWeek || 0) / 40));
+
+    const renownConstraint = constraints.find(c => c.type === 'renown');
+    const renown = renownConstraint ? scoreConstraint(expert, renownConstraint) : 0.5;
+
+    const others = constraints.filter(c => c.type !== 'renown');
+    const constraintScore = scoreConstraints(expert, others).score;
+
+    return {
+        vectorSimilarity: retrieval?.vectorScore ?? 0,
+        skillMatch,
+        skillDepth,
+        quality: Math.max(0, Math.min(1, quality)),
+        availability,
+        renown,
+        constraints: constraintScore,
+        verification: verification?.confidence ?? 0.5,
+    };
+}
+
+/**
+ * Score a feature vector with a model, keeping each feature's contribution
+ */
+export function scoreFeatures(features: FeatureVector, model: RankerModel = DEFAULT_RANKER_MODEL): { score: number; breakdown: ScoreBreakdown } {
+    const contributions = {} as FeatureVector;
+    let total = model.bias;
+
+    for (const feature of RANKING_FEATURES) {
+        contributions[feature] = (model.weights[feature] || 0) * features[feature];
+        total += contributions[feature];
+    }
+
+    const score = model.link === 'logistic'
+        ? 1 / (1 + Math.exp(-total))
+        : Math.max(0, Math.min(1, total));
+
+    return { score, breakdown: { modelId: model.modelId, features, contributions } };
+}
+
+/**
+ * Active model from MongoDB (cached briefly), or the defaults
+ */
+export async function getActiveRankerModel(): Promise<RankerModel> {
+    if (cachedModel && Date.now() - cachedModel.loadedAt < MODEL_CACHE_TTL_MS) {
+        return cachedModel.model;
+    }
+
+    try {
+        const db = await getDb();
+        const model = await db.collection<RankerModel>(COLLECTIONS.RANKER_MODELS)
+            .findOne({ active: true }, { projection: { _id: 0 } });
+        cachedModel = { model: model || DEFAULT_RANKER_MODEL, loadedAt: Date.now() };
+    } catch (error) {
+        console.log('Ranker model unavailable, using defaults:', error);
+        cachedModel = { model: DEFAULT_RANKER_MODEL, loadedAt: Date.now() };
+    }
+
+    return cachedModel.model;
+}
+
+/**
+ * Raised when feedback refers to an unknown query or an expert that query did not return
+ */
+export class InvalidFeedbackError extends Error {
+    constructor(message: string, public readonly reason: 'unknown_query' | 'expert_not_in_results') {
+        super(message);
+        this.name = 'InvalidFeedbackError';
+    }
+}
+
+// Not enough (or one-sided) feedback recorded yet to fit a model
+export class InsufficientFeedbackError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InsufficientFeedbackError';
+    }
+}
+
+/**
+ * Record relevance feedback, snapshotting the features the match was ranked with
+ */
+export async function recordFeedback(input: { queryId: string; expertId: string; relevant: boolean }): Promise<Feedback> {
+    const db = await getDb();
+
+    const query = await db.collection<Query>(COLLECTIONS.QUERIES).findOne({ queryId: input.queryId });
+    if (!query) {
+        throw new InvalidFeedbackError(`Query ${input.queryId} not found`, 'unknown_query');
+    }
+
+    const ranking = query.rankings?.find(r => r.expertId === input.expertId);
+    if (!ranking) {
+        throw new InvalidFeedbackError(`Expert ${input.expertId} was not returned for query ${input.queryId}`, 'expert_not_in_results');
+    }
+
+    const feedback: Feedback = {
+        queryId: input.queryId,
+        expertId: input.expertId,
+        relevant: input.relevant,
+        features: ranking.features,
+        createdAt: new Date(),
+    };
+
+    // One label per (query, expert); the latest click wins
+    await db.collection<Feedback>(COLLECTIONS.FEEDBACK).updateOne(
+        { queryId: input.queryId, expertId: input.expertId },
+        { $set: feedback },
+        { upsert: true }
+    );
+
+    return feedback;
+}
+
+/**
+ * Fit logistic-regression weights from recorded feedback and activate them.
+ * Throws InsufficientFeedbackError until enough labelled examples exist.
+ */
+export async function fitRankerModel(options: {
+    minExamples?: number;
+    epochs?: number;
+    learningRate?: number;
+    l2?: number;
+} = {}): Promise<RankerModel> {
+    const { minExamples = 20, epochs = 500, learningRate = 0.5, l2 = 0.01 } = options;
+
+    const db = await getDb();
+    const examples = await db.collection<Feedback>(COLLECTIONS.FEEDBACK).find({}).toArray();
+    const positives = examples.filter(e => e.relevant).length;
+
+    if (examples.length < minExamples || positives === 0 || positives === examples.length) {
+        throw new InsufficientFeedbackError(
+            `Need at least ${minExamples} feedback examples including both relevant and not-relevant labels (have ${examples.length}, ${positives} relevant)`
+        );
+    }
+
+    const X = examples.map(e => RANKING_FEATURES.map(f => e.features[f] ?? 0));
+    const y = examples.map(e => (e.relevant ? 1 : 0));
+    const w = RANKING_FEATURES.map(() => 0);
+    let b = 0;
+
+    const predict = (x: number[]) => 1 / (1 + Math.exp(-(b + x.reduce((sum, xi, j) => sum + xi * w[j], 0))));
+
+    // Batch gradient descent with L2 regularization
+    for (let epoch = 0; epoch < epochs; epoch++) {
+        const gradW = w.map(() => 0);
+        let gradB = 0;
+
+        X.forEach((x, i) => {
+            const error = predict(x) - y[i];
+            x.forEach((xi, j) => { gradW[j] += error * xi; });
+            gradB += error;
+        });
+
+        w.forEach((_, j) => { w[j] -= learningRate * (gradW[j] / X.length + l2 * w[j]); });
+        b -= learningRate * (gradB / X.length);
+    }
+
+    let logLoss = 0;
+    let correct = 0;
+    X.forEach((x, i) => {
+        const p = Math.min(Math.max(predict(x), 1e-9), 1 - 1e-9);
+        logLoss -= y[i] * Math.log(p) + (1 - y[i]) * Math.log(1 - p);
+        if ((p >= 0.5 ? 1 : 0) === y[i]) correct++;
+    });
+
+    const model: RankerModel = {
+        modelId: `ranker_${uuidv4().slice(0, 8)}`,
+        link: 'logistic',
+        weights: Object.fromEntries(RANKING_FEATURES.map((f, j) => [f, w[j]])),
+        bias: b,
+        active: true,
+        training: {
+            examples: examples.length,
+            positives,
+            logLoss: logLoss / X.length,
+            accuracy: correct / X.length,
+        },
+        createdAt: new Date(),
+    };
+
+    const models = db.collection<RankerModel>(COLLECTIONS.RANKER_MODELS);
+    await models.updateMany({ active: true }, { $set: { active: false } });
+    await models.insertOne({ ...model });
+
+    cachedModel = { model, loadedAt: Date.now() };
+    return model;
+}
+
+/**
+ * Deactivate fitted models so scoring falls back to the defaults
+ */
+export async function resetRankerModel(): Promise<void> {
+    const db = await getDb();
+    await db.collection<RankerModel>(COLLECTIONS.RANKER_MODELS).updateMany({ active: true }, { $set: { active: false } });
+    cachedModel = null;
+}
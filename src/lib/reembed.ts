@@ -0,0 +1,298 @@
+/**
+ * Re-embedding Migration Job for ExpertMesh
+ * Regenerates expert vectors in batches whenever the active embedding model
+ * (or the profile text version) changes. Jobs are persisted in MongoDB and
+ * resume from their last cursor.
+ */
+
+import { ObjectId, Filter, Document } from 'mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, COLLECTIONS, ReembedJob, EmbeddingMetadata } from './mongodb';
+import { generateExpertEmbeddings, getEmbeddingMetadata, LEGACY_EMBEDDING } from './voyage';
+import { bumpDatasetGeneration } from './search-cache';
+import { isServiceUnavailable } from './http';
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_RECORDED_ERRORS = 50;
+
+// Worker loops running in this process (cancellation is signalled through the job document)
+const runningJobs = new Map<string, Promise<void>>();
+
+export class InvalidReembedJobError extends Error {
+    constructor(message: string, public readonly reason: 'not_found' | 'conflict') {
+        super(message);
+        this.name = 'InvalidReembedJobError';
+    }
+}
+
+/**
+ * Experts whose vector was not produced by the target model/version
+ */
+function staleExpertsFilter(target: EmbeddingMetadata, cursor?: string): Filter<Document> {
+    return {
+        ...(cursor ? { _id: { $gt: new ObjectId(cursor) } } : {}),
+        $or: [
+            { 'embedding.provider': { $ne: target.provider } },
+            { 'embedding.model': { $ne: target.model } },
+            { 'embedding.version': { $ne: target.version } },
+        ],
+    };
+}
+
+/**
+ * Tag cache entries written before provenance was recorded, then drop
+ * entries from other models so lookups never mix vector spaces
+ */
+async function reconcileEmbeddingCache(target: EmbeddingMetadata): Promise<number> {
+    const db = await getDb();
+    const cache = db.collection(COLLECTIONS.CACHE_EMBEDDINGS);
+
+    await cache.updateMany(
+        { model: { $exists: false } },
+        { $set: { provider: LEGACY_EMBEDDING.provider, model: LEGACY_EMBEDDING.model, dimensions: LEGACY_EMBEDDING.dimensions } }
+    );
+
+    const purged = await cache.deleteMany({ model: { $ne: target.model } });
+    return purged.deletedCount;
+}
+
+/**
+ * Tag experts embedded before provenance was recorded with the legacy model,
+ * so vector search keeps returning them while that model is active and
+ * re-embedding jobs pick them up once it is not. Runs on first connection.
+ */
+export async function tagLegacyExpertEmbeddings(): Promise<number> {
+    const db = await getDb();
+    const result = await db.collection(COLLECTIONS.EXPERTS).updateMany(
+        { skillVector: { $exists: true }, embedding: { $exists: false } },
+        // Version 1 is the profile text those vectors were built from
+        { $set: { embedding: { ...LEGACY_EMBEDDING, version: 1 } } }
+    );
+    if (result.modifiedCount > 0) {
+        console.log(`🏷️ Tagged ${result.modifiedCount} experts with legacy embedding metadata`);
+    }
+    return result.modifiedCount;
+}
+
+/**
+ * Create a job targeting the active embedding model and start it in the background.
+ * Throws InvalidReembedJobError while another job is running.
+ */
+export async function startReembedJob(options: { batchSize?: number } = {}): Promise<ReembedJob> {
+    const db = await getDb();
+    const jobs = db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS);
+
+    const active = await jobs.findOne({ status: 'running' });
+    if (active) {
+        throw new InvalidReembedJobError(`Re-embedding job ${active.jobId} is already running`, 'conflict');
+    }
+
+    await tagLegacyExpertEmbeddings();
+
+    const target = getEmbeddingMetadata();
+    delete target.createdAt;
+
+    const total = await db.collection(COLLECTIONS.EXPERTS).countDocuments(staleExpertsFilter(target));
+
+    const job: ReembedJob = {
+        jobId: `reembed_${uuidv4().slice(0, 8)}`,
+        status: 'running',
+        target,
+        batchSize: Math.max(1, Math.min(options.batchSize || DEFAULT_BATCH_SIZE, 200)),
+        progress: { total, processed: 0, updated: 0, failed: 0 },
+        errors: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    await jobs.insertOne(job);
+    launch(job.jobId);
+
+    return job;
+}
+
+/**
+ * Resume a cancelled, failed or interrupted job from its cursor. Throws
+ * InvalidReembedJobError for unknown or completed jobs and jobs built for
+ * another model.
+ */
+export async function resumeReembedJob(jobId: string): Promise<ReembedJob> {
+    const db = await getDb();
+    const jobs = db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS);
+
+    const job = await jobs.findOne({ jobId });
+    if (!job) {
+        throw new InvalidReembedJobError(`Re-embedding job ${jobId} not found`, 'not_found');
+    }
+    if (job.status === 'completed') {
+        throw new InvalidReembedJobError(`Re-embedding job ${jobId} already completed`, 'conflict');
+    }
+    if (job.status === 'running' && runningJobs.has(jobId)) {
+        return job;
+    }
+
+    const current = getEmbeddingMetadata();
+    if (current.model !== job.target.model || current.version !== job.target.version) {
+        throw new InvalidReembedJobError(`Job ${jobId} targets ${job.target.model} v${job.target.version}, but the active model is ${current.model} v${current.version}; start a new job`, 'conflict');
+    }
+
+    // A cancelled loop may still be finishing its batch; let it exit before starting another
+    await runningJobs.get(jobId);
+
+    await jobs.updateOne({ jobId }, { $set: { status: 'running', updatedAt: new Date() }, $unset: { lastError: '' } });
+    launch(jobId);
+
+    return { ...job, status: 'running' };
+}
+
+/**
+ * Request cancellation; the worker stops after its current batch
+ */
+export async function cancelReembedJob(jobId: string): Promise<ReembedJob | null> {
+    const db = await getDb();
+    const jobs = db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS);
+
+    await jobs.updateOne(
+        { jobId, status: 'running' },
+        { $set: { status: 'cancelled', updatedAt: new Date() } }
+    );
+
+    return jobs.findOne({ jobId }, { projection: { _id: 0 } });
+}
+
+export async function getReembedJob(jobId: string): Promise<ReembedJob | null> {
+    const db = await getDb();
+    return db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS).findOne({ jobId }, { projection: { _id: 0 } });
+}
+
+export async function listReembedJobs(limit: number = 10): Promise<ReembedJob[]> {
+    const db = await getDb();
+    return db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS)
+        .find({}, { projection: { _id: 0, errors: 0 } })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray();
+}
+
+function launch(jobId: string) {
+    const run = runReembedJob(jobId)
+        .catch(async (error) => {
+            console.error(`❌ Re-embedding job ${jobId} failed:`, error);
+            const db = await getDb();
+            await db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS).updateOne(
+                { jobId },
+                { $set: { status: 'failed', lastError: String(error), updatedAt: new Date() } }
+            );
+        })
+        .finally(() => runningJobs.delete(jobId));
+    runningJobs.set(jobId, run);
+}
+
+function embeddingInput(expert: Document) {
+    return {
+        name: expert.name || '',
+        title: expert.title || '',
+        bio: expert.bio || '',
+        skills: expert.skills || [],
+    };
+}
+
+/**
+ * Stop a job while the embedding provider is unavailable, without moving
+ * the cursor, so resuming retries the current batch
+ */
+async function stopOnOutage(jobId: string, error: Error): Promise<void> {
+    console.error(`   ⏸️ Re-embedding job ${jobId} stopped: ${error.message}`);
+    const db = await getDb();
+    await db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS).updateOne(
+        { jobId },
+        { $set: { status: 'failed', lastError: String(error), updatedAt: new Date() } }
+    );
+}
+
+/**
+ * Worker loop: process one batch at a time, persisting the cursor after each.
+ * Experts that fail to embed are recorded and skipped; a provider outage
+ * (rate limit or open circuit) stops the job at the current batch.
+ */
+async function runReembedJob(jobId: string): Promise<void> {
+    const db = await getDb();
+    const jobs = db.collection<ReembedJob>(COLLECTIONS.REEMBED_JOBS);
+    const experts = db.collection(COLLECTIONS.EXPERTS);
+
+    console.log(`\n🔁 Re-embedding job ${jobId} started`);
+
+    while (true) {
+        const job = await jobs.findOne({ jobId });
+        if (!job || job.status !== 'running') {
+            console.log(`⏹️ Re-embedding job ${jobId} stopped (${job?.status || 'missing'})`);
+            return;
+        }
+
+        const batch = await experts
+            .find(staleExpertsFilter(job.target, job.cursor))
+            .project({ name: 1, title: 1, bio: 1, skills: 1 })
+            .sort({ _id: 1 })
+            .limit(job.batchSize)
+            .toArray();
+
+        if (batch.length === 0) {
+            const cachePurged = await reconcileEmbeddingCache(job.target);
+            await jobs.updateOne(
+                { jobId, status: 'running' },
+                { $set: { status: 'completed', cachePurged, completedAt: new Date(), updatedAt: new Date() } }
+            );
+            console.log(`✅ Re-embedding job ${jobId} completed (${job.progress.updated} updated, ${job.progress.failed} failed)`);
+            return;
+        }
+
+        const embedding = { ...job.target, createdAt: new Date() };
+        let updated = 0;
+        const errors: ReembedJob['errors'] = [];
+
+        try {
+            const skillVectors = await generateExpertEmbeddings(batch.map(embeddingInput));
+            const result = await experts.bulkWrite(batch.map((expert, i) => ({
+                updateOne: {
+                    filter: { _id: expert._id },
+                    update: { $set: { skillVector: skillVectors[i], embedding, updatedAt: new Date() } },
+                },
+            })));
+            updated = result.modifiedCount;
+        } catch (error) {
+            if (isServiceUnavailable(error)) return stopOnOutage(jobId, error);
+
+            // One bad profile should not block the rest: embed the batch one expert at a time
+            console.error(`   ❌ Re-embedding batch failed, retrying its experts individually:`, error);
+            for (const expert of batch) {
+                try {
+                    const [skillVector] = await generateExpertEmbeddings([embeddingInput(expert)]);
+                    const result = await experts.updateOne(
+                        { _id: expert._id },
+                        { $set: { skillVector, embedding, updatedAt: new Date() } }
+                    );
+                    updated += result.modifiedCount;
+                } catch (itemError) {
+                    if (isServiceUnavailable(itemError)) return stopOnOutage(jobId, itemError);
+                    errors.push({ expertId: String(expert._id), error: String(itemError), at: new Date() });
+                }
+            }
+        }
+
+        await jobs.updateOne(
+            { jobId },
+            {
+                $set: { cursor: String(batch[batch.length - 1]._id), updatedAt: new Date() },
+                $inc: {
+                    'progress.processed': batch.length,
+                    'progress.updated': updated,
+                    'progress.failed': errors.length,
+                },
+                ...(errors.length > 0 ? { $push: { errors: { $each: errors, $slice: -MAX_RECORDED_ERRORS } } } : {}),
+            }
+        );
+
+        if (updated > 0) await bumpDatasetGeneration(`re-embedded ${updated} experts`);
+        console.log(`   🔁 ${jobId}: ${updated}/${batch.length} re-embedded in batch${errors.length > 0 ? ` (${errors.length} failed)` : ''}`);
+    }
+}
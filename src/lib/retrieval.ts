@@ -0,0 +1,321 @@
+/**
+ * Hybrid Retrieval for ExpertMesh
+ * Runs Atlas $vectorSearch and full-text $search side by side and fuses the
+ * ranked lists with reciprocal rank fusion (RRF). Shared by the Scout agent
+ * and the RAG route.
+ */
+
+import { Document, Filter } from 'mongodb';
+import { getDb, COLLECTIONS, Expert } from './mongodb';
+import { generateQueryEmbedding, getActiveVectorFilter } from './voyage';
+
+// Atlas index names
+export const VECTOR_INDEX = 'Nested';
+export const TEXT_INDEX = process.env.ATLAS_SEARCH_INDEX || 'expert_text';
+
+const DEFAULT_RRF_K = 60;
+
+// Below this many eligible experts, vector search runs exact (ENN) instead of ANN
+const EXACT_SEARCH_THRESHOLD = 2000;
+const MAX_NUM_CANDIDATES = 10000;
+
+// Fields declared as `filter` in the vector index so constraints run inside $vectorSearch
+export const VECTOR_FILTER_FIELDS = [
+    'embedding.model',
+    'renownLevel',
+    'availability.status',
+    'availability.timezone',
+    'availability.hoursPerWeek',
+    'department',
+    'isSynthetic',
+    'sources.platform',
+];
+
+const STOPWORDS = new Set([
+    'find', 'get', 'the', 'and', 'for', 'with', 'who', 'can', 'need', 'want', 'looking',
+    'expert', 'experts', 'developer', 'developers', 'engineer', 'engineers', 'professional', 'professionals',
+]);
+
+export type RetrievalSignal = 'vector' | 'keyword';
+
+// Per-expert record of which retrievers contributed and how
+export interface RetrievalSignals {
+    fusedScore: number;
+    signals: RetrievalSignal[];
+    vectorRank?: number;
+    vectorScore?: number;
+    keywordRank?: number;
+    keywordScore?: number;
+}
+
+export type RetrievedExpert = Expert & { retrieval?: RetrievalSignals };
+
+// Hard constraints applied inside both retrievers
+export interface ExpertFilters {
+    renownLevel?: NonNullable<Expert['renownLevel']>[];
+    availabilityStatus?: Expert['availability']['status'][];
+    timezone?: string[];
+    minHoursPerWeek?: number;
+    department?: string[];
+    sourcePlatform?: string[];
+    excludeSynthetic?: boolean;
+}
+
+export interface HybridSearchOptions {
+    limit?: number;
+    // Text for the keyword retriever (defaults to the query)
+    keywordQuery?: string;
+    filters?: ExpertFilters;
+    vectorWeight?: number;
+    keywordWeight?: number;
+    rrfK?: number;
+}
+
+export interface HybridSearchResult {
+    experts: RetrievedExpert[];
+    vectorCount: number;
+    keywordCount: number;
+    keywordMethod: 'atlas_search' | 'regex';
+}
+
+/**
+ * Split a query into keywords worth matching literally
+ */
+export function extractKeywords(text: string): string[] {
+    const words = text.toLowerCase()
+        .split(/[\s,;:!?()"']+/)
+        .map(w => w.replace(/^[^a-z0-9]+|[.]+$/g, ''))
+        .filter(w => w.length > 1)
+        .filter(w => !STOPWORDS.has(w));
+
+    return [...new Set(words)];
+}
+
+/**
+ * Translate filters into the MQL subset accepted by both the
+ * $vectorSearch `filter` parameter and a regular find/$match
+ */
+export function buildExpertFilter(filters: ExpertFilters = {}): Filter<Document> {
+    const clauses: Filter<Document>[] = [];
+
+    if (filters.renownLevel?.length) clauses.push({ renownLevel: { $in: filters.renownLevel } });
+    if (filters.availabilityStatus?.length) clauses.push({ 'availability.status': { $in: filters.availabilityStatus } });
+    if (filters.timezone?.length) clauses.push({ 'availability.timezone': { $in: filters.timezone } });
+    if (filters.minHoursPerWeek) clauses.push({ 'availability.hoursPerWeek': { $gte: filters.minHoursPerWeek } });
+    if (filters.department?.length) clauses.push({ department: { $in: filters.department } });
+    if (filters.sourcePlatform?.length) clauses.push({ 'sources.platform': { $in: filters.sourcePlatform } });
+    if (filters.excludeSynthetic) {
+        clauses.push({ isSynthetic: { $ne: true } }, { 'sources.platform': { $ne: 'generated' } });
+    }
+
+    if (clauses.length === 0) return {};
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Semantic retriever: $vectorSearch over skillVector, with constraints
+ * evaluated inside the search so selective filters still fill the limit
+ */
+async function vectorRetrieve(query: string | number[], limit: number, filter: Filter<Document>): Promise<Document[]> {
+    const db = await getDb();
+    const experts = db.collection(COLLECTIONS.EXPERTS);
+
+    const vectorFilter = Object.keys(filter).length > 0
+        ? { $and: [getActiveVectorFilter(), filter] }
+        : getActiveVectorFilter();
+
+    // Size the candidate pool from how much of the collection the filter keeps
+    const [total, eligible] = await Promise.all([
+        experts.estimatedDocumentCount(),
+        experts.countDocuments(vectorFilter),
+    ]);
+    if (eligible === 0) return [];
+
+    const searchLimit = Math.min(limit, eligible);
+    const search: Document = {
+        index: VECTOR_INDEX,
+        path: 'skillVector',
+        queryVector: typeof query === 'string' ? await generateQueryEmbedding(query) : query,
+        limit: searchLimit,
+        filter: vectorFilter,
+    };
+
+    if (eligible <= EXACT_SEARCH_THRESHOLD && eligible < total) {
+        search.exact = true;
+    } else {
+        const selectivity = Math.max(eligible / Math.max(total, 1), 0.01);
+        search.numCandidates = Math.min(MAX_NUM_CANDIDATES, Math.ceil(Math.max(100, searchLimit * 10) / selectivity));
+    }
+
+    return experts.aggregate([
+        { $vectorSearch: search },
+        { $addFields: { vectorScore: { $meta: 'vectorSearchScore' } } },
+        { $project: { skillVector: 0 } },
+    ]).toArray();
+}
+
+/**
+ * Lexical retriever: Atlas Search $search, falling back to a regex scan
+ * when no search index is available
+ */
+async function keywordRetrieve(
+    text: string,
+    limit: number,
+    filter: Filter<Document>
+): Promise<{ docs: Document[]; method: HybridSearchResult['keywordMethod'] }> {
+    const db = await getDb();
+    const experts = db.collection(COLLECTIONS.EXPERTS);
+
+    try {
+        const docs = await experts.aggregate([
+            {
+                $search: {
+                    index: TEXT_INDEX,
+                    compound: {
+                        should: [
+                            { text: { query: text, path: 'skills.name', score: { boost: { value: 3 } } } },
+                            { text: { query: text, path: 'title', score: { boost: { value: 2 } } } },
+                            { text: { query: text, path: 'bio' } },
+                        ],
+                    },
+                },
+            },
+            { $match: filter },
+            { $limit: limit },
+            { $addFields: { keywordScore: { $meta: 'searchScore' } } },
+            { $project: { skillVector: 0 } },
+        ]).toArray();
+
+        return { docs, method: 'atlas_search' };
+    } catch (error) {
+        console.log('Atlas Search not available, using regex keyword scan:', String(error));
+    }
+
+    const keywords = extractKeywords(text);
+    if (keywords.length === 0) return { docs: [], method: 'regex' };
+
+    const patterns = keywords.map(k => new RegExp(`(^|[^a-z0-9])${escapeRegex(k)}($|[^a-z0-9])`, 'i'));
+    const candidates = await experts
+        .find({
+            ...filter,
+            $or: [
+                { 'skills.name': { $in: patterns } },
+                { title: { $in: patterns } },
+                { bio: { $in: patterns } },
+            ],
+        })
+        .project({ skillVector: 0 })
+        .limit(limit * 5)
+        .toArray();
+
+    // Score by how many keywords hit, weighting skills and titles over bios
+    const scored = candidates.map(doc => {
+        const skills = (doc.skills || []).map((s: { name: string }) => s.name).join(' | ');
+        let keywordScore = 0;
+        for (const pattern of patterns) {
+            if (pattern.test(skills)) keywordScore += 3;
+            else if (pattern.test(doc.title || '')) keywordScore += 2;
+            else if (pattern.test(doc.bio || '')) keywordScore += 1;
+        }
+        return { ...doc, keywordScore };
+    });
+
+    scored.sort((a, b) => b.keywordScore - a.keywordScore);
+    return { docs: scored.slice(0, limit), method: 'regex' };
+}
+
+/**
+ * Retrieve experts with both retrievers and fuse the rankings:
+ * score = Σ weight / (k + rank)
+ */
+export async function hybridSearch(query: string, options: HybridSearchOptions = {}): Promise<HybridSearchResult> {
+    const {
+        limit = 10,
+        keywordQuery = query,
+        filters,
+        vectorWeight = parseFloat(process.env.HYBRID_VECTOR_WEIGHT || '') || 1,
+        keywordWeight = parseFloat(process.env.HYBRID_KEYWORD_WEIGHT || '') || 1,
+        rrfK = DEFAULT_RRF_K,
+    } = options;
+
+    const candidateLimit = Math.max(limit * 2, 20);
+    const filter = buildExpertFilter(filters);
+
+    const [vectorDocs, keyword] = await Promise.all([
+        vectorRetrieve(query, candidateLimit, filter).catch(error => {
+            console.log('Vector search not available:', String(error));
+            return [] as Document[];
+        }),
+        keywordRetrieve(keywordQuery, candidateLimit, filter),
+    ]);
+
+    const fused = new Map<string, RetrievedExpert & { retrieval: RetrievalSignals }>();
+
+    const addRanking = (docs: Document[], signal: RetrievalSignal, weight: number) => {
+        docs.forEach((doc, index) => {
+            const id = String(doc._id);
+            const rank = index + 1;
+            const { vectorScore, keywordScore, ...profile } = doc;
+
+            const entry = fused.get(id) || {
+                ...(profile as unknown as Expert),
+                retrieval: { fusedScore: 0, signals: [] },
+            };
+
+            entry.retrieval.fusedScore += weight / (rrfK + rank);
+            entry.retrieval.signals.push(signal);
+            if (signal === 'vector') {
+                entry.retrieval.vectorRank = rank;
+                entry.retrieval.vectorScore = vectorScore;
+            } else {
+                entry.retrieval.keywordRank = rank;
+                entry.retrieval.keywordScore = keywordScore;
+            }
+
+            fused.set(id, entry);
+        });
+    };
+
+    addRanking(vectorDocs, 'vector', vectorWeight);
+    addRanking(keyword.docs, 'keyword', keywordWeight);
+
+    const experts = [...fused.values()]
+        .sort((a, b) => b.retrieval.fusedScore - a.retrieval.fusedScore)
+        .slice(0, limit);
+
+    return {
+        experts,
+        vectorCount: vectorDocs.length,
+        keywordCount: keyword.docs.length,
+        keywordMethod: keyword.method,
+    };
+}
+
+/**
+ * Nearest neighbours of an existing profile vector ("more like this").
+ * Experts listed in excludeIds (e.g. the source expert) are dropped.
+ */
+export async function vectorSearchByVector(
+    queryVector: number[],
+    options: { limit?: number; filters?: ExpertFilters; excludeIds?: string[] } = {}
+): Promise<RetrievedExpert[]> {
+    const { limit = 10, filters, excludeIds = [] } = options;
+    const excluded = new Set(excludeIds);
+
+    const docs = await vectorRetrieve(queryVector, limit + excluded.size, buildExpertFilter(filters));
+
+    return docs
+        .filter(doc => !excluded.has(String(doc._id)))
+        .slice(0, limit)
+        .map((doc, index) => {
+            const { vectorScore, ...profile } = doc;
+            return {
+                ...(profile as unknown as Expert),
+                retrieval: { fusedScore: vectorScore, signals: ['vector'], vectorRank: index + 1, vectorScore },
+            };
+        });
+}
@@ -0,0 +1,75 @@
+/**
+ * LLM Output Schemas for ExpertMesh
+ * Declared shapes for every JSON document the model produces
+ */
+
+import { v, Infer } from './llm-json';
+import { normalizeConstraints } from './constraints';
+
+const SKILL_LEVELS = ['junior', 'mid', 'senior', 'expert'] as const;
+const AVAILABILITY_STATUSES = ['available', 'busy', 'unavailable'] as const;
+
+// parseQuery: structured requirements from a natural-language query
+export const parsedRequirementsSchema = v.object({
+    skills: v.array(v.object({
+        name: v.string({ min: 1 }),
+        weight: v.withDefault(v.number({ min: 0, max: 1 }), 0.8),
+    })),
+    constraints: v.custom(normalizeConstraints),
+    intent: v.withDefault(v.string(), 'technical_hire'),
+    summary: v.withDefault(v.string(), ''),
+});
+
+export type ParsedRequirements = Infer<typeof parsedRequirementsSchema>;
+
+// Document ingestion: expert profiles extracted from free text
+export const extractedExpertSchema = v.object({
+    name: v.string({ min: 2 }),
+    email: v.optional(v.string()),
+    title: v.withDefault(v.string(), ''),
+    department: v.withDefault(v.string(), 'General'),
+    bio: v.withDefault(v.string(), ''),
+    skills: v.withDefault(v.array(v.object({
+        name: v.string({ min: 1 }),
+        level: v.withDefault(v.oneOf(SKILL_LEVELS), 'mid'),
+        yearsExp: v.withDefault(v.number({ min: 0 }), 1),
+    })), []),
+    availability: v.withDefault(v.object({
+        timezone: v.withDefault(v.string(), 'UTC'),
+        hoursPerWeek: v.withDefault(v.number({ min: 0, max: 168 }), 40),
+        status: v.withDefault(v.oneOf(AVAILABILITY_STATUSES), 'available'),
+    }), { timezone: 'UTC', hoursPerWeek: 40, status: 'available' as const }),
+});
+
+// Models often return a bare array despite being asked for { "experts": [...] }
+export const extractedExpertsSchema = v.preprocess(
+    value => (Array.isArray(value) ? { experts: value } : value),
+    v.object({ experts: v.array(extractedExpertSchema) })
+);
+
+export type ExtractedExpert = Infer<typeof extractedExpertSchema>;
+
+// generateExplanations: bullet points for several matches in one call
+export const batchExplanationSchema = v.object({
+    explanations: v.array(v.object({
+        index: v.number({ min: 0 }),
+        points: v.array(v.string({ min: 1 }), { min: 1, max: 5 }),
+    })),
+});
+
+// decomposeTeam: roles a team request breaks down into
+export const teamPlanSchema = v.object({
+    roles: v.array(v.object({
+        title: v.string({ min: 1 }),
+        skills: v.array(v.object({
+            name: v.string({ min: 1 }),
+            weight: v.withDefault(v.number({ min: 0, max: 1 }), 0.8),
+        }), { min: 1 }),
+        hoursPerWeek: v.optional(v.number({ min: 1, max: 168 })),
+    }), { min: 1, max: 8 }),
+    constraints: v.custom(normalizeConstraints),
+    summary: v.withDefault(v.string(), ''),
+});
+
+export type TeamPlan = Infer<typeof teamPlanSchema>;
+export type TeamRole = TeamPlan['roles'][number];
@@ -0,0 +1,243 @@
+/**
+ * Search Result Cache for ExpertMesh
+ * Cached orchestrator results are tagged with the expert dataset generation
+ * they were computed against. Every write path to the experts collection
+ * bumps the generation, so results never outlive the pool they came from.
+ * Near-duplicate phrasings hit the cache through query-embedding similarity.
+ */
+
+import crypto from 'crypto';
+import { getDb, COLLECTIONS } from './mongodb';
+import { generateEmbedding, getEmbeddingMetadata } from './voyage';
+import { extractConstraintsHeuristically, describeConstraint } from './constraints';
+import { findSkillsInText } from './taxonomy';
+import { cosineSimilarity } from './skill-graph';
+import type { OrchestratorResult } from './agents';
+
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Cosine similarity a different phrasing needs to reuse a cached result
+// (overridable via SEARCH_CACHE_SIMILARITY)
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+
+// Most recent entries compared against a query embedding
+const SEMANTIC_SCAN_LIMIT = 200;
+
+export interface SearchCacheEntry {
+    _id?: string;
+    queryHash: string;
+    originalQuery: string;
+    result: OrchestratorResult;
+    generation: number; // Expert dataset generation the result was computed against
+    constraintKey: string; // Explicit constraints must match for a semantic hit
+    queryEmbedding?: number[];
+    embeddingModel?: string;
+    hits: number;
+    createdAt: Date;
+    lastHitAt?: Date;
+    expiresAt: Date;
+}
+
+// Singleton document in dataset_state tracking changes to the experts collection
+interface DatasetState {
+    _id: string;
+    generation: number;
+    lastChange?: string;
+    updatedAt: Date;
+}
+
+export interface CacheLookup {
+    entry: SearchCacheEntry;
+    match: 'exact' | 'semantic';
+    similarity?: number;
+}
+
+export function hashQuery(rawQuery: string): string {
+    return crypto.createHash('sha256').update(rawQuery.trim().toLowerCase()).digest('hex');
+}
+
+function getSimilarityThreshold(): number {
+    const configured = parseFloat(process.env.SEARCH_CACHE_SIMILARITY || '');
+    return Number.isFinite(configured) && configured > 0 && configured <= 1 ? configured : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * "PST" and "EST" (or "React" and "Preact") phrasings embed almost
+ * identically, so semantic hits also require the same heuristically
+ * extracted constraints and taxonomy skills
+ */
+async function constraintKeyOf(rawQuery: string): Promise<string> {
+    const constraints = extractConstraintsHeuristically(rawQuery).map(describeConstraint).sort();
+    const skills = (await findSkillsInText(rawQuery)).map(skill => `skill:${skill}`);
+    return [...constraints, ...skills].join('|');
+}
+
+export async function getDatasetGeneration(): Promise<number> {
+    const db = await getDb();
+    const state = await db.collection<DatasetState>(COLLECTIONS.DATASET_STATE).findOne({ _id: 'experts' });
+    return state?.generation || 0;
+}
+
+/**
+ * Record a change to the experts collection: bump the generation and drop
+ * cached results computed against earlier ones. Never throws, so a failed
+ * bump cannot fail the write that triggered it.
+ */
+export async function bumpDatasetGeneration(reason: string): Promise<number | null> {
+    try {
+        const db = await getDb();
+        const state = await db.collection<DatasetState>(COLLECTIONS.DATASET_STATE).findOneAndUpdate(
+            { _id: 'experts' },
+            { $inc: { generation: 1 }, $set: { lastChange: reason, updatedAt: new Date() } },
+            { upsert: true, returnDocument: 'after' }
+        );
+        const generation = state?.generation || 0;
+
+        const purged = await db.collection<SearchCacheEntry>(COLLECTIONS.CACHE_SEARCH_RESULTS)
+            .deleteMany({ generation: { $lt: generation } });
+        console.log(`🧹 Expert dataset generation ${generation} (${reason}); purged ${purged.deletedCount} cached searches`);
+
+        return generation;
+    } catch (error) {
+        console.error('Failed to bump expert dataset generation:', error);
+        return null;
+    }
+}
+
+/**
+ * Cached result for a query at the given generation: exact (normalized text)
+ * first, then the most similar earlier phrasing above the threshold
+ */
+export async function lookupCachedSearch(rawQuery: string, generation: number): Promise<CacheLookup | null> {
+    const db = await getDb();
+    const cache = db.collection<SearchCacheEntry>(COLLECTIONS.CACHE_SEARCH_RESULTS);
+    const live = { generation, expiresAt: { $gt: new Date() } };
+
+    let lookup: CacheLookup | null = null;
+
+    const exact = await cache.findOne({ queryHash: hashQuery(rawQuery), ...live });
+    if (exact) {
+        lookup = { entry: exact, match: 'exact' };
+    } else {
+        let queryEmbedding: number[];
+        try {
+            queryEmbedding = await generateEmbedding(rawQuery);
+        } catch (error) {
+            console.log('Semantic cache lookup skipped, query embedding failed:', String(error));
+            return null;
+        }
+
+        const candidates = await cache
+            .find({ ...live, embeddingModel: getEmbeddingMetadata().model, constraintKey: await constraintKeyOf(rawQuery) })
+            .project<Pick<SearchCacheEntry, 'queryHash' | 'queryEmbedding'>>({ queryHash: 1, queryEmbedding: 1 })
+            .sort({ createdAt: -1 })
+            .limit(SEMANTIC_SCAN_LIMIT)
+            .toArray();
+
+        let best: { queryHash: string; similarity: number } | null = null;
+        for (const candidate of candidates) {
+            if (!candidate.queryEmbedding) continue;
+            const similarity = cosineSimilarity(queryEmbedding, candidate.queryEmbedding);
+            if (similarity >= getSimilarityThreshold() && (!best || similarity > best.similarity)) {
+                best = { queryHash: candidate.queryHash, similarity };
+            }
+        }
+
+        const entry = best ? await cache.findOne({ queryHash: best.queryHash, ...live }) : null;
+        if (entry && best) lookup = { entry, match: 'semantic', similarity: best.similarity };
+    }
+
+    if (lookup) {
+        await cache.updateOne({ queryHash: lookup.entry.queryHash }, { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } });
+    }
+    return lookup;
+}
+
+/**
+ * Cache a result under the generation read before the search started, so a
+ * write that lands mid-search leaves the entry already stale
+ */
+export async function storeCachedSearch(rawQuery: string, result: OrchestratorResult, generation: number): Promise<void> {
+    const db = await getDb();
+
+    let queryEmbedding: number[] | undefined;
+    try {
+        queryEmbedding = await generateEmbedding(rawQuery);
+    } catch (error) {
+        console.log('Caching search without an embedding:', String(error));
+    }
+
+    const queryHash = hashQuery(rawQuery);
+    await db.collection<SearchCacheEntry>(COLLECTIONS.CACHE_SEARCH_RESULTS).updateOne(
+        { queryHash },
+        {
+            $set: {
+                queryHash,
+                originalQuery: rawQuery,
+                result,
+                generation,
+                constraintKey: await constraintKeyOf(rawQuery),
+                ...(queryEmbedding ? { queryEmbedding, embeddingModel: getEmbeddingMetadata().model } : {}),
+                hits: 0,
+                createdAt: new Date(),
+                expiresAt: new Date(Date.now() + CACHE_TTL_MS),
+            },
+        },
+        { upsert: true }
+    );
+}
+
+/**
+ * Cache contents for the admin endpoint (embeddings and results omitted)
+ */
+export async function inspectSearchCache(limit: number = 50) {
+    const db = await getDb();
+    const cache = db.collection<SearchCacheEntry>(COLLECTIONS.CACHE_SEARCH_RESULTS);
+    const generation = await getDatasetGeneration();
+
+    const [total, stale, entries] = await Promise.all([
+        cache.countDocuments(),
+        cache.countDocuments({ generation: { $ne: generation } }),
+        cache.aggregate([
+            { $sort: { createdAt: -1 } },
+            { $limit: limit },
+            {
+                $project: {
+                    _id: 0,
+                    queryHash: 1,
+                    originalQuery: 1,
+                    generation: 1,
+                    hits: 1,
+                    createdAt: 1,
+                    lastHitAt: 1,
+                    expiresAt: 1,
+                    matchCount: { $size: { $ifNull: ['$result.matches', []] } },
+                    embedded: { $gt: ['$queryEmbedding', null] },
+                },
+            },
+        ]).toArray(),
+    ]);
+
+    return {
+        generation,
+        total,
+        stale,
+        entries: entries.map(entry => ({ ...entry, stale: entry.generation !== generation })),
+    };
+}
+
+/**
+ * Delete one entry (queryHash), entries from older generations (staleOnly), or everything
+ */
+export async function purgeSearchCache(options: { queryHash?: string; staleOnly?: boolean } = {}): Promise<number> {
+    const db = await getDb();
+    const cache = db.collection<SearchCacheEntry>(COLLECTIONS.CACHE_SEARCH_RESULTS);
+
+    if (options.queryHash) {
+        return (await cache.deleteOne({ queryHash: options.queryHash })).deletedCount;
+    }
+    if (options.staleOnly) {
+        return (await cache.deleteMany({ generation: { $ne: await getDatasetGeneration() } })).deletedCount;
+    }
+    return (await cache.deleteMany({})).deletedCount;
+}
@@ -0,0 +1,67 @@
+/**
+ * Search Sessions for ExpertMesh
+ * Conversational follow-ups ("only ones available now", "more like the
+ * second one") refine the previous turn's requirements instead of starting
+ * over. Turns are stored in the agent_memory collection.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, COLLECTIONS, SearchSession } from './mongodb';
+
+export type SessionTurn = SearchSession['turns'][number];
+export type SessionResult = SessionTurn['results'][number];
+
+const MAX_TURNS = 20;
+
+const ORDINALS: Record<string, number> = {
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+    sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+export function createSessionId(): string {
+    return `session_${uuidv4().slice(0, 8)}`;
+}
+
+export async function getSession(sessionId: string): Promise<SearchSession | null> {
+    const db = await getDb();
+    return db.collection<SearchSession>(COLLECTIONS.AGENT_MEMORY)
+        .findOne({ sessionId, kind: 'search_session' }, { projection: { _id: 0 } });
+}
+
+/**
+ * Append a turn, creating the session on first use (keeps the latest MAX_TURNS)
+ */
+export async function appendSessionTurn(sessionId: string, turn: SessionTurn): Promise<void> {
+    const db = await getDb();
+    const now = new Date();
+    await db.collection<SearchSession>(COLLECTIONS.AGENT_MEMORY).updateOne(
+        { sessionId, kind: 'search_session' },
+        {
+            $push: { turns: { $each: [turn], $slice: -MAX_TURNS } },
+            $set: { updatedAt: now },
+            $setOnInsert: { sessionId, kind: 'search_session', createdAt: now },
+        },
+        { upsert: true }
+    );
+}
+
+/**
+ * Result a follow-up points at ("the second one", "#3", "the last one"), if any
+ */
+export function resolveResultReference(text: string, results: SessionResult[]): SessionResult | null {
+    if (results.length === 0) return null;
+    const lower = text.toLowerCase();
+
+    if (/\b(last|final) (one|expert|result|match)\b/.test(lower)) return results[results.length - 1];
+
+    const ordinal = lower.match(/\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)\b/);
+    const numeric = lower.match(/(?:#|\bnumber\s*|\bno\.\s*)(\d+)\b|\b(\d+)(?:st|nd|rd|th)\b/);
+    const position = ordinal ? ORDINALS[ordinal[1]] : numeric ? parseInt(numeric[1] || numeric[2]) : null;
+    if (position && position <= results.length) return results[position - 1];
+
+    // "more like Sarah"
+    return results.find(r => {
+        const first = r.name.toLowerCase().split(/\s+/)[0];
+        return first.length > 2 && new RegExp(`\\b${first.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower);
+    }) || null;
+}
@@ -0,0 +1,135 @@
+/**
+ * "More Like This" for ExpertMesh
+ * Starts from a known-good expert and finds peers: $vectorSearch on the
+ * expert's own skillVector, blended with skill-set overlap through the
+ * skill adjacency graph, then explained like regular search matches.
+ */
+
+import { ObjectId } from 'mongodb';
+import { getDb, COLLECTIONS, Expert } from './mongodb';
+import { vectorSearchByVector, ExpertFilters } from './retrieval';
+import { buildSkillGraph, SkillGraph, FULL_MATCH_SCORE } from './skill-graph';
+import { generateExplanations } from './fireworks';
+import { LLMValidationError } from './llm-json';
+import { LLMBudgetExceededError } from './llm';
+import { getEmbeddingMetadata } from './voyage';
+import type { ExpertMatch } from './agents';
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_SKILL_WEIGHT = 0.3;
+
+// The source expert has no vector from the active model to search with
+export class ExpertNotEmbeddedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExpertNotEmbeddedError';
+    }
+}
+
+export interface SimilarExpertsResult {
+    source: Expert;
+    matches: ExpertMatch[];
+}
+
+/**
+ * Symmetric skill-set overlap (0-1): how well each profile's skills are
+ * covered by the other's, with graded credit for adjacent skills
+ */
+function skillOverlap(a: Expert, b: Expert, graph: SkillGraph): number {
+    const aSkills = a.skills.map(s => s.name);
+    const bSkills = b.skills.map(s => s.name);
+    if (aSkills.length === 0 || bSkills.length === 0) return 0;
+
+    const coverage = (from: string[], to: string[]) =>
+        graph.bestMatches(from, to).reduce((sum, m) => sum + m.adjacency.score, 0) / from.length;
+
+    return (coverage(aSkills, bSkills) + coverage(bSkills, aSkills)) / 2;
+}
+
+/**
+ * Explanation from shared and adjacent skills, used when the LLM is unavailable
+ */
+function overlapExplanation(source: Expert, peer: Expert, graph: SkillGraph): string[] {
+    const matches = graph.bestMatches(source.skills.map(s => s.name), peer.skills.map(s => s.name));
+    const shared = matches.filter(m => m.held && m.adjacency.score >= FULL_MATCH_SCORE).map(m => m.requested);
+    const adjacent = matches.filter(m => m.held && m.adjacency.score >= 0.3 && m.adjacency.score < FULL_MATCH_SCORE);
+
+    const points = shared.length > 0
+        ? [`✅ Shares ${shared.slice(0, 4).join(', ')} with ${source.name}`]
+        : [`⚠️ No skills in common with ${source.name}; similar overall profile`];
+    points.push(...adjacent.slice(0, 2).map(m => `⚠️ Partial: ${m.held} is adjacent to ${m.requested}`));
+
+    return points;
+}
+
+/**
+ * Peers of an expert ranked by profile-vector similarity blended with skill
+ * overlap (skillWeight 0 = vector only). Returns null if the expert is unknown
+ * and throws ExpertNotEmbeddedError if it has no vector from the active model.
+ */
+export async function findSimilarExperts(
+    expertId: string,
+    options: { limit?: number; skillWeight?: number; filters?: ExpertFilters; explain?: boolean } = {}
+): Promise<SimilarExpertsResult | null> {
+    const { limit = DEFAULT_LIMIT, skillWeight = DEFAULT_SKILL_WEIGHT, filters, explain = true } = options;
+
+    const db = await getDb();
+    const source = await db.collection<Expert>(COLLECTIONS.EXPERTS).findOne({
+        _id: (ObjectId.isValid(expertId) ? new ObjectId(expertId) : expertId) as unknown as string,
+    });
+    if (!source) return null;
+
+    const { skillVector, ...profile } = source;
+    if (!skillVector?.length) {
+        throw new ExpertNotEmbeddedError(`Expert ${expertId} has no skillVector; re-embed before searching for similar experts`);
+    }
+    if (source.embedding && source.embedding.model !== getEmbeddingMetadata().model) {
+        throw new ExpertNotEmbeddedError(`Expert ${expertId} was embedded with ${source.embedding.model}; re-embed before searching for similar experts`);
+    }
+
+    // Over-fetch so the skill-overlap blend can reorder the neighbourhood
+    const candidates = await vectorSearchByVector(skillVector, {
+        limit: Math.max(limit * 3, 15),
+        filters,
+        excludeIds: [String(source._id)],
+    });
+
+    const graph = await buildSkillGraph(
+        profile.skills.map(s => s.name),
+        candidates.flatMap(c => c.skills.map(s => s.name))
+    );
+
+    const ranked = candidates.map(({ retrieval, ...peer }) => {
+        const vectorScore = retrieval?.vectorScore ?? 0;
+        const overlap = skillOverlap(profile, peer, graph);
+        const matchScore = (1 - skillWeight) * vectorScore + skillWeight * overlap;
+        return { expert: peer, matchScore, retrieval, overlap };
+    })
+        .sort((a, b) => b.matchScore - a.matchScore)
+        .slice(0, limit);
+
+    let explanations: (string[] | undefined)[] = [];
+    if (explain && ranked.length > 0) {
+        const query = `Experts similar to ${profile.name} (${profile.title}), skilled in ${profile.skills.slice(0, 5).map(s => s.name).join(', ')}`;
+        try {
+            explanations = await generateExplanations(query, ranked);
+        } catch (error) {
+            if (error instanceof LLMBudgetExceededError) throw error;
+            const detail = error instanceof LLMValidationError ? error.toJSON() : error;
+            console.log('Similar-expert explanations failed, using skill overlap:', detail);
+        }
+    }
+
+    const matches: ExpertMatch[] = ranked.map(({ expert, matchScore, retrieval, overlap }, i) => ({
+        expert: { ...expert, _id: expert._id ? String(expert._id) : undefined },
+        matchScore,
+        reasoning: [
+            ...(explanations[i] || overlapExplanation(profile, expert, graph)),
+            `🔗 ${Math.round((retrieval?.vectorScore ?? 0) * 100)}% profile similarity, ${Math.round(overlap * 100)}% skill overlap`,
+        ],
+        matchedBy: 'similarity',
+        retrieval,
+    }));
+
+    return { source: { ...profile, _id: String(source._id) }, matches };
+}
@@ -0,0 +1,190 @@
+/**
+ * Skill Adjacency Graph for ExpertMesh
+ * Graded similarity between skills so related experience earns partial
+ * credit: PyTorch partially satisfies TensorFlow, Go and Rust satisfy
+ * "systems programming". Edges come from a curated list, the taxonomy's
+ * parent/sibling structure, and cosine similarity of skill-name embeddings.
+ */
+
+import { generateEmbeddings } from './voyage';
+import { loadTaxonomy, skillKey } from './taxonomy';
+import { skillSimilarity } from './ranker';
+
+export type SkillEdgeSource = 'exact' | 'fuzzy' | 'curated' | 'taxonomy' | 'embedding';
+
+export interface SkillAdjacency {
+    score: number; // 0-1 credit toward the requested skill
+    source: SkillEdgeSource;
+}
+
+// Hand-picked adjacencies (undirected) the taxonomy tree cannot express
+export const CURATED_SKILL_EDGES: [string, string, number][] = [
+    // Concepts satisfied by concrete skills
+    ['Systems Programming', 'Rust', 0.9],
+    ['Systems Programming', 'C++', 0.9],
+    ['Systems Programming', 'C', 0.9],
+    ['Systems Programming', 'Go', 0.75],
+    ['Frontend', 'React', 0.8],
+    ['Frontend', 'Vue', 0.8],
+    ['Frontend', 'Angular', 0.8],
+    ['Backend', 'Node.js', 0.7],
+    ['Backend', 'Go', 0.7],
+    ['Backend', 'Django', 0.7],
+    ['Backend', 'Spring', 0.7],
+    ['DevOps', 'Kubernetes', 0.8],
+    ['DevOps', 'Terraform', 0.8],
+    ['DevOps', 'Docker', 0.7],
+    ['Cloud', 'AWS', 0.8],
+    ['Cloud', 'GCP', 0.8],
+    ['Cloud', 'Azure', 0.8],
+    // Interchangeable tools
+    ['PyTorch', 'TensorFlow', 0.7],
+    ['PostgreSQL', 'MySQL', 0.7],
+    ['AWS', 'GCP', 0.6],
+    ['AWS', 'Azure', 0.6],
+    ['GCP', 'Azure', 0.6],
+    ['React', 'Vue', 0.5],
+    ['React', 'Angular', 0.4],
+    ['Vue', 'Angular', 0.4],
+    ['Django', 'Flask', 0.6],
+    ['Flask', 'FastAPI', 0.7],
+    ['Java', 'Kotlin', 0.7],
+    ['Kubernetes', 'Docker', 0.6],
+    ['Go', 'Rust', 0.4],
+    ['Machine Learning', 'Data Science', 0.6],
+];
+
+// Credit for taxonomy relationships, directional from requested to held skill
+const CHILD_OF_REQUESTED_CREDIT = 0.8;  // Asked for JavaScript, has React
+const PARENT_OF_REQUESTED_CREDIT = 0.4; // Asked for React, has JavaScript
+const SIBLING_CREDIT = 0.4;             // Asked for Django, has Flask
+
+// Embedding edges only count above this cosine similarity, and never as exact
+const DEFAULT_EMBEDDING_THRESHOLD = 0.7;
+const MAX_EMBEDDING_CREDIT = 0.7;
+
+// Scores at or above this are reported as full matches rather than partial
+export const FULL_MATCH_SCORE = 0.95;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const edgeKey = (a: string, b: string) => `${skillKey(a)}→${skillKey(b)}`;
+
+/**
+ * Similarity lookups for one ranking pass, precomputed by buildSkillGraph
+ */
+export class SkillGraph {
+    private edges = new Map<string, SkillAdjacency>();
+
+    addEdge(requested: string, held: string, adjacency: SkillAdjacency) {
+        const key = edgeKey(requested, held);
+        const existing = this.edges.get(key);
+        if (!existing || adjacency.score > existing.score) {
+            this.edges.set(key, adjacency);
+        }
+    }
+
+    /**
+     * Credit an expert's skill earns toward a requested one
+     */
+    similarity(requested: string, held: string): SkillAdjacency {
+        const fuzzy = skillSimilarity(requested, held);
+        const best: SkillAdjacency = { score: fuzzy, source: fuzzy >= 1 ? 'exact' : 'fuzzy' };
+        const edge = this.edges.get(edgeKey(requested, held));
+        return edge && edge.score > best.score ? edge : best;
+    }
+
+    /**
+     * Best-matching held skill for each requested skill
+     */
+    bestMatches(requested: string[], held: string[]): { requested: string; held?: string; adjacency: SkillAdjacency }[] {
+        return requested.map(name => {
+            let best: { held?: string; adjacency: SkillAdjacency } = { adjacency: { score: 0, source: 'fuzzy' } };
+            for (const skill of held) {
+                const adjacency = this.similarity(name, skill);
+                if (adjacency.score > best.adjacency.score) best = { held: skill, adjacency };
+            }
+            return { requested: name, ...best };
+        });
+    }
+}
+
+/**
+ * Build the adjacency edges between the requested skills and every skill
+ * held by the candidates. Embedding edges are best effort: if the provider
+ * fails, curated and taxonomy edges still apply.
+ */
+export async function buildSkillGraph(requested: string[], held: string[]): Promise<SkillGraph> {
+    const graph = new SkillGraph();
+    const requestedNames = [...new Map(requested.map(n => [skillKey(n), n])).values()];
+    const heldNames = [...new Map(held.map(n => [skillKey(n), n])).values()];
+    if (requestedNames.length === 0 || heldNames.length === 0) return graph;
+
+    // 1. Curated edges, in both directions
+    for (const [a, b, score] of CURATED_SKILL_EDGES) {
+        graph.addEdge(a, b, { score, source: 'curated' });
+        graph.addEdge(b, a, { score, source: 'curated' });
+    }
+
+    // 2. Taxonomy: descendants, ancestors and siblings
+    const { byKey } = await loadTaxonomy();
+    const ancestorsOf = (name: string): Set<string> => {
+        const ancestors = new Set<string>();
+        const queue = [...(byKey.get(skillKey(name))?.parents || [])];
+        while (queue.length > 0) {
+            const parent = queue.shift()!;
+            if (ancestors.has(skillKey(parent))) continue;
+            ancestors.add(skillKey(parent));
+            queue.push(...(byKey.get(skillKey(parent))?.parents || []));
+        }
+        return ancestors;
+    };
+
+    for (const req of requestedNames) {
+        const reqAncestors = ancestorsOf(req);
+        const reqParents = new Set((byKey.get(skillKey(req))?.parents || []).map(skillKey));
+
+        for (const skill of heldNames) {
+            if (skillKey(skill) === skillKey(req)) continue;
+            const heldParents = byKey.get(skillKey(skill))?.parents || [];
+
+            if (ancestorsOf(skill).has(skillKey(req))) {
+                graph.addEdge(req, skill, { score: CHILD_OF_REQUESTED_CREDIT, source: 'taxonomy' });
+            } else if (reqAncestors.has(skillKey(skill))) {
+                graph.addEdge(req, skill, { score: PARENT_OF_REQUESTED_CREDIT, source: 'taxonomy' });
+            } else if (heldParents.some(parent => reqParents.has(skillKey(parent)))) {
+                graph.addEdge(req, skill, { score: SIBLING_CREDIT, source: 'taxonomy' });
+            }
+        }
+    }
+
+    // 3. Embedding similarity of the skill names themselves
+    const threshold = parseFloat(process.env.SKILL_ADJACENCY_THRESHOLD || '') || DEFAULT_EMBEDDING_THRESHOLD;
+    try {
+        const vectors = await generateEmbeddings([...requestedNames, ...heldNames]);
+        const heldVectors = vectors.slice(requestedNames.length);
+
+        requestedNames.forEach((req, i) => {
+            heldNames.forEach((skill, j) => {
+                const similarity = cosineSimilarity(vectors[i], heldVectors[j]);
+                if (similarity >= threshold && skillKey(skill) !== skillKey(req)) {
+                    graph.addEdge(req, skill, { score: Math.min(MAX_EMBEDDING_CREDIT, similarity), source: 'embedding' });
+                }
+            });
+        });
+    } catch (error) {
+        console.log('Skill-name embeddings unavailable, using curated adjacency only:', error);
+    }
+
+    return graph;
+}
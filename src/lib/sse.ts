@@ -0,0 +1,95 @@
+/**
+ * Server-Sent Events helpers for ExpertMesh
+ * Encodes events on the server and parses them in the browser
+ */
+
+export interface StreamEvent<T = unknown> {
+    event: string;
+    data: T;
+}
+
+/**
+ * Encode a single SSE frame
+ */
+export function encodeEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build a text/event-stream Response fed by a producer function.
+ * The stream closes once the producer settles.
+ */
+export function createEventStream(
+    producer: (send: (event: string, data: unknown) => void) => Promise<void>
+): Response {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            const send = (event: string, data: unknown) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(encodeEvent(event, data)));
+                } catch {
+                    // Client disconnected; keep the producer running to completion
+                    closed = true;
+                }
+            };
+
+            try {
+                await producer(send);
+            } catch (error) {
+                send('error', { error: String(error) });
+            } finally {
+                if (!closed) controller.close();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
+
+/**
+ * Read an SSE response body and invoke the callback for each event
+ */
+export async function readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: StreamEvent) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            const dataLines: string[] = [];
+            for (const line of frame.split('\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+            }
+
+            if (dataLines.length > 0) {
+                onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+            }
+
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+}
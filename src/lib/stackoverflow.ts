@@ -3,9 +3,11 @@
  * Fetches real developer profiles from Stack Overflow
  */
 
+import { httpFetch, NotFoundError } from './http';
+
 const STACK_API_BASE = 'https://api.stackexchange.com/2.3';
 
-interface StackOverflowUser {
+export interface StackOverflowUser {
     user_id: number;
     display_name: string;
     reputation: number;
@@ -47,7 +49,7 @@ export async function searchUsersByTag(
 
     console.log(`🔍 Searching Stack Overflow for top ${tag} answerers...`);
 
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     if (!response.ok) {
         const error = await response.text();
@@ -72,7 +74,7 @@ export async function getTopUsers(limit: number = 30): Promise<StackOverflowUser
 
     console.log(`🔍 Fetching top ${limit} Stack Overflow users by reputation...`);
 
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     if (!response.ok) {
         const text = await response.text();
@@ -97,7 +99,7 @@ export async function getUsersByIds(userIds: number[]): Promise<StackOverflowUse
     const ids = userIds.slice(0, 100).join(';'); // Max 100 per request
     const url = `${STACK_API_BASE}/users/${ids}?order=desc&sort=reputation&site=stackoverflow${keyParam}`;
 
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     if (!response.ok) {
         const text = await response.text();
@@ -110,7 +112,27 @@ export async function getUsersByIds(userIds: number[]): Promise<StackOverflowUse
 }
 
 /**
- * Get user's top tags (skills)
+ * Get one user by ID; throws NotFoundError when the API returns no such user
+ */
+export async function getUserById(userId: number): Promise<StackOverflowUser> {
+    const [user] = await getUsersByIds([userId]);
+    if (!user) {
+        throw new NotFoundError('stackexchange', `user ${userId}`);
+    }
+    return user;
+}
+
+/**
+ * User id from a profile URL ("https://stackoverflow.com/users/22656/jon-skeet" -> 22656)
+ */
+export function parseStackOverflowUserId(profileUrl: string): number | null {
+    const match = profileUrl.match(/stackoverflow\.com\/users\/(\d+)/i);
+    return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Get user's top tags (skills). Throws on a failed request (including a
+ * throttle_violation) so callers can tell it apart from a user without tags.
  */
 export async function getUserTopTags(userId: number): Promise<StackOverflowTag[]> {
     const apiKey = process.env.STACKOVERFLOW_KEY || '';
@@ -118,10 +140,10 @@ export async function getUserTopTags(userId: number): Promise<StackOverflowTag[]
 
     const url = `${STACK_API_BASE}/users/${userId}/top-tags?site=stackoverflow&pagesize=10${keyParam}`;
 
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     if (!response.ok) {
-        return []; // Fail gracefully
+        throw new Error(`Failed to fetch top tags for user ${userId}: ${response.status} ${response.statusText}`);
     }
 
     const data = await response.json();
@@ -259,7 +281,7 @@ export async function checkQuota(): Promise<{ remaining: number; max: number }>
     const keyParam = apiKey ? `&key=${apiKey}` : '';
 
     const url = `${STACK_API_BASE}/users/1?site=stackoverflow${keyParam}`;
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     const remaining = parseInt(response.headers.get('x-ratelimit-remaining') || '300');
     const max = parseInt(response.headers.get('x-ratelimit-max') || '300');
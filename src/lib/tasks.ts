@@ -0,0 +1,167 @@
+/**
+ * Agent Task Steps for ExpertMesh
+ * Records every agent execution on its agent_tasks document (timing, input
+ * size, output summary, LLM token usage, errors) and reads a task back as a
+ * waterfall showing where time and tokens go.
+ */
+
+import { getDb, COLLECTIONS, AgentTask, AgentTaskStep, TokenUsage } from './mongodb';
+import { createTokenUsage, runWithUsage } from './llm';
+import { LLMValidationError } from './llm-json';
+
+export interface StepSummary {
+    summary: string;
+    output?: unknown;
+}
+
+export interface WaterfallStep extends AgentTaskStep {
+    offsetMs: number; // Start relative to the task start
+}
+
+export interface TaskWaterfall {
+    taskId: string;
+    queryId: string;
+    status: AgentTask['status'];
+    startedAt: Date;
+    completedAt?: Date;
+    durationMs: number;
+    usage: TokenUsage;
+    error?: string;
+    steps: WaterfallStep[];
+    byAgent: Record<string, { steps: number; durationMs: number; usage: TokenUsage }>;
+}
+
+function inputSize(input: unknown): number {
+    try {
+        return Buffer.byteLength(JSON.stringify(input) ?? '');
+    } catch {
+        return 0;
+    }
+}
+
+function addUsage(into: TokenUsage, usage: TokenUsage) {
+    into.calls += usage.calls;
+    into.promptTokens += usage.promptTokens;
+    into.completionTokens += usage.completionTokens;
+    into.totalTokens += usage.totalTokens;
+}
+
+/**
+ * Run one agent execution and append it to the task's steps, whether it
+ * succeeds or throws (the error is recorded, then rethrown)
+ */
+export async function runAgentStep<T>(
+    taskId: string,
+    step: { agent: string; action: string; input: unknown },
+    fn: () => Promise<T>,
+    summarize: (output: T) => StepSummary
+): Promise<T> {
+    const usage = createTokenUsage();
+    const startedAt = new Date();
+
+    const record = async (fields: Pick<AgentTaskStep, 'status' | 'summary' | 'output' | 'error'>) => {
+        const completedAt = new Date();
+        const entry: AgentTaskStep = {
+            agent: step.agent,
+            action: step.action,
+            inputSize: inputSize(step.input),
+            usage,
+            startedAt,
+            completedAt,
+            durationMs: completedAt.getTime() - startedAt.getTime(),
+            ...fields,
+        };
+
+        try {
+            const db = await getDb();
+            await db.collection<AgentTask>(COLLECTIONS.AGENT_TASKS).updateOne({ taskId }, { $push: { steps: entry } });
+        } catch (error) {
+            console.error(`Failed to record ${step.agent} step:`, error);
+        }
+    };
+
+    try {
+        const output = await runWithUsage(usage, fn);
+        await record({ status: 'completed', ...summarize(output) });
+        return output;
+    } catch (error) {
+        await record({
+            status: 'failed',
+            summary: `${step.action} failed`,
+            error: {
+                name: error instanceof Error ? error.name : 'Error',
+                message: error instanceof Error ? error.message : String(error),
+                ...(error instanceof LLMValidationError ? { details: error.toJSON() } : {}),
+            },
+        });
+        throw error;
+    }
+}
+
+/**
+ * Close a task, totalling duration and token usage across its steps
+ */
+export async function finishTask(taskId: string, status: 'completed' | 'failed', error?: unknown): Promise<void> {
+    const db = await getDb();
+    const tasks = db.collection<AgentTask>(COLLECTIONS.AGENT_TASKS);
+    const task = await tasks.findOne({ taskId });
+    if (!task) return;
+
+    const usage = createTokenUsage();
+    (task.steps || []).forEach(step => step.usage && addUsage(usage, step.usage));
+
+    const completedAt = new Date();
+    await tasks.updateOne(
+        { taskId },
+        {
+            $set: {
+                status,
+                completedAt,
+                durationMs: completedAt.getTime() - new Date(task.startedAt).getTime(),
+                usage,
+                ...(error ? { error: String(error) } : {}),
+            },
+        }
+    );
+}
+
+/**
+ * Steps of a task (by taskId or queryId) laid out on a timeline
+ */
+export async function getTaskWaterfall(lookup: { taskId?: string; queryId?: string }): Promise<TaskWaterfall | null> {
+    const db = await getDb();
+    const filter = lookup.taskId ? { taskId: lookup.taskId } : { queryId: lookup.queryId };
+    const task = await db.collection<AgentTask>(COLLECTIONS.AGENT_TASKS).findOne(filter, { projection: { _id: 0 } });
+    if (!task) return null;
+
+    const taskStart = new Date(task.startedAt).getTime();
+    const steps = (task.steps || [])
+        .filter(step => step.startedAt) // Tasks recorded before steps carried timings
+        .map(step => ({ ...step, offsetMs: new Date(step.startedAt).getTime() - taskStart }))
+        .sort((a, b) => a.offsetMs - b.offsetMs);
+
+    const usage = createTokenUsage();
+    const byAgent: TaskWaterfall['byAgent'] = {};
+    for (const step of steps) {
+        const agent = (byAgent[step.agent] ||= { steps: 0, durationMs: 0, usage: createTokenUsage() });
+        agent.steps++;
+        agent.durationMs += step.durationMs;
+        addUsage(agent.usage, step.usage);
+        addUsage(usage, step.usage);
+    }
+
+    const lastEnd = Math.max(0, ...steps.map(s => s.offsetMs + s.durationMs));
+
+    return {
+        taskId: task.taskId,
+        queryId: task.queryId,
+        status: task.status,
+        startedAt: task.startedAt,
+        ...(task.completedAt ? { completedAt: task.completedAt } : {}),
+        durationMs: task.durationMs ?? lastEnd,
+        usage: task.usage || usage,
+        ...(task.error ? { error: task.error } : {}),
+        steps,
+        byAgent,
+    };
+}
@@ -0,0 +1,362 @@
+/**
+ * Skill Taxonomy for ExpertMesh
+ * Canonical skill names, aliases, parent/child relationships and
+ * categories. Every ingester and parseQuery normalize skill names through
+ * here so "k8s", "Kubernetes" and "kubernetes" compare equal.
+ */
+
+import { AnyBulkWriteOperation, Document } from 'mongodb';
+import { getDb, COLLECTIONS, SkillTaxonomyEntry } from './mongodb';
+import { bumpDatasetGeneration } from './search-cache';
+import { generateExpertEmbeddings, getEmbeddingMetadata } from './voyage';
+
+type ProfileSkill = { name: string; level: string; yearsExp: number };
+
+const LEVEL_ORDER = ['junior', 'mid', 'senior', 'expert'];
+const CACHE_TTL_MS = 60 * 1000;
+
+// Seeded into an empty skill_taxonomy collection
+export const DEFAULT_TAXONOMY: Omit<SkillTaxonomyEntry, '_id' | 'createdAt' | 'updatedAt'>[] = [
+    // Languages
+    { canonical: 'JavaScript', aliases: ['js', 'ecmascript', 'es6'], parents: [], category: 'Languages' },
+    { canonical: 'TypeScript', aliases: ['ts'], parents: ['JavaScript'], category: 'Languages' },
+    { canonical: 'Python', aliases: ['py', 'python3'], parents: [], category: 'Languages' },
+    { canonical: 'Go', aliases: ['golang'], parents: [], category: 'Languages' },
+    { canonical: 'Rust', aliases: ['rust-lang', 'rustlang'], parents: [], category: 'Languages' },
+    { canonical: 'Java', aliases: [], parents: [], category: 'Languages' },
+    { canonical: 'Kotlin', aliases: [], parents: [], category: 'Languages' },
+    { canonical: 'Swift', aliases: [], parents: [], category: 'Languages' },
+    { canonical: 'C++', aliases: ['cpp', 'c plus plus'], parents: [], category: 'Languages' },
+    { canonical: 'C#', aliases: ['csharp', 'c sharp'], parents: [], category: 'Languages' },
+    { canonical: 'Ruby', aliases: [], parents: [], category: 'Languages' },
+    { canonical: 'PHP', aliases: [], parents: [], category: 'Languages' },
+    { canonical: 'SQL', aliases: [], parents: [], category: 'Databases' },
+    { canonical: 'Solidity', aliases: [], parents: [], category: 'Web3' },
+    // Frontend
+    { canonical: 'React', aliases: ['reactjs', 'react.js'], parents: ['JavaScript'], category: 'Frontend' },
+    { canonical: 'Next.js', aliases: ['nextjs'], parents: ['React'], category: 'Frontend' },
+    { canonical: 'Vue', aliases: ['vuejs', 'vue.js'], parents: ['JavaScript'], category: 'Frontend' },
+    { canonical: 'Angular', aliases: ['angularjs'], parents: ['TypeScript'], category: 'Frontend' },
+    { canonical: 'HTML', aliases: ['html5'], parents: [], category: 'Frontend' },
+    { canonical: 'CSS', aliases: ['css3'], parents: [], category: 'Frontend' },
+    // Backend
+    { canonical: 'Node.js', aliases: ['node', 'nodejs'], parents: ['JavaScript'], category: 'Backend' },
+    { canonical: 'Django', aliases: [], parents: ['Python'], category: 'Backend' },
+    { canonical: 'Flask', aliases: [], parents: ['Python'], category: 'Backend' },
+    { canonical: 'FastAPI', aliases: [], parents: ['Python'], category: 'Backend' },
+    { canonical: 'Ruby on Rails', aliases: ['rails', 'ror'], parents: ['Ruby'], category: 'Backend' },
+    { canonical: 'Spring', aliases: ['spring boot', 'springboot'], parents: ['Java'], category: 'Backend' },
+    { canonical: 'GraphQL', aliases: ['gql'], parents: [], category: 'Backend' },
+    // DevOps and cloud
+    { canonical: 'Kubernetes', aliases: ['k8s', 'kube'], parents: [], category: 'DevOps' },
+    { canonical: 'Docker', aliases: [], parents: [], category: 'DevOps' },
+    { canonical: 'Terraform', aliases: ['hcl'], parents: [], category: 'DevOps' },
+    { canonical: 'AWS', aliases: ['amazon web services'], parents: [], category: 'Cloud' },
+    { canonical: 'GCP', aliases: ['google cloud', 'google cloud platform'], parents: [], category: 'Cloud' },
+    { canonical: 'Azure', aliases: ['microsoft azure'], parents: [], category: 'Cloud' },
+    // Databases
+    { canonical: 'PostgreSQL', aliases: ['postgres', 'psql'], parents: ['SQL'], category: 'Databases' },
+    { canonical: 'MySQL', aliases: [], parents: ['SQL'], category: 'Databases' },
+    { canonical: 'MongoDB', aliases: ['mongo'], parents: [], category: 'Databases' },
+    { canonical: 'Redis', aliases: [], parents: [], category: 'Databases' },
+    // AI/ML and data
+    { canonical: 'Machine Learning', aliases: ['ml'], parents: [], category: 'AI/ML' },
+    { canonical: 'Deep Learning', aliases: ['dl'], parents: ['Machine Learning'], category: 'AI/ML' },
+    { canonical: 'PyTorch', aliases: ['torch'], parents: ['Deep Learning', 'Python'], category: 'AI/ML' },
+    { canonical: 'TensorFlow', aliases: ['tensorflow2'], parents: ['Deep Learning', 'Python'], category: 'AI/ML' },
+    { canonical: 'NLP', aliases: ['natural language processing'], parents: ['Machine Learning'], category: 'AI/ML' },
+    { canonical: 'LLMs', aliases: ['llm', 'large language models'], parents: ['NLP'], category: 'AI/ML' },
+    { canonical: 'Data Science', aliases: ['data analysis'], parents: [], category: 'Data' },
+    { canonical: 'Jupyter', aliases: ['jupyter notebook'], parents: ['Python'], category: 'Data' },
+    // Security
+    { canonical: 'Security', aliases: ['cybersecurity', 'infosec', 'appsec'], parents: [], category: 'Security' },
+];
+
+interface TaxonomyIndex {
+    entries: SkillTaxonomyEntry[];
+    byKey: Map<string, SkillTaxonomyEntry>; // canonical and alias keys
+}
+
+let cached: { index: TaxonomyIndex; loadedAt: number } | null = null;
+
+/**
+ * Lookup key: case-insensitive with whitespace, "_" and "-" collapsed
+ */
+export function skillKey(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+}
+
+function buildIndex(entries: SkillTaxonomyEntry[]): TaxonomyIndex {
+    const byKey = new Map<string, SkillTaxonomyEntry>();
+    for (const entry of entries) {
+        byKey.set(skillKey(entry.canonical), entry);
+        for (const alias of entry.aliases) {
+            if (!byKey.has(skillKey(alias))) byKey.set(skillKey(alias), entry);
+        }
+    }
+    return { entries, byKey };
+}
+
+/**
+ * Load the taxonomy (seeding defaults on first use), cached briefly in-process
+ */
+export async function loadTaxonomy(): Promise<TaxonomyIndex> {
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+        return cached.index;
+    }
+
+    try {
+        const db = await getDb();
+        const collection = db.collection<SkillTaxonomyEntry>(COLLECTIONS.SKILL_TAXONOMY);
+
+        let entries = await collection.find({}, { projection: { _id: 0 } }).toArray();
+        if (entries.length === 0) {
+            const now = new Date();
+            await collection.insertMany(DEFAULT_TAXONOMY.map(entry => ({ ...entry, createdAt: now, updatedAt: now })));
+            entries = await collection.find({}, { projection: { _id: 0 } }).toArray();
+        }
+
+        cached = { index: buildIndex(entries), loadedAt: Date.now() };
+    } catch (error) {
+        console.log('Skill taxonomy unavailable, using defaults:', error);
+        cached = { index: buildIndex(DEFAULT_TAXONOMY), loadedAt: Date.now() };
+    }
+
+    return cached.index;
+}
+
+export function invalidateTaxonomyCache() {
+    cached = null;
+}
+
+/**
+ * Canonical name for a skill, or the trimmed input if it is not in the taxonomy
+ */
+export async function normalizeSkillName(name: string): Promise<string> {
+    const { byKey } = await loadTaxonomy();
+    return byKey.get(skillKey(name))?.canonical || name.trim();
+}
+
+/**
+ * Canonicalize a profile's skills, merging duplicates that share a canonical
+ * name (keeping the higher level and years)
+ */
+export async function normalizeSkills<T extends ProfileSkill>(skills: T[]): Promise<T[]> {
+    const { byKey } = await loadTaxonomy();
+    const merged = new Map<string, T>();
+
+    for (const skill of skills) {
+        const name = byKey.get(skillKey(skill.name))?.canonical || skill.name.trim();
+        const existing = merged.get(skillKey(name));
+
+        if (!existing) {
+            merged.set(skillKey(name), { ...skill, name });
+            continue;
+        }
+
+        merged.set(skillKey(name), {
+            ...existing,
+            level: LEVEL_ORDER[Math.max(LEVEL_ORDER.indexOf(existing.level), LEVEL_ORDER.indexOf(skill.level))] || existing.level,
+            yearsExp: Math.max(existing.yearsExp || 0, skill.yearsExp || 0),
+        });
+    }
+
+    return [...merged.values()];
+}
+
+/**
+ * Canonicalize a batch of experts before they are embedded and inserted
+ */
+export async function normalizeExpertSkills<T extends { skills: ProfileSkill[] }>(experts: T[]): Promise<T[]> {
+    return Promise.all(experts.map(async expert => ({ ...expert, skills: await normalizeSkills(expert.skills || []) })));
+}
+
+/**
+ * Canonical skills named in free text (single words and phrases up to three
+ * words that match a taxonomy name or alias), sorted and de-duplicated
+ */
+export async function findSkillsInText(text: string): Promise<string[]> {
+    const { byKey } = await loadTaxonomy();
+    const words = text.toLowerCase().split(/[^a-z0-9+#.]+/).map(w => w.replace(/\.+$/, '')).filter(Boolean);
+
+    const found = new Set<string>();
+    for (let i = 0; i < words.length; i++) {
+        for (let n = 1; n <= 3 && i + n <= words.length; n++) {
+            const entry = byKey.get(skillKey(words.slice(i, i + n).join(' ')));
+            if (entry) found.add(entry.canonical);
+        }
+    }
+    return [...found].sort();
+}
+
+/**
+ * Canonical name plus aliases, for widening literal keyword matches
+ */
+export async function expandSkillAliases(names: string[]): Promise<string[]> {
+    const { byKey } = await loadTaxonomy();
+    const expanded = new Set<string>();
+
+    for (const name of names) {
+        const entry = byKey.get(skillKey(name));
+        expanded.add(entry?.canonical || name);
+        entry?.aliases.forEach(alias => expanded.add(alias));
+    }
+
+    return [...expanded];
+}
+
+/**
+ * All ancestors of a canonical skill (React -> JavaScript)
+ */
+export async function getSkillAncestors(name: string): Promise<string[]> {
+    const { byKey } = await loadTaxonomy();
+    const ancestors = new Set<string>();
+    const queue = [...(byKey.get(skillKey(name))?.parents || [])];
+
+    while (queue.length > 0) {
+        const parent = queue.shift()!;
+        if (ancestors.has(parent)) continue;
+        ancestors.add(parent);
+        queue.push(...(byKey.get(skillKey(parent))?.parents || []));
+    }
+
+    return [...ancestors];
+}
+
+export class InvalidTaxonomyEntryError extends Error {
+    constructor(message: string, public readonly reason: 'invalid' | 'conflict') {
+        super(message);
+        this.name = 'InvalidTaxonomyEntryError';
+    }
+}
+
+/**
+ * Create or replace an entry. Throws InvalidTaxonomyEntryError for a skill
+ * listed as its own parent or names already owned by another skill.
+ */
+export async function upsertTaxonomyEntry(input: {
+    canonical: string;
+    aliases?: string[];
+    parents?: string[];
+    category?: string;
+}): Promise<SkillTaxonomyEntry> {
+    const canonical = input.canonical.trim();
+    const { byKey } = await loadTaxonomy();
+
+    const aliases = [...new Set((input.aliases || []).map(a => a.trim()).filter(Boolean))];
+    for (const alias of aliases) {
+        const owner = byKey.get(skillKey(alias));
+        if (owner && skillKey(owner.canonical) !== skillKey(canonical)) {
+            throw new InvalidTaxonomyEntryError(`Alias "${alias}" already belongs to ${owner.canonical}`, 'conflict');
+        }
+    }
+
+    const parents = [...new Set((input.parents || []).map(p => p.trim()).filter(Boolean))];
+    if (parents.some(p => skillKey(p) === skillKey(canonical))) {
+        throw new InvalidTaxonomyEntryError(`${canonical} cannot be its own parent`, 'invalid');
+    }
+
+    const existing = byKey.get(skillKey(canonical));
+    if (existing && skillKey(existing.canonical) !== skillKey(canonical)) {
+        throw new InvalidTaxonomyEntryError(`"${canonical}" is an alias of ${existing.canonical}`, 'conflict');
+    }
+
+    const db = await getDb();
+    const now = new Date();
+
+    const entry: SkillTaxonomyEntry = {
+        canonical,
+        aliases,
+        parents,
+        category: input.category?.trim() || existing?.category || 'Other',
+        updatedAt: now,
+    };
+
+    await db.collection<SkillTaxonomyEntry>(COLLECTIONS.SKILL_TAXONOMY).updateOne(
+        { canonical: existing?.canonical || canonical },
+        { $set: entry, $setOnInsert: { createdAt: now } },
+        { upsert: true }
+    );
+
+    invalidateTaxonomyCache();
+    return entry;
+}
+
+export async function deleteTaxonomyEntry(canonical: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db.collection(COLLECTIONS.SKILL_TAXONOMY).deleteOne({ canonical });
+    invalidateTaxonomyCache();
+    return result.deletedCount > 0;
+}
+
+/**
+ * Re-canonicalize skills on stored experts after the taxonomy changes.
+ * The skills are part of the embedded profile text, so changed experts are
+ * re-embedded too; if that fails, their embedding version is cleared so the
+ * re-embedding job (./reembed.ts) picks them up.
+ */
+export async function applyTaxonomyToExperts(batchSize: number = 200): Promise<{
+    scanned: number;
+    updated: number;
+    reembedded: number;
+    pendingReembed: number;
+}> {
+    const db = await getDb();
+    const experts = db.collection(COLLECTIONS.EXPERTS);
+
+    let scanned = 0;
+    let updated = 0;
+    let reembedded = 0;
+    let pendingReembed = 0;
+    let batch: { expert: Document; skills: Document['skills'] }[] = [];
+
+    const flush = async () => {
+        let operations: AnyBulkWriteOperation<Document>[];
+        try {
+            const skillVectors = await generateExpertEmbeddings(batch.map(({ expert, skills }) => ({
+                name: expert.name || '',
+                title: expert.title || '',
+                bio: expert.bio || '',
+                skills,
+            })));
+            const embedding = getEmbeddingMetadata();
+            operations = batch.map(({ expert, skills }, i) => ({
+                updateOne: {
+                    filter: { _id: expert._id },
+                    update: { $set: { skills, skillVector: skillVectors[i], embedding, updatedAt: new Date() } },
+                },
+            }));
+            reembedded += batch.length;
+        } catch (error) {
+            console.error('Re-embedding re-canonicalized experts failed; leaving them to the re-embedding job:', error);
+            operations = batch.map(({ expert, skills }) => ({
+                updateOne: {
+                    filter: { _id: expert._id },
+                    update: { $set: { skills, updatedAt: new Date() }, $unset: { 'embedding.version': '' } },
+                },
+            }));
+            pendingReembed += batch.length;
+        }
+
+        updated += (await experts.bulkWrite(operations)).modifiedCount;
+        batch = [];
+    };
+
+    const cursor = experts.find({}, { projection: { name: 1, title: 1, bio: 1, skills: 1 } });
+    for await (const expert of cursor) {
+        scanned++;
+        const skills = expert.skills || [];
+        const normalized = await normalizeSkills(skills);
+
+        if (JSON.stringify(normalized) !== JSON.stringify(skills)) {
+            batch.push({ expert, skills: normalized });
+        }
+
+        if (batch.length >= batchSize) await flush();
+    }
+
+    if (batch.length > 0) await flush();
+    if (updated > 0) await bumpDatasetGeneration(`re-canonicalized skills on ${updated} experts`);
+
+    return { scanned, updated, reembedded, pendingReembed };
+}
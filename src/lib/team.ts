@@ -0,0 +1,242 @@
+/**
+ * Team Composition for ExpertMesh
+ * Picks one expert per role so the team covers the requested skills with as
+ * little overlap as possible, subject to hours and timezone-overlap limits.
+ * Whatever the team cannot cover is reported as explicit gaps.
+ */
+
+import { Expert, QueryConstraint } from './mongodb';
+import { RetrievalSignals, RetrievedExpert } from './retrieval';
+import { scoreConstraints, workingHoursOverlap } from './constraints';
+import { SkillGraph, FULL_MATCH_SCORE } from './skill-graph';
+import type { TeamRole } from './schemas';
+
+// Working hours the whole team must share (overridable via TEAM_MIN_OVERLAP_HOURS)
+const DEFAULT_MIN_OVERLAP_HOURS = 2;
+
+// Candidates below this fit are not considered for a role
+const MIN_ROLE_FIT = 0.3;
+
+// Skills credited below this are reported as missing rather than partial
+const MIN_PARTIAL_CREDIT = 0.3;
+
+// Blend of role fit, new coverage, duplicated coverage and constraint fit
+const SCORE_WEIGHTS = { roleFit: 0.55, gain: 0.3, redundancy: -0.15, constraints: 0.1 };
+
+export interface TeamMember {
+    role: string;
+    expert: Expert;
+    score: number;
+    roleFit: number; // Weighted credit for the role's own skills (0-1)
+    covers: string[]; // Requested skills this member fully covers
+    reasoning: string[];
+    retrieval?: RetrievalSignals;
+}
+
+export interface CoverageGap {
+    role: string;
+    skill?: string; // Absent when the whole role is unfilled
+    severity: 'unfilled' | 'missing' | 'partial';
+    reason: string;
+}
+
+export interface TeamAssembly {
+    members: TeamMember[];
+    coverage: number; // Weighted credit across all requested skills (0-1)
+    redundantSkills: string[]; // Fully covered by more than one member
+    timezoneOverlapHours: number | null;
+    totalHoursPerWeek: number;
+    gaps: CoverageGap[];
+}
+
+export function getMinOverlapHours(): number {
+    const configured = parseFloat(process.env.TEAM_MIN_OVERLAP_HOURS || '');
+    return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MIN_OVERLAP_HOURS;
+}
+
+function expertKey(expert: Expert): string {
+    return expert._id ? String(expert._id) : expert.email;
+}
+
+/**
+ * Why an expert cannot join the current team, or null if they can
+ */
+function infeasibility(expert: Expert, requiredHours: number, teamTimezones: string[], minOverlapHours: number): string | null {
+    if (expert.availability?.status === 'unavailable') return 'unavailable';
+    if ((expert.availability?.hoursPerWeek || 0) < requiredHours) return `under ${requiredHours}h/week`;
+
+    if (teamTimezones.length > 0) {
+        const overlap = workingHoursOverlap([...teamTimezones, expert.availability?.timezone || '']);
+        if (overlap !== null && overlap < minOverlapHours) return `under ${minOverlapHours}h timezone overlap`;
+    }
+
+    return null;
+}
+
+/**
+ * Greedy assembly: fill the most constrained role first, each time taking the
+ * feasible candidate with the best blend of role fit and new coverage
+ */
+export function assembleTeam(
+    roles: TeamRole[],
+    candidatesByRole: RetrievedExpert[][],
+    graph: SkillGraph,
+    options: { constraints?: QueryConstraint[]; minOverlapHours?: number } = {}
+): TeamAssembly {
+    const constraints = options.constraints || [];
+    const minOverlapHours = options.minOverlapHours ?? getMinOverlapHours();
+    const sharedHours = constraints.find(c => c.type === 'hours_per_week')?.value as number | undefined;
+
+    // Every requested skill across roles, at its highest weight
+    const requested = new Map<string, { name: string; weight: number; role: string }>();
+    for (const role of roles) {
+        for (const skill of role.skills) {
+            const key = skill.name.toLowerCase();
+            if ((requested.get(key)?.weight ?? -1) < skill.weight) {
+                requested.set(key, { name: skill.name, weight: skill.weight, role: role.title });
+            }
+        }
+    }
+    const allSkills = [...requested.values()];
+    const totalWeight = allSkills.reduce((sum, s) => sum + s.weight, 0) || 1;
+
+    // Credit (and the held skill giving it) per candidate and requested skill
+    const creditCache = new Map<Expert, Map<string, { score: number; held?: string }>>();
+    const creditsOf = (expert: Expert) => {
+        let credits = creditCache.get(expert);
+        if (!credits) {
+            credits = new Map(graph.bestMatches(allSkills.map(s => s.name), expert.skills.map(s => s.name))
+                .map(m => [m.requested.toLowerCase(), { score: m.held ? m.adjacency.score : 0, held: m.held }]));
+            creditCache.set(expert, credits);
+        }
+        return credits;
+    };
+
+    const requiredHoursFor = (role: TeamRole) => role.hoursPerWeek ?? sharedHours ?? 0;
+    const roleFit = (expert: Expert, role: TeamRole) => {
+        const credits = creditsOf(expert);
+        const weight = role.skills.reduce((sum, s) => sum + s.weight, 0) || 1;
+        return role.skills.reduce((sum, s) => sum + s.weight * (credits.get(s.name.toLowerCase())?.score || 0), 0) / weight;
+    };
+
+    // Most constrained first: roles with the fewest usable candidates
+    const order = roles.map((role, i) => ({
+        role,
+        index: i,
+        usable: (candidatesByRole[i] || []).filter(c =>
+            roleFit(c, role) >= MIN_ROLE_FIT && !infeasibility(c, requiredHoursFor(role), [], minOverlapHours)
+        ).length,
+    })).sort((a, b) => a.usable - b.usable);
+
+    const covered = new Map<string, number>();
+    const chosen = new Set<string>();
+    const timezones: string[] = [];
+    const picks: (TeamMember | null)[] = new Array(roles.length).fill(null);
+    const gaps: CoverageGap[] = [];
+
+    for (const { role, index } of order) {
+        const rejected: Record<string, number> = {};
+        let best: { expert: RetrievedExpert; score: number; fit: number } | null = null;
+
+        for (const candidate of candidatesByRole[index] || []) {
+            if (chosen.has(expertKey(candidate))) continue;
+
+            const fit = roleFit(candidate, role);
+            if (fit < MIN_ROLE_FIT) continue;
+
+            const reason = infeasibility(candidate, requiredHoursFor(role), timezones, minOverlapHours);
+            if (reason) {
+                rejected[reason] = (rejected[reason] || 0) + 1;
+                continue;
+            }
+
+            const credits = creditsOf(candidate);
+            let gain = 0;
+            let matched = 0;
+            let duplicated = 0;
+            for (const skill of allSkills) {
+                const key = skill.name.toLowerCase();
+                const credit = credits.get(key)?.score || 0;
+                const current = covered.get(key) || 0;
+                gain += skill.weight * Math.max(0, credit - current);
+                if (credit >= FULL_MATCH_SCORE) {
+                    matched++;
+                    if (current >= FULL_MATCH_SCORE) duplicated++;
+                }
+            }
+
+            const score =
+                SCORE_WEIGHTS.roleFit * fit +
+                SCORE_WEIGHTS.gain * (gain / totalWeight) +
+                SCORE_WEIGHTS.redundancy * (matched > 0 ? duplicated / matched : 0) +
+                SCORE_WEIGHTS.constraints * scoreConstraints(candidate, constraints).score;
+
+            if (!best || score > best.score) best = { expert: candidate, score, fit };
+        }
+
+        if (!best) {
+            const why = Object.entries(rejected).map(([reason, n]) => `${n} ${reason}`).join(', ');
+            gaps.push({
+                role: role.title,
+                severity: 'unfilled',
+                reason: why ? `No candidate fits the team constraints (${why})` : 'No candidate covers this role\'s skills',
+            });
+            continue;
+        }
+
+        const { retrieval, ...expert } = best.expert;
+        const credits = creditsOf(best.expert);
+        const roleKeys = new Set(role.skills.map(s => s.name.toLowerCase()));
+
+        const covers = allSkills.filter(s => (credits.get(s.name.toLowerCase())?.score || 0) >= FULL_MATCH_SCORE).map(s => s.name);
+        const newlyCovered = allSkills.filter(s => {
+            const key = s.name.toLowerCase();
+            return !roleKeys.has(key) && (credits.get(key)?.score || 0) >= FULL_MATCH_SCORE && (covered.get(key) || 0) < FULL_MATCH_SCORE;
+        });
+        const partial = role.skills.map(s => ({ skill: s.name, ...credits.get(s.name.toLowerCase()) }))
+            .filter(c => c.held && (c.score || 0) >= MIN_PARTIAL_CREDIT && (c.score || 0) < FULL_MATCH_SCORE);
+        const ownCovered = covers.filter(name => roleKeys.has(name.toLowerCase()));
+
+        const reasoning = [
+            ownCovered.length > 0
+                ? `✅ Covers ${ownCovered.join(', ')} for ${role.title}`
+                : `⚠️ No exact match for ${role.title}; closest profile among candidates`,
+            ...partial.map(c => `⚠️ Partial: ${c.held} is adjacent to ${c.skill} (${Math.round((c.score || 0) * 100)}% credit)`),
+            ...(newlyCovered.length > 0 ? [`✅ Also covers ${newlyCovered.map(s => `${s.name} (${s.role})`).join(', ')}`] : []),
+            `✅ ${expert.availability?.hoursPerWeek ?? 0}h/week, ${expert.availability?.timezone || 'unknown timezone'} (${expert.availability?.status || 'unknown'})`,
+        ];
+
+        for (const skill of allSkills) {
+            const key = skill.name.toLowerCase();
+            covered.set(key, Math.max(covered.get(key) || 0, credits.get(key)?.score || 0));
+        }
+        chosen.add(expertKey(expert));
+        if (expert.availability?.timezone) timezones.push(expert.availability.timezone);
+
+        picks[index] = { role: role.title, expert, score: best.score, roleFit: best.fit, covers, reasoning, retrieval };
+    }
+
+    const members = picks.filter((m): m is TeamMember => m !== null);
+
+    // Requested skills the finished team still lacks
+    for (const skill of allSkills) {
+        const credit = covered.get(skill.name.toLowerCase()) || 0;
+        if (credit >= FULL_MATCH_SCORE) continue;
+        gaps.push(credit >= MIN_PARTIAL_CREDIT
+            ? { role: skill.role, skill: skill.name, severity: 'partial', reason: `Only adjacent coverage (${Math.round(credit * 100)}% credit)` }
+            : { role: skill.role, skill: skill.name, severity: 'missing', reason: 'Not covered by any member' });
+    }
+
+    const redundantSkills = allSkills
+        .filter(s => members.filter(m => m.covers.includes(s.name)).length > 1)
+        .map(s => s.name);
+
+    return {
+        members,
+        coverage: allSkills.reduce((sum, s) => sum + s.weight * (covered.get(s.name.toLowerCase()) || 0), 0) / totalWeight,
+        redundantSkills,
+        timezoneOverlapHours: workingHoursOverlap(members.map(m => m.expert.availability?.timezone || '')),
+        totalHoursPerWeek: members.reduce((sum, m) => sum + (m.expert.availability?.hoursPerWeek || 0), 0),
+        gaps,
+    };
+}
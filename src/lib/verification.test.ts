@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { FakeDb } from '../test/fake-db';
+import { COLLECTIONS, Expert, Verification } from './mongodb';
+import { setHttpTransport, createFixtureTransport, configureHttpService, resetHttpClient, HttpFixture } from './http';
+import { verifyExpert } from './verification';
+
+let db: FakeDb;
+
+vi.mock('./mongodb', async importOriginal => ({
+    ...await importOriginal<typeof import('./mongodb')>(),
+    getDb: async () => db,
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function expertWith(platform: 'github' | 'stackoverflow', profileUrl: string): Expert {
+    return {
+        _id: new ObjectId().toHexString(),
+        name: 'Test Expert',
+        email: 'expert@corp.test',
+        title: 'Engineer',
+        department: 'Engineering',
+        bio: '',
+        skills: [{ name: 'TypeScript', level: 'senior', yearsExp: 5 }],
+        sources: [{ platform, profileUrl, lastSyncedAt: new Date() }],
+        availability: { timezone: 'UTC', hoursPerWeek: 10, status: 'available' },
+        matchCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+}
+
+const githubExpert = () => expertWith('github', 'https://github.com/octocat');
+const stackOverflowExpert = () => expertWith('stackoverflow', 'https://stackoverflow.com/users/42/someone');
+
+function useFixtures(fixtures: HttpFixture[]) {
+    setHttpTransport(createFixtureTransport(fixtures));
+}
+
+// Hours from now until the verification may be re-checked
+const ttlHoursOf = (expiresAt: Date | undefined) => Math.round((expiresAt!.getTime() - Date.now()) / HOUR_MS);
+
+async function storedVerification(expert: Expert, source: string): Promise<Verification> {
+    return (await db.collection(COLLECTIONS.VERIFICATIONS).findOne({ expertId: expert._id, source })) as unknown as Verification;
+}
+
+beforeEach(() => {
+    db = new FakeDb();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    for (const service of ['github', 'stackexchange']) {
+        configureHttpService(service, { maxRetries: 0, baseBackoffMs: 1 });
+    }
+});
+
+afterEach(() => {
+    resetHttpClient();
+    vi.restoreAllMocks();
+});
+
+describe('verifyExpert not-found classification', () => {
+    it('treats a GitHub 404 as a missing profile and keeps it for the full TTL', async () => {
+        useFixtures([]); // Everything 404s
+        const expert = githubExpert();
+
+        const result = await verifyExpert(expert);
+
+        expect(result.sources[0]).toMatchObject({ fetched: false, notFound: true });
+        expect(result.discrepancies).toContain('GitHub profile octocat not found');
+        expect(result.confidence).toBe(0.15);
+        expect(ttlHoursOf(result.expiresAt)).toBe(7 * 24);
+        expect((await storedVerification(expert, 'github')).evidence?.notFound).toBe(true);
+    });
+
+    it('treats an empty Stack Exchange lookup as a missing profile', async () => {
+        useFixtures([{ match: 'api\\.stackexchange\\.com/2\\.3/users/42\\?', body: { items: [] } }]);
+
+        const result = await verifyExpert(stackOverflowExpert());
+
+        expect(result.sources[0]).toMatchObject({ fetched: false, notFound: true });
+        expect(result.discrepancies).toContain('Stack Overflow user 42 not found');
+        expect(ttlHoursOf(result.expiresAt)).toBe(7 * 24);
+    });
+
+    it('treats a GitHub rate limit as unreachable and re-checks within the hour', async () => {
+        useFixtures([{
+            match: 'api\\.github\\.com',
+            status: 403,
+            headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.ceil(Date.now() / 1000) + 3600) },
+            body: { message: 'API rate limit exceeded' },
+        }]);
+
+        const result = await verifyExpert(githubExpert());
+
+        expect(result.sources[0]).toMatchObject({ fetched: false, notFound: false });
+        expect(result.discrepancies).toContain('Could not reach GitHub to verify octocat');
+        expect(result.confidence).toBe(0.4);
+        expect(ttlHoursOf(result.expiresAt)).toBe(1);
+    });
+
+    it('treats a Stack Exchange outage as unreachable', async () => {
+        useFixtures([{ match: 'api\\.stackexchange\\.com', status: 503, body: { error_message: 'down' } }]);
+
+        const result = await verifyExpert(stackOverflowExpert());
+
+        expect(result.sources[0]).toMatchObject({ fetched: false, notFound: false });
+        expect(result.discrepancies).toContain('Could not reach Stack Overflow to verify user 42');
+        expect(ttlHoursOf(result.expiresAt)).toBe(1);
+    });
+
+    it('treats a throttled top-tags lookup as unreachable rather than unconfirmed skills', async () => {
+        useFixtures([
+            {
+                match: 'api\\.stackexchange\\.com/2\\.3/users/42/top-tags',
+                status: 400,
+                body: { error_id: 502, error_name: 'throttle_violation', error_message: 'too many requests from this IP' },
+            },
+            { match: 'api\\.stackexchange\\.com/2\\.3/users/42\\?', body: { items: [{ user_id: 42, reputation: 100 }] } },
+        ]);
+
+        const result = await verifyExpert(stackOverflowExpert());
+
+        expect(result.sources[0]).toMatchObject({ fetched: false, notFound: false, unconfirmedSkills: [] });
+        expect(result.discrepancies).toEqual(['Could not reach Stack Overflow to verify user 42']);
+        expect(ttlHoursOf(result.expiresAt)).toBe(1);
+    });
+
+    it('keeps fetched evidence for the full TTL', async () => {
+        useFixtures([
+            { match: 'api\\.github\\.com/users/octocat/repos', body: [{ name: 'app', language: 'TypeScript', topics: [] }] },
+            { match: 'api\\.github\\.com/users/octocat', body: { login: 'octocat', followers: 10 } },
+        ]);
+
+        const result = await verifyExpert(githubExpert());
+
+        expect(result.sources[0]).toMatchObject({ fetched: true, confirmedSkills: ['TypeScript'] });
+        expect(result.status).toBe('verified');
+        expect(ttlHoursOf(result.expiresAt)).toBe(7 * 24);
+    });
+});
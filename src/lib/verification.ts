@@ -0,0 +1,421 @@
+/**
+ * Expert Verification for ExpertMesh
+ * Re-fetches an expert's linked GitHub / Stack Overflow profiles and
+ * cross-checks the stored profile against them: claimed skills must show
+ * up in repo languages/topics or top tags, synced data must be recent,
+ * and generated profiles are flagged. Produces a confidence score and a
+ * list of discrepancies for the Recommender.
+ *
+ * Results are persisted per expert and source in the verifications
+ * collection and reused until they expire (VERIFICATION_TTL_HOURS).
+ */
+
+import { getDb, COLLECTIONS, Expert, ExpertVerification, Verification, VerificationEvidence } from './mongodb';
+import { getUserDetails, getUserRepos, parseGitHubUsername } from './github';
+import { getUserById, getUserTopTags, parseStackOverflowUserId } from './stackoverflow';
+import { NotFoundError } from './http';
+import { loadTaxonomy, skillKey } from './taxonomy';
+
+type Platform = VerificationEvidence['platform'];
+
+const DEFAULT_STALE_DAYS = 90;
+const DEFAULT_TTL_HOURS = 7 * 24;
+const ERROR_TTL_HOURS = 1; // Retry unreachable profiles sooner
+const MAX_CLAIMS_CHECKED = 6;
+const SYNTHETIC_PLATFORMS = ['generated', 'document'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Confidence assigned before/without a successful re-fetch
+const SYNTHETIC_CONFIDENCE = 0.2;
+const NO_PROFILE_CONFIDENCE = 0.4;
+const NOT_FOUND_CONFIDENCE = 0.15;
+const UNREACHABLE_CONFIDENCE = 0.4;
+
+function staleAfterDays(): number {
+    return parseInt(process.env.VERIFICATION_STALE_DAYS || '') || DEFAULT_STALE_DAYS;
+}
+
+function ttlHours(): number {
+    return parseFloat(process.env.VERIFICATION_TTL_HOURS || '') || DEFAULT_TTL_HOURS;
+}
+
+/**
+ * Generated or extracted profiles that have no real external counterpart
+ */
+export function isSyntheticProfile(expert: Expert): boolean {
+    if (expert.isSynthetic) return true;
+    if (expert.sources?.some(s => SYNTHETIC_PLATFORMS.includes(s.platform))) return true;
+    // Demo/sample profiles: placeholder email and nothing to cross-check
+    return !expert.sources?.length && /@example\.com$/i.test(expert.email || '');
+}
+
+function claimedSkills(expert: Expert): string[] {
+    return expert.skills.slice(0, MAX_CLAIMS_CHECKED).map(s => s.name);
+}
+
+// Cached evidence is only reused while the claimed skills are unchanged
+function claimsKeyOf(expert: Expert): string {
+    return claimedSkills(expert).map(skillKey).sort().join('|');
+}
+
+/**
+ * Linked profiles, from sources first and the legacy link fields second
+ */
+function linkedProfiles(expert: Expert): Map<Platform, string> {
+    const links = new Map<Platform, string>();
+    for (const source of expert.sources || []) {
+        if ((source.platform === 'github' || source.platform === 'stackoverflow') && !links.has(source.platform)) {
+            links.set(source.platform, source.profileUrl);
+        }
+    }
+    if (expert.github && !links.has('github')) links.set('github', expert.github);
+    if (expert.stackoverflow && !links.has('stackoverflow')) links.set('stackoverflow', expert.stackoverflow);
+    return links;
+}
+
+/**
+ * Split claimed skills into those the evidence supports and those it does not.
+ * A claim is supported by the skill itself, one of its aliases, or one of its
+ * taxonomy ancestors (React is supported by JavaScript repositories).
+ */
+async function checkClaims(claims: string[], evidence: string[]): Promise<{ confirmed: string[]; unconfirmed: string[] }> {
+    const { byKey } = await loadTaxonomy();
+    const canonicalKey = (name: string) => skillKey(byKey.get(skillKey(name))?.canonical || name);
+
+    const evidenceKeys = new Set(evidence.map(canonicalKey));
+    const confirmed: string[] = [];
+    const unconfirmed: string[] = [];
+
+    for (const claim of claims) {
+        const related = [claim];
+        const queue = [...(byKey.get(skillKey(claim))?.parents || [])];
+        while (queue.length > 0) {
+            const parent = queue.shift()!;
+            if (related.includes(parent)) continue;
+            related.push(parent);
+            queue.push(...(byKey.get(skillKey(parent))?.parents || []));
+        }
+
+        if (related.some(name => evidenceKeys.has(canonicalKey(name)))) confirmed.push(claim);
+        else unconfirmed.push(claim);
+    }
+
+    return { confirmed, unconfirmed };
+}
+
+// Only a definite "no such profile" answer; rate limits, outages and timeouts are not
+function isNotFound(error: unknown): boolean {
+    return error instanceof NotFoundError;
+}
+
+function metricDrift(label: string, stored: number | undefined, current: number): string | null {
+    if (stored === undefined || stored === null) return null;
+    const base = Math.max(stored, current, 1);
+    return Math.abs(current - stored) / base > 0.5
+        ? `${label} changed from ${stored.toLocaleString()} to ${current.toLocaleString()} since last sync`
+        : null;
+}
+
+function emptyEvidence(platform: Platform, profileUrl: string): VerificationEvidence {
+    return { platform, profileUrl, fetched: false, stale: false, confirmedSkills: [], unconfirmedSkills: [], discrepancies: [] };
+}
+
+async function checkGitHub(expert: Expert, profileUrl: string): Promise<VerificationEvidence> {
+    const check = emptyEvidence('github', profileUrl);
+    const discrepancies = check.discrepancies;
+    const username = parseGitHubUsername(profileUrl);
+    if (!username) {
+        check.error = 'unrecognized profile URL';
+        discrepancies.push(`GitHub link is not a profile URL: ${profileUrl}`);
+        return check;
+    }
+
+    try {
+        const [user, repos] = await Promise.all([getUserDetails(username), getUserRepos(username, 30)]);
+        check.fetched = true;
+
+        const evidence = repos.flatMap(repo => [repo.language, ...(repo.topics || [])]).filter((e): e is string => !!e);
+        const claims = claimedSkills(expert);
+        const { confirmed, unconfirmed } = await checkClaims(claims, evidence);
+        check.confirmedSkills = confirmed;
+        check.unconfirmedSkills = unconfirmed;
+
+        if (unconfirmed.length > 0) {
+            discrepancies.push(`Not found in GitHub repositories: ${unconfirmed.join(', ')}`);
+        }
+
+        const drift = metricDrift('GitHub followers', expert.metrics?.githubFollowers, user.followers);
+        if (drift) discrepancies.push(drift);
+    } catch (error) {
+        check.error = String(error);
+        check.notFound = isNotFound(error);
+        discrepancies.push(check.notFound ? `GitHub profile ${username} not found` : `Could not reach GitHub to verify ${username}`);
+    }
+
+    return check;
+}
+
+async function checkStackOverflow(expert: Expert, profileUrl: string): Promise<VerificationEvidence> {
+    const check = emptyEvidence('stackoverflow', profileUrl);
+    const discrepancies = check.discrepancies;
+    const userId = parseStackOverflowUserId(profileUrl);
+    if (!userId) {
+        check.error = 'unrecognized profile URL';
+        discrepancies.push(`Stack Overflow link is not a profile URL: ${profileUrl}`);
+        return check;
+    }
+
+    try {
+        const user = await getUserById(userId);
+        const tags = await getUserTopTags(userId);
+        check.fetched = true;
+
+        const claims = claimedSkills(expert);
+        const { confirmed, unconfirmed } = await checkClaims(claims, tags.map(t => t.tag_name));
+        check.confirmedSkills = confirmed;
+        check.unconfirmedSkills = unconfirmed;
+
+        if (unconfirmed.length > 0) {
+            discrepancies.push(`Not among Stack Overflow top tags: ${unconfirmed.join(', ')}`);
+        }
+
+        const drift = metricDrift('Stack Overflow reputation', expert.metrics?.soReputation, user.reputation);
+        if (drift) discrepancies.push(drift);
+    } catch (error) {
+        check.error = String(error);
+        check.notFound = isNotFound(error);
+        discrepancies.push(check.notFound ? `Stack Overflow user ${userId} not found` : `Could not reach Stack Overflow to verify user ${userId}`);
+    }
+
+    return check;
+}
+
+function sourceConfidence(check: VerificationEvidence): number {
+    if (!check.fetched) {
+        return check.notFound ? NOT_FOUND_CONFIDENCE : UNREACHABLE_CONFIDENCE;
+    }
+    const claims = check.confirmedSkills.length + check.unconfirmedSkills.length;
+    const ratio = claims > 0 ? check.confirmedSkills.length / claims : 0.5;
+    return Math.max(0, 0.4 + 0.6 * ratio - (check.stale ? 0.1 : 0));
+}
+
+function statusFor(confidence: number): ExpertVerification['status'] {
+    return confidence >= 0.75 ? 'verified' : confidence >= 0.4 ? 'partial' : 'unverified';
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Result for profiles with nothing to re-fetch (synthetic or no links)
+ */
+function localVerification(expert: Expert, checkedAt: Date): ExpertVerification {
+    return isSyntheticProfile(expert)
+        ? {
+            status: 'synthetic',
+            confidence: SYNTHETIC_CONFIDENCE,
+            synthetic: true,
+            discrepancies: ['Generated profile with no external source to verify against'],
+            sources: [],
+            checkedAt,
+        }
+        : {
+            status: 'unverified',
+            confidence: NO_PROFILE_CONFIDENCE,
+            synthetic: false,
+            discrepancies: ['No GitHub or Stack Overflow profile to verify against'],
+            sources: [],
+            checkedAt,
+        };
+}
+
+/**
+ * Combine per-source evidence, re-evaluating staleness against the expert's
+ * current lastSyncedAt (which a re-sync can change without new evidence)
+ */
+function summarize(expert: Expert, evidence: VerificationEvidence[], checkedAt: Date): ExpertVerification {
+    const discrepancies: string[] = [];
+    const sources = evidence.map(check => {
+        const syncedAt = expert.sources?.find(s => s.profileUrl === check.profileUrl)?.lastSyncedAt;
+        const ageDays = syncedAt ? Math.floor((Date.now() - new Date(syncedAt).getTime()) / DAY_MS) : 0;
+        const stale = ageDays > staleAfterDays();
+
+        discrepancies.push(...check.discrepancies);
+        if (stale) {
+            discrepancies.push(`${check.platform === 'github' ? 'GitHub' : 'Stack Overflow'} data last synced ${ageDays} days ago`);
+        }
+        return { ...check, stale };
+    });
+
+    const confidence = round(sources.reduce((sum, check) => sum + sourceConfidence(check), 0) / sources.length);
+
+    return {
+        status: statusFor(confidence),
+        confidence,
+        synthetic: false,
+        discrepancies,
+        sources,
+        checkedAt,
+    };
+}
+
+function expiryFor(evidence?: VerificationEvidence): Date {
+    const hours = evidence && !evidence.fetched && !evidence.notFound ? ERROR_TTL_HOURS : ttlHours();
+    return new Date(Date.now() + hours * HOUR_MS);
+}
+
+async function saveVerifications(docs: Verification[]) {
+    if (docs.length === 0) return;
+    try {
+        const db = await getDb();
+        await db.collection<Verification>(COLLECTIONS.VERIFICATIONS).bulkWrite(
+            docs.map(doc => ({
+                updateOne: {
+                    filter: { expertId: doc.expertId, source: doc.source },
+                    update: { $set: doc },
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        );
+    } catch (error) {
+        console.error('Verification write failed:', error);
+    }
+}
+
+/**
+ * Verify one expert against their linked external profiles, reusing
+ * unexpired results from the verifications collection unless refresh is set
+ */
+export async function verifyExpert(expert: Expert, options: { refresh?: boolean } = {}): Promise<ExpertVerification> {
+    const expertId = expert._id ? String(expert._id) : null;
+    const claimsKey = claimsKeyOf(expert);
+    const checkedAt = new Date();
+    const links = linkedProfiles(expert);
+
+    if (isSyntheticProfile(expert) || links.size === 0) {
+        const result = localVerification(expert, checkedAt);
+        const expiresAt = expiryFor();
+        if (expertId) {
+            await saveVerifications([{
+                expertId,
+                source: 'profile',
+                claimsKey,
+                status: result.status,
+                confidence: result.confidence,
+                discrepancies: result.discrepancies,
+                checkedAt,
+                expiresAt,
+            }]);
+        }
+        return { ...result, expiresAt };
+    }
+
+    // Unexpired evidence checked against the same profile and claims
+    const cached = new Map<Platform, Verification>();
+    if (expertId && !options.refresh) {
+        try {
+            const db = await getDb();
+            const docs = await db.collection<Verification>(COLLECTIONS.VERIFICATIONS)
+                .find({ expertId, source: { $in: [...links.keys()] }, expiresAt: { $gt: checkedAt } })
+                .toArray();
+            for (const doc of docs) {
+                const platform = doc.source as Platform;
+                if (doc.evidence && doc.profileUrl === links.get(platform) && doc.claimsKey === claimsKey) {
+                    cached.set(platform, doc);
+                }
+            }
+        } catch (error) {
+            console.error('Verification lookup failed:', error);
+        }
+    }
+
+    const fresh: Verification[] = [];
+    const evidence = await Promise.all([...links].map(async ([platform, url]) => {
+        const hit = cached.get(platform);
+        if (hit?.evidence) return hit.evidence;
+
+        const check = platform === 'github' ? await checkGitHub(expert, url) : await checkStackOverflow(expert, url);
+        const confidence = round(sourceConfidence(check));
+        if (expertId) {
+            fresh.push({
+                expertId,
+                source: platform,
+                profileUrl: url,
+                claimsKey,
+                status: statusFor(confidence),
+                confidence,
+                evidence: check,
+                discrepancies: check.discrepancies,
+                checkedAt,
+                expiresAt: expiryFor(check),
+            });
+        }
+        return check;
+    }));
+
+    await saveVerifications(fresh);
+
+    const expiries = [...cached.values(), ...fresh].map(doc => doc.expiresAt.getTime());
+    const oldest = [...cached.values()].reduce<Date>((min, doc) => (doc.checkedAt < min ? doc.checkedAt : min), checkedAt);
+
+    return {
+        ...summarize(expert, evidence, oldest),
+        expiresAt: expiries.length > 0 ? new Date(Math.min(...expiries)) : undefined,
+        cached: cached.size === links.size,
+    };
+}
+
+/**
+ * Stored, unexpired verifications for a set of experts (no re-fetching),
+ * keyed by expert id. Experts with incomplete evidence are omitted.
+ */
+export async function getStoredVerifications(experts: Expert[]): Promise<Map<string, ExpertVerification>> {
+    const results = new Map<string, ExpertVerification>();
+    const ids = experts.filter(e => e._id).map(e => String(e._id));
+    if (ids.length === 0) return results;
+
+    const db = await getDb();
+    const docs = await db.collection<Verification>(COLLECTIONS.VERIFICATIONS)
+        .find({ expertId: { $in: ids }, expiresAt: { $gt: new Date() } })
+        .toArray();
+
+    const byExpert = new Map<string, Verification[]>();
+    docs.forEach(doc => byExpert.set(doc.expertId, [...(byExpert.get(doc.expertId) || []), doc]));
+
+    for (const expert of experts) {
+        const stored = byExpert.get(String(expert._id));
+        if (!stored) continue;
+
+        const links = linkedProfiles(expert);
+
+        // Written while the expert had nothing to re-fetch; void once links exist
+        const profile = isSyntheticProfile(expert) || links.size === 0
+            ? stored.find(doc => doc.source === 'profile')
+            : undefined;
+        if (profile) {
+            results.set(String(expert._id), {
+                status: profile.status,
+                confidence: profile.confidence,
+                synthetic: profile.status === 'synthetic',
+                discrepancies: profile.discrepancies,
+                sources: [],
+                checkedAt: profile.checkedAt,
+                expiresAt: profile.expiresAt,
+                cached: true,
+            });
+            continue;
+        }
+
+        const evidence = stored.filter(doc => doc.evidence && links.get(doc.source as Platform) === doc.profileUrl);
+        if (evidence.length === 0 || evidence.length < links.size) continue;
+
+        results.set(String(expert._id), {
+            ...summarize(expert, evidence.map(doc => doc.evidence!), new Date(Math.min(...evidence.map(doc => doc.checkedAt.getTime())))),
+            expiresAt: new Date(Math.min(...evidence.map(doc => doc.expiresAt.getTime()))),
+            cached: true,
+        });
+    }
+
+    return results;
+}
@@ -1,97 +1,166 @@
 /**
- * Voyage AI Integration for ExpertMesh
- * Generates embeddings for expert skills and queries
+ * Embeddings for ExpertMesh
+ * Generates embeddings for expert skills and queries through the configured
+ * provider (Voyage AI by default, see ./embeddings.ts), backed by a MongoDB cache
  */
 
-const VOYAGE_API_URL = 'https://api.voyageai.com/v1/embeddings';
-const VOYAGE_MODEL = 'voyage-2'; // General purpose model
-
-import { getDb, COLLECTIONS } from './mongodb';
+import { getDb, COLLECTIONS, EmbeddingMetadata } from './mongodb';
+import { getEmbeddingProvider, getEmbeddingMetadata as getProviderMetadata } from './embeddings';
 import crypto from 'crypto';
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-    const voyageKey = process.env.VOYAGE_API_KEY;
+// Bump when the expert profile text below changes so stored vectors get re-embedded
+export const EXPERT_EMBEDDING_VERSION = 1;
 
-    if (!voyageKey) {
-        console.log('⚠️ Voyage API key not set, using mock embedding');
-        return Array(1024).fill(0).map(() => Math.random() * 2 - 1);
-    }
+// Vectors stored before provenance was recorded were all produced by this model
+export const LEGACY_EMBEDDING: EmbeddingMetadata = {
+    provider: 'voyage',
+    model: 'voyage-2',
+    dimensions: 1024,
+};
 
-    // 1. Check cache first
-    const textHash = crypto.createHash('sha256').update(text).digest('hex');
+/**
+ * Provenance record for a freshly generated expert vector
+ */
+export function getEmbeddingMetadata(): EmbeddingMetadata {
+    return { ...getProviderMetadata(), version: EXPERT_EMBEDDING_VERSION };
+}
 
-    try {
-        const db = await getDb();
-        const cached = await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).findOne({ textHash });
+/**
+ * $vectorSearch filter restricting results to vectors from the active model
+ * (vectors stored before provenance existed are tagged with LEGACY_EMBEDDING
+ * on first connection, see tagLegacyExpertEmbeddings in ./reembed.ts)
+ */
+export function getActiveVectorFilter(): Record<string, unknown> {
+    return { 'embedding.model': { $eq: getEmbeddingProvider().model } };
+}
 
-        if (cached) {
-            console.log('🎯 Embedding Cache Hit!');
-            return cached.embedding;
-        }
+const DEFAULT_BATCH_SIZE = 64; // Inputs per provider request
 
-        // 2. Cache miss: Call Voyage AI
-        console.log('🌐 Embedding Cache Miss: Calling Voyage AI...');
-        const response = await fetch(VOYAGE_API_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${voyageKey}`,
-            },
-            body: JSON.stringify({
-                input: text,
-                model: VOYAGE_MODEL,
-            }),
-        });
-
-        if (!response.ok) {
-            throw new Error(`Voyage API error: ${response.statusText}`);
+type ExpertEmbeddingInput = {
+    name: string;
+    title: string;
+    bio: string;
+    skills: { name: string; level: string; yearsExp: number }[];
+};
+
+function hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Generate embeddings for many texts at once.
+ * Looks up the cache with a single $in query, sends only the misses to the
+ * provider in size-limited batches, and returns vectors in input order.
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const provider = getEmbeddingProvider();
+    const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+
+    // Identical texts share one vector
+    const hashes = texts.map(hashText);
+    const uniqueTexts = new Map<string, string>();
+    hashes.forEach((hash, i) => uniqueTexts.set(hash, texts[i]));
+
+    const vectors = new Map<string, number[]>();
+    const db = provider.cacheable ? await getDb() : null;
+
+    // 1. Check cache first (entries are scoped to the model that produced them)
+    if (db) {
+        try {
+            const cached = await db.collection(COLLECTIONS.CACHE_EMBEDDINGS)
+                .find({ textHash: { $in: [...uniqueTexts.keys()] }, model: provider.model })
+                .project({ textHash: 1, embedding: 1 })
+                .toArray();
+
+            cached.forEach(entry => vectors.set(entry.textHash, entry.embedding));
+            if (cached.length > 0) {
+                console.log(`🎯 Embedding Cache Hit: ${cached.length}/${uniqueTexts.size}`);
+            }
+        } catch (error) {
+            console.error('Embedding cache lookup failed:', error);
         }
+    }
+
+    // 2. Cache misses: call the provider in batches (transient errors are
+    //    retried by the HTTP client, anything else propagates to the caller)
+    const misses = [...uniqueTexts.entries()].filter(([hash]) => !vectors.has(hash));
 
-        const data = await response.json();
-        const embedding = data.data[0].embedding;
+    if (misses.length > 0) {
+        console.log(`🌐 Embedding Cache Miss: Calling ${provider.name} (${provider.model}) for ${misses.length} texts...`);
+    }
+
+    for (let i = 0; i < misses.length; i += batchSize) {
+        const batch = misses.slice(i, i + batchSize);
+        const embeddings = await provider.embed(batch.map(([, text]) => text));
+
+        batch.forEach(([hash], j) => vectors.set(hash, embeddings[j]));
 
         // 3. Store in cache
-        await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).updateOne(
-            { textHash },
-            {
-                $set: {
-                    textHash,
-                    text: text.slice(0, 500), // Store preview
-                    embedding,
-                    createdAt: new Date()
-                }
-            },
-            { upsert: true }
-        );
-
-        return embedding;
-    } catch (error) {
-        console.error('Voyage embedding error:', error);
-        return Array(1024).fill(0).map(() => Math.random() * 2 - 1);
+        if (db) {
+            try {
+                await db.collection(COLLECTIONS.CACHE_EMBEDDINGS).bulkWrite(
+                    batch.map(([textHash, text], j) => ({
+                        updateOne: {
+                            filter: { textHash, model: provider.model },
+                            update: {
+                                $set: {
+                                    textHash,
+                                    text: text.slice(0, 500), // Store preview
+                                    embedding: embeddings[j],
+                                    provider: provider.name,
+                                    model: provider.model,
+                                    dimensions: provider.dimensions,
+                                    createdAt: new Date(),
+                                },
+                            },
+                            upsert: true,
+                        },
+                    })),
+                    { ordered: false }
+                );
+            } catch (error) {
+                console.error('Embedding cache write failed:', error);
+            }
+        }
     }
+
+    return hashes.map(hash => vectors.get(hash)!);
+}
+
+export async function generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await generateEmbeddings([text]);
+    return embedding;
 }
 
 /**
- * Generate embedding for an expert's full profile
+ * Rich text representation of an expert used for embedding
  */
-export async function generateExpertEmbedding(expert: {
-    name: string;
-    title: string;
-    bio: string;
-    skills: { name: string; level: string; yearsExp: number }[];
-}): Promise<number[]> {
-    // Create a rich text representation of the expert
+export function expertEmbeddingText(expert: ExpertEmbeddingInput): string {
     const skillsText = expert.skills
         .map(s => `${s.name} (${s.level}, ${s.yearsExp} years)`)
         .join(', ');
 
-    const fullText = `
+    return `
         ${expert.name}, ${expert.title}
         ${expert.bio}
         Skills: ${skillsText}
     `.trim();
+}
+
+/**
+ * Generate embedding for an expert's full profile
+ */
+export async function generateExpertEmbedding(expert: ExpertEmbeddingInput): Promise<number[]> {
+    return generateEmbedding(expertEmbeddingText(expert));
+}
 
-    return generateEmbedding(fullText);
+/**
+ * Generate embeddings for many expert profiles in one batched pass
+ */
+export async function generateExpertEmbeddings(experts: ExpertEmbeddingInput[]): Promise<number[][]> {
+    return generateEmbeddings(experts.map(expertEmbeddingText));
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * In-memory stand-in for the MongoDB Db used by tests
+ * Covers the collection methods the lib modules call; filters, sorts,
+ * projections and update operators are evaluated by mingo.
+ */
+
+import { ObjectId } from 'mongodb';
+import { find, update } from 'mingo';
+
+type Doc = Record<string, unknown>;
+type Criteria = Parameters<typeof find>[1];
+type Modifier = Parameters<typeof update>[1];
+
+interface FindOptions {
+    projection?: Doc;
+    sort?: Record<string, 1 | -1>;
+}
+
+class FakeCursor {
+    private sortSpec?: Record<string, 1 | -1>;
+    private limitCount?: number;
+
+    constructor(private readonly docs: Doc[], private readonly filter: Doc, private projection?: Doc) {}
+
+    sort(spec: Record<string, 1 | -1>) {
+        this.sortSpec = spec;
+        return this;
+    }
+
+    limit(count: number) {
+        this.limitCount = count;
+        return this;
+    }
+
+    project(projection: Doc) {
+        this.projection = projection;
+        return this;
+    }
+
+    async toArray(): Promise<Doc[]> {
+        let cursor = find(this.docs, this.filter as Criteria, this.projection);
+        if (this.sortSpec) cursor = cursor.sort(this.sortSpec);
+        if (this.limitCount) cursor = cursor.limit(this.limitCount);
+        return cursor.all().map(doc => ({ ...(doc as Doc) }));
+    }
+}
+
+export class FakeCollection {
+    readonly docs: Doc[] = [];
+
+    private matching(filter: Doc, sort?: Record<string, 1 | -1>): Doc[] {
+        const cursor = find(this.docs, filter as Criteria);
+        return (sort ? cursor.sort(sort) : cursor).all() as Doc[];
+    }
+
+    // Equality fields of an upsert filter seed the inserted document
+    private upsert(filter: Doc, modifier: Doc) {
+        const doc: Doc = Object.fromEntries(Object.entries(filter).filter(([key, value]) =>
+            !key.startsWith('$') && (typeof value !== 'object' || value === null || value instanceof Date || value instanceof ObjectId)));
+        update(doc, modifier as Modifier);
+        return this.insertOne(doc);
+    }
+
+    find(filter: Doc = {}, options: FindOptions = {}) {
+        return new FakeCursor(this.docs, filter, options.projection);
+    }
+
+    async findOne(filter: Doc = {}, options: FindOptions = {}): Promise<Doc | null> {
+        const [doc] = await new FakeCursor(this.docs, filter, options.projection).limit(1).toArray();
+        return doc || null;
+    }
+
+    async countDocuments(filter: Doc = {}): Promise<number> {
+        return this.matching(filter).length;
+    }
+
+    async insertOne(doc: Doc) {
+        const stored = { _id: new ObjectId(), ...doc };
+        this.docs.push(stored);
+        return { acknowledged: true, insertedId: stored._id };
+    }
+
+    async insertMany(docs: Doc[]) {
+        for (const doc of docs) await this.insertOne(doc);
+        return { acknowledged: true, insertedCount: docs.length };
+    }
+
+    async updateOne(filter: Doc, modifier: Doc, options: { upsert?: boolean } = {}) {
+        const [doc] = this.matching(filter);
+        if (doc) update(doc, modifier as Modifier);
+        else if (options.upsert) await this.upsert(filter, modifier);
+        return { acknowledged: true, matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    }
+
+    async updateMany(filter: Doc, modifier: Doc) {
+        const docs = this.matching(filter);
+        docs.forEach(doc => update(doc, modifier as Modifier));
+        return { acknowledged: true, matchedCount: docs.length, modifiedCount: docs.length };
+    }
+
+    async findOneAndUpdate(filter: Doc, modifier: Doc, options: FindOptions & { returnDocument?: 'before' | 'after' } = {}) {
+        const [doc] = this.matching(filter, options.sort);
+        if (!doc) return null;
+        const before = { ...doc };
+        update(doc, modifier as Modifier);
+        return options.returnDocument === 'after' ? { ...doc } : before;
+    }
+
+    async deleteMany(filter: Doc = {}) {
+        const doomed = new Set(this.matching(filter));
+        const remaining = this.docs.filter(doc => !doomed.has(doc));
+        this.docs.splice(0, this.docs.length, ...remaining);
+        return { acknowledged: true, deletedCount: doomed.size };
+    }
+
+    async bulkWrite(operations: { updateOne: { filter: Doc; update: Doc; upsert?: boolean } }[]) {
+        for (const { updateOne } of operations) {
+            await this.updateOne(updateOne.filter, updateOne.update, { upsert: updateOne.upsert });
+        }
+        return { acknowledged: true };
+    }
+}
+
+export class FakeDb {
+    private readonly collections = new Map<string, FakeCollection>();
+
+    collection(name: string): FakeCollection {
+        let collection = this.collections.get(name);
+        if (!collection) {
+            collection = new FakeCollection();
+            this.collections.set(name, collection);
+        }
+        return collection;
+    }
+}
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // mongodb.ts requires a URI at import; tests swap getDb for an in-memory fake
+    env: { MONGODB_URI: 'mongodb://127.0.0.1:1/expertmesh-test' },
+  },
+});